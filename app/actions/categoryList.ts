@@ -1,25 +1,26 @@
 'use server'
-export const categoryList = async (category: string, count: number) => {
+import { serverApiRequest } from "@/app/lib/api/server";
+import { APIError, TrendRegion } from "@/app/lib/api/types";
+import { trendRegionToBackendQuery } from "@/app/lib/trends/region";
+
+export const categoryList = async (category: string, count: number, region?: TrendRegion) => {
 
     try {
-        const res = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/trends/categories/${category}/recommendations?limit=${count}&days=90&platform=youtube `, {
-            headers: {
-                'Content-Type': 'application/json',
+        const data = await serverApiRequest<{ items: Video[] }>(`/trends/categories/${encodeURIComponent(category)}/recommendations`, {
+            query: {
+                limit: count,
+                days: 90,
+                platform: 'youtube',
+                ...trendRegionToBackendQuery(region),
             },
-            cache: 'no-store',
-            method: 'GET',
         });
 
-        // 404 응답 처리 (해당 카테고리에 추천 콘텐츠가 없는 경우)
-        if (!res.ok) {
-            //console.log(`카테고리 "${category}" 추천 콘텐츠 없음 (status: ${res.status})`);
-            return { items: [] };
-        }
-
-        const data = await res.json();
-        return data;
+        return data ?? { items: [] };
     } catch (error) {
-        console.log(error);
+        // 404 등 HTTP 오류 응답 처리 (해당 카테고리에 추천 콘텐츠가 없는 경우)
+        if (!(error instanceof APIError && error.code === 'HTTP')) {
+            console.log(error);
+        }
         return { items: [] };
     }
-}
\ No newline at end of file
+}
@@ -1,20 +1,15 @@
 'use server'
+import { serverApiRequest } from "@/app/lib/api/server";
 
 export const insertInterest = async (interest: string, userId: string) => {
 
     try {
-        const res = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/accounts/${userId}/interests`, {
+        await serverApiRequest(`/accounts/${userId}/interests`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ interest: interest }),
+            body: { interest: interest },
+            errorMessage: 'Failed to insert interest',
         });
-
-        if (!res.ok) {
-            throw new Error('Failed to insert interest');
-        }
     } catch (error) {
         console.error('Error inserting interest:', error);
     }
-};
\ No newline at end of file
+};
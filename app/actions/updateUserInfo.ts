@@ -1,4 +1,5 @@
 'use server';
+import { serverApiRequest } from "@/app/lib/api/server";
 
 export const updateUserInfo = async (profile_image?: File | null, bio?: string, userId?: string) => {
     try {
@@ -14,22 +15,16 @@ export const updateUserInfo = async (profile_image?: File | null, bio?: string,
             formData.append('bio', bio);
         }
 
-        const res = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/accounts/${userId}`, {
+        // FormData는 Content-Type(boundary 포함)을 자동으로 설정하므로 헤더를 지정하지 않습니다.
+        return await serverApiRequest(`/accounts/${userId}`, {
             method: 'PATCH',
-            headers: {
-                // FormData 사용 시 Content-Type을 자동으로 설정하므로 헤더 제거
-                // 'Content-Type': 'multipart/form-data' <- 이것도 명시하지 않아야 합니다
-            },
             body: formData, // FormData 객체를 직접 전달
+            // 이미지 업로드는 시간이 걸릴 수 있으므로 타임아웃을 넉넉히 둡니다.
+            timeoutMs: 30_000,
+            errorMessage: 'HTTP error!',
         });
-
-        if (!res.ok) {
-            throw new Error(`HTTP error! status: ${res.status}`);
-        }
-
-        return await res.json();
     } catch (error) {
         console.error('Error updating user info:', error);
         throw error;
     }
-};
\ No newline at end of file
+};
@@ -1,6 +1,12 @@
 import { NextRequest } from 'next/server';
+import { isAbortError } from '@/app/lib/api/client';
+import { serverApiFetch } from '@/app/lib/api/server';
+import { withRateLimit } from '@/app/lib/rate-limit';
 
-export async function POST(request: NextRequest) {
+// LLM 백엔드 비용이 크므로 계정/IP당 요청 수를 제한합니다. (app/lib/rate-limit/policies.ts 의 chat)
+export const POST = withRateLimit('chat', handleChat);
+
+async function handleChat(request: NextRequest) {
     try {
         const { messages, conversationId } = await request.json();
 
@@ -14,23 +20,17 @@ export async function POST(request: NextRequest) {
                 let backendReader: ReadableStreamDefaultReader<Uint8Array> | null = null;
 
                 try {
-                    const apiUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
-                    const response = await fetch(`${apiUrl}/chat/stream`, {
+                    const response = await serverApiFetch('/chat/stream', {
                         method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
+                        body: {
                             messages,
                             conversationId,
-                        }),
+                        },
                         signal: request.signal,
+                        // LLM 첫 토큰까지의 대기 시간을 고려합니다. (스트리밍 본문에는 적용되지 않음)
+                        timeoutMs: 60_000,
                     });
 
-                    if (!response.ok) {
-                        throw new Error(`API error: ${response.status}`);
-                    }
-
                     backendReader = response.body?.getReader() || null;
                     if (!backendReader) {
                         throw new Error('No response body');
@@ -53,7 +53,7 @@ export async function POST(request: NextRequest) {
                         controller.enqueue(encoder.encode(chunk));
                     }
                 } catch (error) {
-                    if (error instanceof Error && error.name === 'AbortError') {
+                    if (isAbortError(error)) {
                         console.log('Request aborted by client');
                         // ⭐ 백엔드 reader 정리
                         if (backendReader) {
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { getLiveness } from '@/app/lib/health'
+
+// 생존 확인 (Docker HEALTHCHECK). 로드밸런서 점검이 막히지 않도록 요청 제한을 두지 않습니다.
+export const dynamic = 'force-dynamic'
+
+export function GET() {
+  return NextResponse.json(getLiveness(), { headers: { 'Cache-Control': 'no-store' } })
+}
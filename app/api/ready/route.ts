@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { getReadiness } from '@/app/lib/health'
+
+// 준비 확인 (로드밸런서 대상 등록). 준비되지 않았으면 503을 반환합니다.
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const readiness = await getReadiness()
+  return NextResponse.json(readiness, {
+    status: readiness.status === 'ready' ? 200 : 503,
+    headers: { 'Cache-Control': 'no-store' },
+  })
+}
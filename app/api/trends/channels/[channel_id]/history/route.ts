@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isMockApiEnabled } from '@/app/lib/api/mock'
+import { getMockChannelVideoIds, getMockViewHistorySnapshotRows } from '@/app/lib/api/mock/fixtures'
+import { queryChannelVideoBuckets } from '@/app/lib/db'
+import { getPlatformProvider } from '@/app/lib/platforms'
+import { withRateLimit } from '@/app/lib/rate-limit'
+import { aggregateChannelHistory, CHANNEL_SURGE_SCORE_THRESHOLD } from '@/app/lib/trends/channel-history'
+import { parseViewHistoryQuery } from '@/app/lib/trends/view-history'
+import { buildViewHistoryAxis, ViewHistorySnapshotRow } from '@/app/lib/trends/view-history-batch'
+
+// IP당 요청 제한 (app/lib/rate-limit/policies.ts 의 viewHistory)
+export const GET = withRateLimit('viewHistory', getChannelHistory)
+
+async function getChannelHistory(
+  request: NextRequest,
+  { params }: { params: Promise<{ channel_id: string }> }
+) {
+  const { channel_id } = await params
+  const parsed = parseViewHistoryQuery(new URL(request.url).searchParams)
+  const query = { ...parsed.query, videoIds: [], align: 'calendar' as const }
+  const { platform, granularity, limit, from, to, latest, timeZone } = query
+
+  // 응답 meta 공통 부분 (요청한 조회 조건)
+  const queryMeta = {
+    channel_id: channel_id || null,
+    platform,
+    granularity,
+    time_zone: timeZone,
+    from: from?.toISOString() ?? null,
+    to: to?.toISOString() ?? null,
+    latest,
+    requested_limit: limit,
+    surge_score_threshold: CHANNEL_SURGE_SCORE_THRESHOLD,
+  }
+
+  const errorResponse = (status: number, message: string, extra?: Record<string, unknown>) =>
+    NextResponse.json({ history: [], meta: { ...queryMeta, limit: 0, message, ...extra } }, { status })
+
+  if (!channel_id) {
+    return errorResponse(400, 'channel_id가 필요합니다.')
+  }
+
+  if (parsed.error !== undefined) {
+    return errorResponse(400, parsed.error)
+  }
+
+  // 첫 구간 증가량 계산용 비교 기준 구간이 앞에 붙은 달력 구간 축
+  const axis = buildViewHistoryAxis(query)
+  const respond = (rows: ViewHistorySnapshotRow[]) => {
+    const history = aggregateChannelHistory(axis, rows, limit)
+    return NextResponse.json({ history, meta: { ...queryMeta, limit: history.length } })
+  }
+
+  // Mock 모드나 fixture 플랫폼(instagram, tiktok): DB 없이 fixture 영상들로 집계
+  const provider = getPlatformProvider(platform)
+  if (isMockApiEnabled() || provider.source === 'fixture') {
+    const videoIds = getMockChannelVideoIds(channel_id, provider.id)
+    return respond(getMockViewHistorySnapshotRows(videoIds, axis, 'calendar', provider.id))
+  }
+
+  try {
+    // 채널 영상들의 구간별 최대(최신) 누적값을 한 번에 가져와 구간마다 집계합니다.
+    const buckets = await queryChannelVideoBuckets(channel_id, platform, {
+      granularity,
+      timeZone,
+      from: axis[0] ? new Date(axis[0].key) : from,
+      to,
+    })
+
+    if (buckets.length === 0) {
+      console.log(`No channel history found for channel_id: ${channel_id}`)
+      return NextResponse.json({
+        history: [],
+        meta: { ...queryMeta, limit: 0, message: '채널 영상의 조회수 이력이 없습니다.' },
+      })
+    }
+
+    const rows = buckets.map(({ bucket_start, ...row }): ViewHistorySnapshotRow => ({
+      ...row,
+      key: bucket_start.getTime(),
+    }))
+
+    console.log(`Channel history loaded for ${channel_id}: ${rows.length} video ${granularity} buckets`)
+
+    return respond(rows)
+  } catch (error) {
+    console.error('Failed to fetch channel history from database:', error)
+
+    return errorResponse(500, '채널 조회수 추이 데이터를 가져오는 중 오류가 발생했습니다.', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
@@ -1,131 +1,111 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { Pool } from 'pg'
-
-// PostgreSQL 연결 풀 생성
-let pool: Pool | null = null
-
-function getPool() {
-  if (!pool) {
-    const connectionString = process.env.DATABASE_URL || process.env.SQL_HOST
-    
-    if (!connectionString) {
-      throw new Error('DATABASE_URL or SQL_HOST environment variable is not set')
-    }
-
-    pool = new Pool({
-      connectionString,
-      max: 20,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 2000,
-    })
-  }
-  return pool
-}
-
-export async function GET(
+import { isMockApiEnabled } from '@/app/lib/api/mock'
+import { getMockBucketedViewHistory } from '@/app/lib/api/mock/fixtures'
+import { queryVideoHistory } from '@/app/lib/db'
+import { getPlatformProvider } from '@/app/lib/platforms'
+import { withRateLimit } from '@/app/lib/rate-limit'
+import {
+  formatViewHistoryBucket,
+  getViewHistoryFetchLimit,
+  parseViewHistoryQuery,
+  selectViewHistoryBuckets,
+} from '@/app/lib/trends/view-history'
+import { detectViewHistoryAnomalies, VIEW_HISTORY_ANOMALY_THRESHOLD } from '@/app/lib/trends/view-anomalies'
+import { deriveViewHistoryMetrics, VIEW_HISTORY_MOVING_AVERAGE_WINDOW } from '@/app/lib/trends/view-metrics'
+
+// IP당 요청 제한 (app/lib/rate-limit/policies.ts 의 viewHistory)
+export const GET = withRateLimit('viewHistory', getViewHistory)
+
+async function getViewHistory(
   request: NextRequest,
   { params }: { params: Promise<{ video_id: string }> }
 ) {
   const { video_id } = await params
-  const url = new URL(request.url)
-  const searchParams = url.searchParams
-
-  const platform = searchParams.get('platform') || 'youtube'
-  const limit = Math.max(1, Math.min(Number(searchParams.get('limit') || '30'), 100))
+  const parsed = parseViewHistoryQuery(new URL(request.url).searchParams)
+  const { platform, granularity, limit, from, to, latest, timeZone } = parsed.query
+
+  // 응답 meta 공통 부분 (요청한 조회 조건)
+  const queryMeta = {
+    platform,
+    requested_limit: limit,
+    granularity,
+    time_zone: timeZone,
+    from: from?.toISOString() ?? null,
+    to: to?.toISOString() ?? null,
+    latest,
+    moving_average_window: VIEW_HISTORY_MOVING_AVERAGE_WINDOW,
+    anomaly_threshold: VIEW_HISTORY_ANOMALY_THRESHOLD,
+  }
 
-  if (!video_id) {
-    return NextResponse.json(
+  const errorResponse = (status: number, message: string, extra?: Record<string, unknown>) =>
+    NextResponse.json(
       {
-        items: [],
-        meta: {
-          video_id: null,
-          platform,
-          limit: 0,
-          message: 'video_id가 필요합니다.',
-        },
+        history: [],
+        anomalies: [],
+        meta: { video_id: video_id || null, ...queryMeta, limit: 0, message, ...extra },
       },
-      { status: 400 }
+      { status }
     )
+
+  if (!video_id) {
+    return errorResponse(400, 'video_id가 필요합니다.')
   }
 
-  try {
-    const db = getPool()
+  if (parsed.error !== undefined) {
+    return errorResponse(400, parsed.error)
+  }
 
-    // public.video 테이블에서 해당 비디오의 시계열 데이터 조회
-    // crawled_at 기준으로 하루 단위로 그룹핑하여 최신 조회수 가져오기
-    const query = `
-      SELECT 
-        DATE(crawled_at) as snapshot_date,
-        MAX(view_count) as view_count,
-        MAX(like_count) as like_count,
-        MAX(comment_count) as comment_count
-      FROM public.video
-      WHERE video_id = $1
-        AND platform = $2
-        AND crawled_at IS NOT NULL
-      GROUP BY DATE(crawled_at)
-      ORDER BY snapshot_date ASC
-      LIMIT $3
-    `
+  // Mock 모드나 fixture 플랫폼(instagram, tiktok): DB 없이 fixture 추이를 반환
+  const provider = getPlatformProvider(platform)
+  if (isMockApiEnabled() || provider.source === 'fixture') {
+    const buckets = selectViewHistoryBuckets({ ...parsed.query, limit: getViewHistoryFetchLimit(parsed.query) })
+    const history = deriveViewHistoryMetrics(getMockBucketedViewHistory(video_id, buckets, provider.id), limit)
+    return NextResponse.json({
+      history,
+      anomalies: detectViewHistoryAnomalies(history),
+      meta: { video_id, ...queryMeta, limit: history.length },
+    })
+  }
 
-    const result = await db.query(query, [video_id, platform, limit])
+  try {
+    // crawled_at을 tz 기준 구간(date_trunc)으로 묶은 구간별 최대(최신) 누적값 (오래된 순)
+    // latest이면 최근 구간부터 limit개(+ 첫 구간 증가량 계산용 1개)를 가져옵니다.
+    const rows = await queryVideoHistory(
+      video_id,
+      platform,
+      { granularity, timeZone, from, to },
+      { limit: getViewHistoryFetchLimit(parsed.query), latest }
+    )
 
-    if (result.rows.length === 0) {
+    if (rows.length === 0) {
       console.log(`No view history found for video_id: ${video_id}`)
       return NextResponse.json({
         history: [],
-        meta: {
-          video_id,
-          platform,
-          limit: 0,
-          requested_limit: limit,
-          message: '조회수 이력이 없습니다.',
-        },
+        anomalies: [],
+        meta: { video_id, ...queryMeta, limit: 0, message: '조회수 이력이 없습니다.' },
       })
     }
 
-    // 날짜 순서대로 정렬 (오래된 것 -> 최신)
-    const sortedByDate = result.rows.sort((a, b) => {
-      const dateA = new Date(a.snapshot_date).getTime()
-      const dateB = new Date(b.snapshot_date).getTime()
-      return dateA - dateB
-    })
-
-    // 필요한 필드만 추출
-    const history = sortedByDate.map((row) => ({
-      snapshot_date: row.snapshot_date,
-      view_count: Number(row.view_count) || 0,
-      like_count: Number(row.like_count) || 0,
-      comment_count: Number(row.comment_count) || 0,
+    // 증가량 등 파생 지표 계산 (비교 기준으로만 가져온 구간은 제외)
+    const buckets = rows.map(({ bucket_start, ...counts }) => ({
+      snapshot_date: formatViewHistoryBucket(bucket_start, granularity, timeZone),
+      bucket_start: bucket_start.toISOString(),
+      ...counts,
     }))
+    const history = deriveViewHistoryMetrics(buckets, limit)
 
-    console.log(`View history loaded for ${video_id}: ${history.length} days`)
+    console.log(`View history loaded for ${video_id}: ${history.length} ${granularity} buckets`)
 
     return NextResponse.json({
       history,
-      meta: {
-        video_id,
-        platform,
-        limit: history.length,
-        requested_limit: limit,
-      },
+      anomalies: detectViewHistoryAnomalies(history),
+      meta: { video_id, ...queryMeta, limit: history.length },
     })
   } catch (error) {
     console.error('Failed to fetch video view history from database:', error)
 
-    return NextResponse.json(
-      {
-        history: [],
-        meta: {
-          video_id,
-          platform,
-          limit: 0,
-          message: '비디오 조회수 추이 데이터를 가져오는 중 오류가 발생했습니다.',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        },
-      },
-      { status: 500 }
-    )
+    return errorResponse(500, '비디오 조회수 추이 데이터를 가져오는 중 오류가 발생했습니다.', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
   }
 }
-
@@ -0,0 +1,12 @@
+import { withRateLimit } from '@/app/lib/rate-limit'
+import { createTrendExportHandler } from '@/app/lib/trends/handler'
+
+// 트렌드 영상 목록 내보내기 (format=csv|json|xlsx)
+// /api/trends/videos 와 같은 조회 조건으로 필터/정렬된 랭킹 전체를 파일로 내려줍니다.
+export const GET = withRateLimit(
+  'trends',
+  createTrendExportHandler({
+    backendPath: '/trends/videos',
+    logLabel: 'trends/videos/export',
+  })
+)
@@ -0,0 +1,12 @@
+import { withRateLimit } from '@/app/lib/rate-limit'
+import { createTrendExportHandler } from '@/app/lib/trends/handler'
+
+// 급등 영상 랭킹 내보내기 (format=csv|json|xlsx, surge_score 기준 고정)
+export const GET = withRateLimit(
+  'trends',
+  createTrendExportHandler({
+    backendPath: '/trends/videos/surge',
+    fixedSort: 'surge_score',
+    logLabel: 'trends/videos/surge/export',
+  })
+)
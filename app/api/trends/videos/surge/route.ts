@@ -1,3 +1,15 @@
-export { GET } from '../route'
-
+import { withRateLimit } from '@/app/lib/rate-limit'
+import { createTrendListHandler } from '@/app/lib/trends/handler'
+import { toSurgeTrendVideo } from '@/app/lib/trends/items'
 
+// 급등 영상 랭킹 (surge_score 기준 고정)
+// 각 항목에 점수 구성 요소(surge_components), 기간 내 변화량(window_deltas), 주요 급등 요인(primary_factor)을 포함합니다.
+export const GET = withRateLimit(
+  'trends',
+  createTrendListHandler({
+    backendPath: '/trends/videos/surge',
+    fixedSort: 'surge_score',
+    toItem: toSurgeTrendVideo,
+    logLabel: 'trends/videos/surge',
+  })
+)
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isMockApiEnabled } from '@/app/lib/api/mock'
+import { getMockViewHistorySnapshotRows } from '@/app/lib/api/mock/fixtures'
+import { queryVideosHistory, queryVideosSincePublish } from '@/app/lib/db'
+import { getPlatformProvider } from '@/app/lib/platforms'
+import { withRateLimit } from '@/app/lib/rate-limit'
+import {
+  alignViewHistorySeries,
+  buildViewHistoryAxis,
+  parseViewHistoryBatchQuery,
+  VIEW_HISTORY_STEP_HOURS,
+  ViewHistorySnapshotRow,
+} from '@/app/lib/trends/view-history-batch'
+import { VIEW_HISTORY_MOVING_AVERAGE_WINDOW } from '@/app/lib/trends/view-metrics'
+
+// IP당 요청 제한 (app/lib/rate-limit/policies.ts 의 viewHistoryBatch)
+export const GET = withRateLimit('viewHistoryBatch', getViewHistoryBatch)
+
+async function getViewHistoryBatch(request: NextRequest) {
+  const parsed = parseViewHistoryBatchQuery(new URL(request.url).searchParams)
+  const { videoIds, align, platform, granularity, limit, from, to, latest, timeZone } = parsed.query
+
+  // 응답 meta 공통 부분 (요청한 조회 조건)
+  const queryMeta = {
+    platform,
+    align,
+    granularity,
+    time_zone: timeZone,
+    from: from?.toISOString() ?? null,
+    to: to?.toISOString() ?? null,
+    latest,
+    requested_limit: limit,
+    moving_average_window: VIEW_HISTORY_MOVING_AVERAGE_WINDOW,
+  }
+
+  if (parsed.error !== undefined) {
+    return NextResponse.json(
+      {
+        buckets: [],
+        series: [],
+        meta: { ...queryMeta, limit: 0, missing_video_ids: [], message: parsed.error },
+      },
+      { status: 400 }
+    )
+  }
+
+  const axis = buildViewHistoryAxis(parsed.query)
+  const respond = (rows: ViewHistorySnapshotRow[]) => {
+    const { buckets, series, missingVideoIds } = alignViewHistorySeries(parsed.query, axis, rows)
+    return NextResponse.json({
+      buckets,
+      series,
+      meta: { ...queryMeta, limit: buckets.length, missing_video_ids: missingVideoIds },
+    })
+  }
+
+  // Mock 모드나 fixture 플랫폼(instagram, tiktok): DB 없이 fixture 추이를 반환
+  const provider = getPlatformProvider(platform)
+  if (isMockApiEnabled() || provider.source === 'fixture') {
+    return respond(getMockViewHistorySnapshotRows(videoIds, axis, align, provider.id))
+  }
+
+  try {
+    // 모든 영상을 한 번에 조회하고, 구간별 최대(최신) 누적값을 공통 축에 맞춥니다.
+    const step = VIEW_HISTORY_STEP_HOURS[granularity]
+    const rows: ViewHistorySnapshotRow[] =
+      align === 'publish'
+        ? (await queryVideosSincePublish(videoIds, platform, step, limit * step)).map(
+            ({ hours_since_publish, ...row }) => ({ ...row, key: hours_since_publish })
+          )
+        : (
+            await queryVideosHistory(videoIds, platform, {
+              granularity,
+              timeZone,
+              from: axis[0] ? new Date(axis[0].key) : from,
+              to,
+            })
+          ).map(({ bucket_start, ...row }) => ({ ...row, key: bucket_start.getTime() }))
+
+    console.log(`View history batch loaded: ${videoIds.length} videos, ${rows.length} ${align} ${granularity} buckets`)
+
+    return respond(rows)
+  } catch (error) {
+    console.error('Failed to fetch batch view history from database:', error)
+
+    return NextResponse.json(
+      {
+        buckets: [],
+        series: [],
+        meta: {
+          ...queryMeta,
+          limit: 0,
+          missing_video_ids: [],
+          message: '비디오 조회수 추이 데이터를 가져오는 중 오류가 발생했습니다.',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -4,26 +4,11 @@ import { useState } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { Icon } from '@iconify/react/dist/iconify.js'
-
-interface ChannelVideo {
-    id: string
-    title: string
-    thumbnailUrl: string
-    viewCount: number
-    trendAvgViewCount: number
-    publishedAt: string
-    performance: 'above' | 'average' | 'below'
-}
-
-interface ChannelData {
-    channelId: string
-    channelName: string
-    channelThumbnail: string
-    subscriberCount: number
-    totalVideos: number
-    recentVideos: ChannelVideo[]
-    overallPerformance: number // 트렌드 대비 성과 (%)
-}
+import { analyzeChannel } from '@/app/lib/api/channels'
+import { ChannelData } from '@/app/lib/api/types'
+import { parseYouTubeChannel } from '@/app/lib/youtube/url'
+import { ApiErrorNotice } from '@/app/components/Common/ApiErrorNotice'
+import { ChannelMomentumChart } from '@/app/components/Common/ChannelMomentumChart'
 
 // 더미 데이터
 
@@ -58,44 +43,28 @@ export default function ChannelAnalysisClient() {
     const [channelData, setChannelData] = useState<ChannelData | null>(null)
     const [loading, setLoading] = useState(false)
     const [analyzed, setAnalyzed] = useState(false)
-    const [error, setError] = useState<string | null>(null)
+    const [error, setError] = useState<unknown>(null)
 
     const handleAnalyze = async () => {
         if (!channelUrl.trim()) return
 
+        const parsed = parseYouTubeChannel(channelUrl)
+        if (!parsed.ok) {
+            setError(new Error(parsed.message))
+            setAnalyzed(false)
+            return
+        }
+
         setLoading(true)
         setError(null)
         setChannelData(null)
-        // TODO: 백엔드 API 연동
         try {
-            const apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL
-            if (!apiBaseUrl) {
-                throw new Error('NEXT_PUBLIC_API_BASE_URL 환경 변수가 설정되어 있지 않습니다.')
-            }
-
-            const response = await fetch(`${apiBaseUrl}/analysis/channel`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    platform: 'youtube',
-                    channel_url: channelUrl.trim(),
-                }),
-            })
-
-            if (!response.ok) {
-                const payload = await response.json().catch(() => null)
-                const detail = typeof payload?.detail === 'string' ? payload.detail : `요청에 실패했습니다. (status: ${response.status})`
-                throw new Error(detail)
-            }
-
-            const data: ChannelData = await response.json()
+            // 어떤 형식으로 입력해도 정규화된 채널 URL을 전달합니다.
+            const data = await analyzeChannel(parsed.canonicalUrl)
             setChannelData(data)
             setAnalyzed(true)
         } catch (err) {
-            const message = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.'
-            setError(message)
+            setError(err)
             setAnalyzed(false)
         } finally {
             setLoading(false)
@@ -122,7 +91,7 @@ export default function ChannelAnalysisClient() {
                                 type='text'
                                 value={channelUrl}
                                 onChange={(e) => setChannelUrl(e.target.value)}
-                                placeholder='https://youtube.com/@mychannel 또는 UCxxxxxx'
+                                placeholder='https://youtube.com/@mychannel, @mychannel 또는 UCxxxxxx'
                                 className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all'
                             />
                         </div>
@@ -146,11 +115,7 @@ export default function ChannelAnalysisClient() {
                             </button>
                         </div>
                     </div>
-                    {error && (
-                        <div className='mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-600'>
-                            {error}
-                        </div>
-                    )}
+                    <ApiErrorNotice error={error} className='mt-4' />
                 </div>
 
                 {/* Results */}
@@ -172,12 +137,14 @@ export default function ChannelAnalysisClient() {
                                 </div>
                             </div>
 
+                            {/* Channel Momentum: 일별 조회수 증가량, 급등 영상, 참여율 추이 */}
+                            <div className='bg-gradient-to-br from-primary/10 to-primary/5 rounded-xl p-4 mb-4'>
+                                <h3 className='text-sm font-semibold text-gray-700 mb-3'>채널 모멘텀 (최근 30일)</h3>
+                                <ChannelMomentumChart channelId={channelData.channelId} days={30} />
+                            </div>
+
                             {/* Performance Summary */}
-                            <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
-                                <div className='bg-gradient-to-br from-primary/10 to-primary/5 rounded-xl p-4 text-center'>
-                                    <div className='text-4xl font-bold text-primary mb-1'>{channelData.overallPerformance}%</div>
-                                    <div className='text-sm text-gray-600'>트렌드 대비 종합 성과</div>
-                                </div>
+                            <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
                                 <div className='bg-green-50 rounded-xl p-4 text-center'>
                                     <div className='text-4xl font-bold text-green-600 mb-1'>
                                         {channelData.recentVideos.filter(v => v.performance === 'above').length}
@@ -4,68 +4,14 @@ import { useState } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { Icon } from '@iconify/react/dist/iconify.js'
-
-interface VideoCore {
-    id: string
-    title: string
-    channel_name: string
-    thumbnail_url: string
-    duration_sec: number
-    format_label: string
-    published_ago: string
-}
-
-interface HookProfile {
-    opening_line: string
-    visual_cue: string
-    caption_style: string
-    pacing: string
-    hook_score: number
-}
-
-interface FormatProfile {
-    duration_sec: number
-    aspect_ratio: string
-    cut_count: number
-    text_density: string
-    audio_style: string
-}
-
-interface ReactionMetrics {
-    views: number
-    likes: number
-    comments: number
-    like_rate: number
-    completion_rate: number
-    retention_3s: number
-    share_rate: number
-}
-
-interface CompareAnalysis {
-    my_video: VideoCore
-    trend_video: VideoCore
-    hook_comparison: {
-        my: HookProfile
-        trend: HookProfile
-        takeaways: string[]
-    }
-    format_comparison: {
-        my: FormatProfile
-        trend: FormatProfile
-        differences: string[]
-    }
-    reaction_comparison: {
-        my: ReactionMetrics
-        trend: ReactionMetrics
-        insights: string[]
-    }
-    ai_summary: {
-        headline: string
-        action_items: string[]
-        next_experiment: string
-    }
-    trust_signals: string[]
-}
+import { apiRequest } from '@/app/lib/api/client'
+import { DEFAULT_PLATFORM, getPlatformApiBaseUrl, PLATFORM_PROVIDERS, PlatformId } from '@/app/lib/platforms'
+import { compareAnalysisDecoder } from '@/app/lib/api/decoders'
+import { CompareAnalysis } from '@/app/lib/api/types'
+import { ApiErrorNotice } from '@/app/components/Common/ApiErrorNotice'
+import { IngestionSteps } from '@/app/components/Common/IngestionSteps'
+import { useIngestionJob } from '@/app/hooks/useIngestionJob'
+import PlatformTabs from '@/app/components/Home/TrendingVideos/PlatformTabs'
 
 // 화면 표기 일관성을 위해 숫자/퍼센트/길이 포맷을 분리했습니다.
 function formatCompactNumber(value: number): string {
@@ -115,55 +61,83 @@ function ComparisonRow({ label, valueA, valueB, winner }: ComparisonRowProps) {
 }
 
 export default function VideoCompareClient() {
+    const [platform, setPlatform] = useState<PlatformId>(DEFAULT_PLATFORM)
     const [myUrl, setMyUrl] = useState('')
     const [trendUrl, setTrendUrl] = useState('')
     const [analysis, setAnalysis] = useState<CompareAnalysis | null>(null)
     const [loading, setLoading] = useState(false)
-    const [error, setError] = useState<string | null>(null)
+    const [error, setError] = useState<unknown>(null)
+    const myJob = useIngestionJob()
+    const trendJob = useIngestionJob()
 
+    const provider = PLATFORM_PROVIDERS[platform]
     const canAnalyze = myUrl.trim().length > 0 && trendUrl.trim().length > 0
 
+    // 플랫폼을 바꾸면 이전 플랫폼 기준 입력과 결과는 비교 대상이 아니므로 초기화합니다.
+    const handlePlatformChange = (next: PlatformId) => {
+        if (next === platform) return
+        myJob.cancel()
+        trendJob.cancel()
+        setPlatform(next)
+        setMyUrl('')
+        setTrendUrl('')
+        setAnalysis(null)
+        setError(null)
+    }
+
     // 백엔드 분석 결과를 기준으로 화면을 갱신하기 위해 비동기 호출을 사용합니다.
     const handleAnalyze = async () => {
         if (!canAnalyze || loading) return
-        setLoading(true)
         setError(null)
         setAnalysis(null)
 
+        const myVideo = provider.parseVideoInput(myUrl)
+        const trendVideo = provider.parseVideoInput(trendUrl)
+        if (!myVideo.ok) {
+            setError(new Error(`내 쇼츠: ${myVideo.message}`))
+            return
+        }
+        if (!trendVideo.ok) {
+            setError(new Error(`급등 쇼츠: ${trendVideo.message}`))
+            return
+        }
+
+        setLoading(true)
         try {
-            const apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL
-            if (!apiBaseUrl) {
-                throw new Error('NEXT_PUBLIC_API_BASE_URL 환경 변수가 설정되어 있지 않습니다.')
-            }
+            // 두 영상의 수집/분석이 끝난 뒤 비교 분석을 요청합니다.
+            const ingested = await Promise.all([
+                myJob.run(myVideo.videoId, platform),
+                trendJob.run(trendVideo.videoId, platform),
+            ])
+            if (ingested.some((result) => result === null)) return
 
-            const response = await fetch(`${apiBaseUrl}/analysis/shorts/compare`, {
+            const data = await apiRequest('/analysis/shorts/compare', {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
+                baseUrl: getPlatformApiBaseUrl(platform),
+                body: {
+                    platform,
+                    my_short_url: myVideo.canonicalUrl,
+                    trend_short_url: trendVideo.canonicalUrl,
                 },
-                body: JSON.stringify({
-                    platform: 'youtube',
-                    my_short_url: myUrl.trim(),
-                    trend_short_url: trendUrl.trim(),
-                }),
+                // AI 비교 분석은 응답이 오래 걸리므로 타임아웃을 넉넉히 둡니다.
+                timeoutMs: 60_000,
+                decoder: compareAnalysisDecoder,
             })
-
-            if (!response.ok) {
-                const payload = await response.json().catch(() => null)
-                const detail = typeof payload?.detail === 'string' ? payload.detail : `요청에 실패했습니다. (status: ${response.status})`
-                throw new Error(detail)
-            }
-
-            const data: CompareAnalysis = await response.json()
             setAnalysis(data)
         } catch (err) {
-            const message = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.'
-            setError(message)
+            myJob.cancel()
+            trendJob.cancel()
+            setError(err)
         } finally {
             setLoading(false)
         }
     }
 
+    const handleCancel = () => {
+        myJob.cancel()
+        trendJob.cancel()
+    }
+
     return (
         <div className='min-h-screen bg-gray-50 py-8'>
             <div className='container mx-auto max-w-6xl px-4'>
@@ -176,6 +150,7 @@ export default function VideoCompareClient() {
                 </div>
 
                 <div className='bg-white rounded-2xl shadow-sm p-6 mb-10'>
+                    <PlatformTabs selectedPlatform={platform} onPlatformChange={handlePlatformChange} disabled={loading} />
                     <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
                         <div>
                             <label className='block text-sm font-medium text-gray-700 mb-2'>내 쇼츠 URL</label>
@@ -183,7 +158,7 @@ export default function VideoCompareClient() {
                                 type='text'
                                 value={myUrl}
                                 onChange={(e) => setMyUrl(e.target.value)}
-                                placeholder='YouTube Shorts URL 또는 video_id'
+                                placeholder={provider.inputPlaceholder}
                                 className='w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent outline-none'
                             />
                         </div>
@@ -193,7 +168,7 @@ export default function VideoCompareClient() {
                                 type='text'
                                 value={trendUrl}
                                 onChange={(e) => setTrendUrl(e.target.value)}
-                                placeholder='YouTube Shorts URL 또는 video_id'
+                                placeholder={provider.inputPlaceholder}
                                 className='w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent outline-none'
                             />
                         </div>
@@ -208,11 +183,22 @@ export default function VideoCompareClient() {
                             {loading ? '분석 중...' : '비교 분석 실행'}
                         </button>
                     </div>
-                    {error && (
-                        <div className='mt-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-600'>
-                            {error}
+                    {(myJob.isRunning || trendJob.isRunning) && (
+                        <div className='mt-4 rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 space-y-2'>
+                            <div className='flex items-center gap-3'>
+                                <span className='w-16 shrink-0 text-sm font-medium text-gray-700'>내 쇼츠</span>
+                                <IngestionSteps progress={myJob.progress} />
+                            </div>
+                            <div className='flex items-center gap-3'>
+                                <span className='w-16 shrink-0 text-sm font-medium text-gray-700'>급등 쇼츠</span>
+                                <IngestionSteps progress={trendJob.progress} />
+                            </div>
+                            <button onClick={handleCancel} className='text-xs text-gray-500 underline hover:text-gray-700'>
+                                분석 취소
+                            </button>
                         </div>
                     )}
+                    <ApiErrorNotice error={error} className='mt-4' />
                 </div>
 
                 {analysis && (
@@ -3,7 +3,7 @@ import VideoCompareClient from './VideoCompareClient'
 
 export const metadata: Metadata = {
     title: '영상 비교 - Trendix',
-    description: '두 YouTube 영상의 성과를 비교 분석합니다.',
+    description: '두 숏폼 영상(YouTube, Instagram, TikTok)의 성과를 비교 분석합니다.',
 }
 
 export default function ComparePage() {
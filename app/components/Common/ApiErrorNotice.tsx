@@ -0,0 +1,65 @@
+'use client';
+import { Icon } from '@iconify/react/dist/iconify.js';
+import { getInvalidFields } from '@/app/lib/api/decoders';
+import { APIError } from '@/app/lib/api/types';
+
+/**
+ * catch 된 에러를 화면에 표시할 메시지로 변환합니다.
+ * @param error - catch 된 에러
+ * @param fallback - 메시지를 알 수 없을 때 사용할 문구
+ */
+export const getErrorMessage = (error: unknown, fallback = '알 수 없는 오류가 발생했습니다.') =>
+    error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * 응답 구조가 바뀌어 데이터를 표시할 수 없는 경우인지 확인합니다.
+ * @param error - catch 된 에러
+ */
+export const isInvalidResponseError = (error: unknown) =>
+    error instanceof APIError && error.code === 'INVALID_RESPONSE';
+
+interface ApiErrorNoticeProps {
+    error: unknown;
+    fallback?: string;
+    className?: string;
+}
+
+// API 에러 안내 박스
+// INVALID_RESPONSE(데이터 형식 변경)는 일반 오류와 구분해 실패한 필드 목록과 함께 표시합니다.
+export const ApiErrorNotice = ({ error, fallback, className = '' }: ApiErrorNoticeProps) => {
+    if (!error) return null;
+
+    if (isInvalidResponseError(error)) {
+        const fields = getInvalidFields(error);
+        return (
+            <div className={`rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700 ${className}`}>
+                <div className='flex items-center gap-2 font-semibold'>
+                    <Icon icon='mdi:database-alert-outline' className='text-lg' />
+                    데이터 형식이 변경되었습니다
+                </div>
+                <p className='mt-1'>
+                    서버 응답이 예상한 형식과 달라 정보를 표시할 수 없습니다. 잠시 후 다시 시도하거나 관리자에게 문의해주세요.
+                </p>
+                {fields.length > 0 && (
+                    <details className='mt-2 text-xs'>
+                        <summary className='cursor-pointer'>문제가 된 필드 {fields.length}개</summary>
+                        <ul className='mt-1 list-disc pl-5 font-mono break-all'>
+                            {fields.slice(0, 10).map((field) => (
+                                <li key={field}>{field}</li>
+                            ))}
+                            {fields.length > 10 && <li>외 {fields.length - 10}개</li>}
+                        </ul>
+                    </details>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className={`rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-600 ${className}`}>
+            {getErrorMessage(error, fallback)}
+        </div>
+    );
+};
+
+export default ApiErrorNotice;
@@ -0,0 +1,116 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { Icon } from '@iconify/react/dist/iconify.js';
+import { isAbortError } from '@/app/lib/api/client';
+import { fetchChannelHistory } from '@/app/lib/api/channels';
+import { ChannelHistoryItem } from '@/app/lib/api/types';
+import { ApiErrorNotice } from '@/app/components/Common/ApiErrorNotice';
+
+interface ChannelMomentumChartProps {
+    channelId: string;
+    // 표시할 일수 (기본 30일)
+    days?: number;
+    // 위젯처럼 좁은 곳에서는 요약 수치를 줄이고 막대 높이를 낮춥니다.
+    compact?: boolean;
+    className?: string;
+}
+
+function formatNumber(num: number): string {
+    if (num >= 1_000_000) return (num / 1_000_000).toFixed(1) + 'M';
+    if (num >= 1_000) return (num / 1_000).toFixed(1) + 'K';
+    return String(num);
+}
+
+// 채널 모멘텀 차트
+// 일별 조회수 증가량을 막대로 그리고, 급등 영상이 있던 날은 주황색으로 강조합니다.
+export const ChannelMomentumChart = ({ channelId, days = 30, compact = false, className = '' }: ChannelMomentumChartProps) => {
+    const [history, setHistory] = useState<ChannelHistoryItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<unknown>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        setError(null);
+
+        fetchChannelHistory(channelId, { limit: days }, controller.signal)
+            .then((data) => setHistory(data.history))
+            .catch((err) => {
+                if (isAbortError(err)) return;
+                setHistory([]);
+                setError(err);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setLoading(false);
+            });
+
+        return () => controller.abort();
+    }, [channelId, days]);
+
+    if (loading) {
+        return (
+            <div className={`flex items-center justify-center ${compact ? 'h-24' : 'h-40'} ${className}`}>
+                <Icon icon='mdi:loading' className='text-2xl text-gray-400 animate-spin' />
+            </div>
+        );
+    }
+
+    if (error) return <ApiErrorNotice error={error} className={className} />;
+
+    if (!history.some((item) => item.videos_crawled > 0)) {
+        return (
+            <div className={`flex items-center justify-center ${compact ? 'h-24' : 'h-40'} text-sm text-gray-400 ${className}`}>
+                채널 추이 데이터 없음
+            </div>
+        );
+    }
+
+    const maxGain = Math.max(...history.map((item) => item.views_gained), 1);
+    const totalGain = history.reduce((sum, item) => sum + item.views_gained, 0);
+    const surgeDays = history.filter((item) => item.surge_videos > 0).length;
+    const latestEngagement = [...history].reverse().find((item) => item.median_engagement !== null)?.median_engagement ?? null;
+
+    return (
+        <div className={className}>
+            <div className={`grid grid-cols-3 gap-2 ${compact ? 'mb-2 text-xs' : 'mb-4 text-sm'}`}>
+                <div>
+                    <div className='text-gray-500'>{days}일 조회수 증가</div>
+                    <div className={`font-bold text-primary ${compact ? 'text-base' : 'text-2xl'}`}>+{formatNumber(totalGain)}</div>
+                </div>
+                <div>
+                    <div className='text-gray-500'>급등 영상이 나온 날</div>
+                    <div className={`font-bold text-orange-500 ${compact ? 'text-base' : 'text-2xl'}`}>{surgeDays}일</div>
+                </div>
+                <div>
+                    <div className='text-gray-500'>참여율 중앙값</div>
+                    <div className={`font-bold text-gray-800 ${compact ? 'text-base' : 'text-2xl'}`}>
+                        {latestEngagement === null ? '-' : `${(latestEngagement * 100).toFixed(1)}%`}
+                    </div>
+                </div>
+            </div>
+
+            <div className={`flex items-end gap-0.5 ${compact ? 'h-20' : 'h-36'}`}>
+                {history.map((item) => (
+                    <div
+                        key={item.bucket_start}
+                        className={`flex-1 rounded-t-sm ${item.surge_videos > 0 ? 'bg-orange-400' : 'bg-primary/70'}`}
+                        style={{ height: `${(item.views_gained / maxGain) * 100}%`, minHeight: item.views_gained > 0 ? '2px' : '0px' }}
+                        title={[
+                            item.snapshot_date,
+                            `조회수 +${formatNumber(item.views_gained)}`,
+                            `수집 영상 ${item.videos_crawled}개`,
+                            `급등 영상 ${item.surge_videos}개`,
+                            item.median_engagement === null ? null : `참여율 중앙값 ${(item.median_engagement * 100).toFixed(1)}%`,
+                        ]
+                            .filter(Boolean)
+                            .join('\n')}
+                    />
+                ))}
+            </div>
+            <div className='flex justify-between mt-1 text-[10px] text-gray-400'>
+                <span>{history[0].snapshot_date}</span>
+                <span>{history[history.length - 1].snapshot_date}</span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,85 @@
+'use client';
+import { Icon } from '@iconify/react/dist/iconify.js';
+import { INGESTION_STATUS_LABELS, IngestionProgress, IngestionStatus } from '@/app/lib/api/ingestion';
+
+const STEPS: IngestionStatus[] = ['queued', 'crawling', 'analyzing', 'done'];
+
+const STEP_ICONS: Record<IngestionStatus, string> = {
+    queued: 'mdi:clock-outline',
+    crawling: 'mdi:cloud-download-outline',
+    analyzing: 'mdi:chart-box-outline',
+    done: 'mdi:check-circle',
+    failed: 'mdi:alert-circle',
+};
+
+interface IngestionStepsProps {
+    progress: IngestionProgress | null;
+    // 위젯처럼 좁은 영역에서는 현재 단계만 한 줄로 표시
+    compact?: boolean;
+    onCancel?: () => void;
+}
+
+// 영상 수집 작업 진행 상태 표시 (queued → crawling → analyzing → done / failed)
+export const IngestionSteps = ({ progress, compact = false, onCancel }: IngestionStepsProps) => {
+    if (!progress) return null;
+
+    const { status, attempt, elapsedMs } = progress;
+    const isFinished = status === 'done' || status === 'failed';
+    const currentIndex = status === 'failed' ? -1 : STEPS.indexOf(status);
+    const elapsedSec = Math.floor(elapsedMs / 1000);
+    const detail = status === 'analyzing' && attempt > 0 ? `결과 확인 ${attempt}회 · ${elapsedSec}초` : `${elapsedSec}초`;
+
+    const cancelButton = onCancel && !isFinished && (
+        <button onClick={onCancel} className='text-xs text-gray-500 underline hover:text-gray-700'>
+            취소
+        </button>
+    );
+
+    if (compact) {
+        return (
+            <div className={`mt-1 flex items-center gap-1.5 text-xs ${status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                <Icon
+                    icon={isFinished ? STEP_ICONS[status] : 'mdi:loading'}
+                    className={isFinished ? '' : 'animate-spin'}
+                />
+                <span>{INGESTION_STATUS_LABELS[status]}</span>
+                {!isFinished && <span className='text-gray-400'>({detail})</span>}
+                {cancelButton}
+            </div>
+        );
+    }
+
+    return (
+        <div className='flex items-center gap-3 flex-wrap'>
+            {STEPS.map((step, index) => {
+                const isCurrent = index === currentIndex && !isFinished;
+                const isComplete = index < currentIndex || status === 'done';
+                return (
+                    <div
+                        key={step}
+                        className={`flex items-center gap-1 text-sm ${
+                            isComplete ? 'text-green-600' : isCurrent ? 'text-primary font-semibold' : 'text-gray-400'
+                        }`}
+                    >
+                        <Icon
+                            icon={isCurrent ? 'mdi:loading' : STEP_ICONS[step]}
+                            className={isCurrent ? 'animate-spin' : ''}
+                        />
+                        {INGESTION_STATUS_LABELS[step]}
+                        {index < STEPS.length - 1 && <Icon icon='mdi:chevron-right' className='text-gray-300' />}
+                    </div>
+                );
+            })}
+            {status === 'failed' && (
+                <span className='flex items-center gap-1 text-sm text-red-600 font-semibold'>
+                    <Icon icon={STEP_ICONS.failed} />
+                    {INGESTION_STATUS_LABELS.failed}
+                </span>
+            )}
+            {!isFinished && <span className='text-xs text-gray-400'>{detail}</span>}
+            {cancelButton}
+        </div>
+    );
+};
+
+export default IngestionSteps;
@@ -5,6 +5,7 @@ import { VideoCard } from "./VideoCard";
 import { Interest } from "@/types/userInfo";
 import { categoryList } from "@/app/actions/categoryList";
 import { useInterestList } from "@/context/InterestContext";
+import { useTrendRegion } from "@/contexts/TrendRegionContext";
 import Link from "next/link";
 
 
@@ -24,12 +25,13 @@ export const Recommendation = ({ userCategory, userInterests }: { userCategory?:
     const [isLoading, setIsLoading] = useState(false);
 
     const { interestList } = useInterestList();
+    const { region } = useTrendRegion();
 
     useEffect(() => {
         if (userCategory) {
             // Fetch for specific category
             setIsLoading(true);
-            categoryList(userCategory.interest, 20).then((videos) => {
+            categoryList(userCategory.interest, 20, region).then((videos) => {
                 setVideos(videos.items);
                 setIsLoading(false);
             }).catch(() => {
@@ -39,7 +41,7 @@ export const Recommendation = ({ userCategory, userInterests }: { userCategory?:
             // Fetch from all user interests and flatten like in page.tsx
             setIsLoading(true);
             Promise.all(
-                userInterests.map((interest) => categoryList(interest.interest, 4))
+                userInterests.map((interest) => categoryList(interest.interest, 4, region))
             ).then((allCategoryVideos) => {
                 const flattenedList: Video[] = [];
                 const maxLength = Math.max(...allCategoryVideos.map(cv => cv.items.length));
@@ -58,7 +60,7 @@ export const Recommendation = ({ userCategory, userInterests }: { userCategory?:
                 setIsLoading(false);
             });
         }
-    }, [userCategory, userInterests]);
+    }, [userCategory, userInterests, region]);
 
     const loadMoreRecommendations = () => {
         setRecommendationLimit((prev) => Math.min(prev + 8, videos.length));
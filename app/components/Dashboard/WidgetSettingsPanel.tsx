@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { Icon } from '@iconify/react';
+import { getSelectConfigOptions, normalizeWidgetConfig } from '@/app/lib/dashboard/widget-config';
+import type { WidgetConfigField } from '@/app/lib/dashboard/widget-config';
+import type { DashboardWidget } from '@/app/lib/api/dashboard';
+import type { WidgetDefinition } from './widget';
+
+interface WidgetSettingsPanelProps {
+    widget: DashboardWidget;
+    definition: WidgetDefinition;
+    onApply: (config: Record<string, unknown>) => void;
+    onClose: () => void;
+}
+
+const inputClassName = 'w-full rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary/30';
+
+/**
+ * 위젯 인스턴스 설정 패널
+ * 위젯 정의의 설정 스키마로 입력 항목을 만들고, 적용하면 정규화된 설정을 돌려줍니다.
+ */
+const WidgetSettingsPanel = ({ widget, definition, onApply, onClose }: WidgetSettingsPanelProps) => {
+    // 입력 중인 값 (숫자는 입력 도중 범위를 벗어날 수 있으므로 적용할 때 정규화합니다)
+    const [draft, setDraft] = useState<Record<string, unknown>>(() => normalizeWidgetConfig(definition.configSchema, widget.config));
+    // select 선택지와 표시 값은 정규화된 값을 씁니다. (플랫폼을 바꾸면 없는 카테고리는 기본값으로)
+    const normalized = normalizeWidgetConfig(definition.configSchema, draft);
+
+    const setValue = (key: string, value: unknown) => setDraft(prev => ({ ...prev, [key]: value }));
+
+    // 입력 중인 text 값의 검증 오류 (오류가 있으면 적용할 수 없습니다)
+    const errors: Record<string, string> = {};
+    for (const [key, field] of Object.entries(definition.configSchema)) {
+        if (field.type !== 'text' || !field.validate) continue;
+        const message = field.validate(typeof draft[key] === 'string' ? String(draft[key]).trim() : '');
+        if (message) errors[key] = message;
+    }
+    const hasErrors = Object.keys(errors).length > 0;
+
+    const renderField = (key: string, field: WidgetConfigField) => {
+        switch (field.type) {
+            case 'select':
+                return (
+                    <select value={String(normalized[key])} onChange={(e) => setValue(key, e.target.value)} className={inputClassName}>
+                        {getSelectConfigOptions(field, normalized).map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                );
+            case 'number':
+                return (
+                    <input
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        step={field.step ?? 1}
+                        value={typeof draft[key] === 'number' ? String(draft[key]) : ''}
+                        onChange={(e) => setValue(key, e.target.value === '' ? undefined : e.target.valueAsNumber)}
+                        className={inputClassName}
+                    />
+                );
+            case 'boolean':
+                return (
+                    <input
+                        type="checkbox"
+                        checked={Boolean(normalized[key])}
+                        onChange={(e) => setValue(key, e.target.checked)}
+                        className="h-4 w-4 accent-primary"
+                    />
+                );
+            case 'text':
+                return (
+                    <input
+                        type="text"
+                        maxLength={field.maxLength}
+                        placeholder={field.placeholder}
+                        value={typeof draft[key] === 'string' ? String(draft[key]) : ''}
+                        onChange={(e) => setValue(key, e.target.value)}
+                        className={inputClassName}
+                    />
+                );
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (hasErrors) return;
+        onApply(normalized);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onClick={onClose}>
+            <form
+                onSubmit={handleSubmit}
+                onClick={(e) => e.stopPropagation()}
+                className="bg-white rounded-lg p-6 w-full max-w-md max-h-[75vh] overflow-y-auto"
+            >
+                <h3 className="flex items-center gap-1.5 text-lg font-bold mb-4">
+                    <Icon icon={definition.icon} className="text-primary" />
+                    {widget.name} 설정
+                </h3>
+                <div className="space-y-3">
+                    {Object.entries(definition.configSchema).map(([key, field]) => (
+                        <label
+                            key={key}
+                            className={field.type === 'boolean' ? 'flex items-center justify-between gap-3 text-sm text-gray-700' : 'block space-y-1 text-sm text-gray-700'}
+                        >
+                            <span className="block font-medium">
+                                {field.label}
+                                {field.type === 'number' && <span className="ml-1 text-xs font-normal text-gray-400">{field.min}~{field.max}</span>}
+                            </span>
+                            {renderField(key, field)}
+                            {errors[key] && <span className="block text-xs text-red-600">{errors[key]}</span>}
+                        </label>
+                    ))}
+                </div>
+                <p className="mt-4 text-xs text-gray-500">적용한 설정은 대시보드를 저장할 때 함께 저장됩니다.</p>
+                <div className="mt-4 flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600">취소</button>
+                    <button
+                        type="submit"
+                        disabled={hasErrors}
+                        className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        적용
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default WidgetSettingsPanel;
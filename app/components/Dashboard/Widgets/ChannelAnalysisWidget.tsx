@@ -4,58 +4,44 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { Icon } from '@iconify/react';
 import { useEffect, useState } from 'react';
+import { ChannelData } from '@/app/lib/api/types';
+import { analyzeChannel } from '@/app/lib/api/channels';
+import { isAbortError } from '@/app/lib/api/client';
+import type { WidgetConfig } from '@/app/lib/dashboard/widget-config';
+import { parseYouTubeChannel } from '@/app/lib/youtube/url';
+import { ApiErrorNotice } from '@/app/components/Common/ApiErrorNotice';
+import { ChannelMomentumChart } from '@/app/components/Common/ChannelMomentumChart';
+import { defineWidget } from '@/app/components/Dashboard/widget';
 
-// --- 기존 ChannelAnalysisClient.tsx에서 가져온 더미 데이터 및 헬퍼 함수 ---
-interface ChannelVideo {
-    id: string
-    title: string
-    thumbnailUrl: string
-    viewCount: number
-    trendAvgViewCount: number
-    publishedAt: string
-    performance: 'above' | 'average' | 'below'
+// 모멘텀 차트는 수집 데이터의 channel_id(UC…)로 조회하므로 채널 ID가 드러나는 주소만 받습니다.
+// 채널 분석 요청에는 정규화된 채널 URL을 씁니다.
+function parseMomentumChannelId(input: string): { channelId: string | null; channelUrl: string | null; error: string | null } {
+    if (!input) return { channelId: null, channelUrl: null, error: null };
+    const parsed = parseYouTubeChannel(input);
+    if (!parsed.ok) return { channelId: null, channelUrl: null, error: parsed.message };
+    if (parsed.refType !== 'id') {
+        return { channelId: null, channelUrl: null, error: '채널 ID(UC…)가 들어간 주소를 입력해주세요. (@핸들, 맞춤 주소는 지원하지 않습니다)' };
+    }
+    return { channelId: parsed.value, channelUrl: parsed.canonicalUrl, error: null };
 }
 
-interface ChannelData {
-    channelId: string
-    channelName: string
-    channelThumbnail: string
-    subscriberCount: number
-    totalVideos: number
-    overallPerformance: number // 트렌드 대비 성과 (%)
-    recentVideos: ChannelVideo[]
-}
+const channelAnalysisConfigSchema = {
+    channel: {
+        type: 'text',
+        label: '채널 주소 또는 ID',
+        maxLength: 200,
+        placeholder: 'https://www.youtube.com/channel/UC…',
+        validate: (value: string) => parseMomentumChannelId(value).error,
+        default: '',
+    },
+    days: { type: 'number', label: '모멘텀 기간 (일)', min: 7, max: 30, default: 14 },
+} as const;
 
-// 더미 데이터 (위젯에 맞게 간소화)
-const getDummyChannelData = (): ChannelData => ({
-    channelId: 'UCxxxxxx',
-    channelName: 'Trendix 분석 채널',
-    channelThumbnail: 'https://picsum.photos/seed/trendixchannel/100/100',
-    subscriberCount: 125000,
-    totalVideos: 342,
-    overallPerformance: 78,
-    recentVideos: [
-        {
-            id: 'v1',
-            title: '최근 영상1 - 트렌드 상회',
-            thumbnailUrl: 'https://picsum.photos/seed/widgetv1/160/90',
-            viewCount: 45000,
-            trendAvgViewCount: 32000,
-            publishedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-            performance: 'above',
-        },
-        {
-            id: 'v2',
-            title: '최근 영상2 - 평균 수준',
-            thumbnailUrl: 'https://picsum.photos/seed/widgetv2/160/90',
-            viewCount: 28000,
-            trendAvgViewCount: 30000,
-            publishedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-            performance: 'average',
-        },
-    ],
-});
+interface ChannelAnalysisWidgetProps {
+    config: WidgetConfig<typeof channelAnalysisConfigSchema>;
+}
 
+// --- 기존 ChannelAnalysisClient.tsx에서 가져온 헬퍼 함수 ---
 function formatNumber(num: number): string {
     if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M'
     if (num >= 1000) return (num / 1000).toFixed(1) + 'K'
@@ -81,60 +67,94 @@ function getPerformanceLabel(performance: string) {
 }
 // --- 끝 ---
 
-const ChannelAnalysisWidget = () => {
+const ChannelAnalysisWidget = ({ config }: ChannelAnalysisWidgetProps) => {
     const [channelData, setChannelData] = useState<ChannelData | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+    const { channelId: momentumChannelId, channelUrl } = parseMomentumChannelId(config.channel);
 
+    // 위젯 설정의 채널 개요와 최근 영상 성과 (채널 분석 페이지와 같은 /analysis/channel)
     useEffect(() => {
-        // 위젯 로드 시 더미 데이터 즉시 로드
-        setChannelData(getDummyChannelData());
-    }, []);
+        if (!channelUrl) return;
+        const controller = new AbortController();
 
-    if (!channelData) {
-        return <div className="flex items-center justify-center w-full h-full text-gray-500">로딩 중...</div>;
-    }
+        async function loadChannel(url: string) {
+            try {
+                setLoading(true);
+                setError(null);
+                setChannelData(await analyzeChannel(url, controller.signal));
+            } catch (err) {
+                if (isAbortError(err)) return;
+                console.error('채널 분석 로딩 실패:', err);
+                setError(err);
+                setChannelData(null);
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        }
+
+        loadChannel(channelUrl);
+        return () => controller.abort();
+    }, [channelUrl]);
 
     return (
         <div className="w-full h-full flex flex-col p-4 overflow-y-auto">
             <h3 className="font-bold text-lg text-gray-800 mb-4">내 채널 분석 요약</h3>
-            
-            {/* 채널 개요 */}
-            <div className="flex items-center gap-3 mb-4">
-                <Image
-                    src={channelData.channelThumbnail}
-                    alt={channelData.channelName}
-                    width={40}
-                    height={40}
-                    className="rounded-full flex-shrink-0"
-                />
-                <div>
-                    <h4 className="font-medium text-gray-900 line-clamp-1">{channelData.channelName}</h4>
-                    <p className="text-sm text-gray-500">구독자 {formatNumber(channelData.subscriberCount)}명</p>
-                </div>
-            </div>
-
-            {/* 성과 요약 */}
-            <div className="bg-gradient-to-br from-primary/10 to-primary/5 rounded-lg p-3 text-center mb-4">
-                <div className="text-3xl font-bold text-primary">{channelData.overallPerformance}%</div>
-                <div className="text-xs text-gray-600">트렌드 대비 종합 성과</div>
-            </div>
-
-            {/* 최근 영상 분석 (상위 2개) */}
-            <div className="mb-4">
-                <h5 className="font-semibold text-gray-700 mb-2">최근 영상 성과</h5>
-                {channelData.recentVideos.slice(0, 2).map((video) => (
-                    <div key={video.id} className="flex items-center gap-2 mb-2 p-2 border rounded-md text-sm">
-                        <div className="relative w-16 h-9 flex-shrink-0">
-                            <Image src={video.thumbnailUrl} alt={video.title} fill className="object-cover rounded-sm" />
-                        </div>
-                        <div className="flex-1 overflow-hidden">
-                            <p className="line-clamp-1 text-gray-800">{video.title}</p>
-                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPerformanceColor(video.performance)}`}>
-                                {getPerformanceLabel(video.performance)}
-                            </span>
+
+            {!momentumChannelId ? (
+                <p className="flex items-center gap-1.5 mb-4 text-sm text-gray-600">
+                    <Icon icon="mdi:cog" />
+                    수정하기에서 위젯 설정을 열어 채널을 지정하면 채널 분석을 볼 수 있습니다.
+                </p>
+            ) : (
+                <>
+                    {/* 채널 개요 */}
+                    {loading ? (
+                        <div className="mb-4 text-sm text-gray-500">채널 정보를 불러오는 중...</div>
+                    ) : error ? (
+                        <ApiErrorNotice error={error} className="mb-4 text-left" />
+                    ) : channelData && (
+                        <div className="flex items-center gap-3 mb-4">
+                            <Image
+                                src={channelData.channelThumbnail}
+                                alt={channelData.channelName}
+                                width={40}
+                                height={40}
+                                className="rounded-full flex-shrink-0"
+                            />
+                            <div>
+                                <h4 className="font-medium text-gray-900 line-clamp-1">{channelData.channelName}</h4>
+                                <p className="text-sm text-gray-500">구독자 {formatNumber(channelData.subscriberCount)}명</p>
+                            </div>
                         </div>
+                    )}
+
+                    {/* 채널 모멘텀 (최근 N일, 위젯 설정의 채널) */}
+                    <div className="bg-gradient-to-br from-primary/10 to-primary/5 rounded-lg p-3 mb-4">
+                        <ChannelMomentumChart channelId={momentumChannelId} days={config.days} compact />
                     </div>
-                ))}
-            </div>
+
+                    {/* 최근 영상 분석 (상위 2개) */}
+                    {!loading && channelData && channelData.recentVideos.length > 0 && (
+                        <div className="mb-4">
+                            <h5 className="font-semibold text-gray-700 mb-2">최근 영상 성과</h5>
+                            {channelData.recentVideos.slice(0, 2).map((video) => (
+                                <div key={video.id} className="flex items-center gap-2 mb-2 p-2 border rounded-md text-sm">
+                                    <div className="relative w-16 h-9 flex-shrink-0">
+                                        <Image src={video.thumbnailUrl} alt={video.title} fill className="object-cover rounded-sm" />
+                                    </div>
+                                    <div className="flex-1 overflow-hidden">
+                                        <p className="line-clamp-1 text-gray-800">{video.title}</p>
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPerformanceColor(video.performance)}`}>
+                                            {getPerformanceLabel(video.performance)}
+                                        </span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
 
             {/* 전체 분석 페이지로 이동 버튼 */}
             <Link 
@@ -147,4 +167,32 @@ const ChannelAnalysisWidget = () => {
     );
 };
 
+// 위젯 추가 모달 미리보기
+const ChannelAnalysisPreview = () => (
+    <div className="w-full space-y-2">
+        <div className="flex items-center gap-2">
+            <div className="w-6 h-6 rounded-full bg-gray-200" />
+            <div className="h-2 w-1/2 rounded bg-gray-200" />
+        </div>
+        <div className="flex items-end gap-1 h-10">
+            {[40, 65, 50, 80, 60, 95, 75].map((height, index) => (
+                <div key={index} className="flex-1 rounded-t bg-primary/30" style={{ height: `${height}%` }} />
+            ))}
+        </div>
+    </div>
+);
+
+export const channelAnalysisWidget = defineWidget({
+    type: 'channelAnalysis',
+    name: '내 채널 분석',
+    description: '채널 개요, 조회수 모멘텀, 최근 영상 성과를 요약합니다.',
+    icon: 'mdi:chart-line',
+    Preview: ChannelAnalysisPreview,
+    defaultSize: { w: 6, h: 4 },
+    minSize: { w: 3, h: 4 },
+    maxSize: { w: 12, h: 6 },
+    configSchema: channelAnalysisConfigSchema,
+    render: ({ config }) => <ChannelAnalysisWidget config={config} />,
+});
+
 export default ChannelAnalysisWidget;
\ No newline at end of file
@@ -0,0 +1,37 @@
+'use client';
+
+import { Icon } from '@iconify/react';
+import { defineWidget } from '@/app/components/Dashboard/widget';
+
+// 키워드 집계 API가 생기기 전까지 자리만 잡아 두는 위젯
+const HotKeywordsWidget = () => (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-gray-500">
+        <Icon icon="mdi:pound" className="text-3xl" />
+        <span className="text-xl font-bold text-gray-700 dark:text-gray-300">지금 뜨는 키워드</span>
+        <p className="text-sm">준비 중인 위젯입니다.</p>
+    </div>
+);
+
+// 위젯 추가 모달 미리보기
+const HotKeywordsPreview = () => (
+    <div className="w-full flex flex-wrap gap-1.5">
+        {['w-10', 'w-14', 'w-8', 'w-12', 'w-9'].map((width, index) => (
+            <div key={index} className={`h-4 ${width} rounded-full bg-gray-200`} />
+        ))}
+    </div>
+);
+
+export const hotKeywordsWidget = defineWidget({
+    type: 'hotKeywords',
+    name: '지금 뜨는 키워드',
+    description: '최근 급등 영상에서 자주 등장하는 키워드를 모아 보여줍니다.',
+    icon: 'mdi:pound',
+    Preview: HotKeywordsPreview,
+    defaultSize: { w: 6, h: 2 },
+    minSize: { w: 3, h: 2 },
+    maxSize: { w: 12, h: 4 },
+    configSchema: {},
+    render: () => <HotKeywordsWidget />,
+});
+
+export default HotKeywordsWidget;
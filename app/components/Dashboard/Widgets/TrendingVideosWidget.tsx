@@ -1,13 +1,71 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import VideoCard, { Video } from '@/app/components/Home/TrendingVideos/VideoCard';
-import CategoryTabs, { youtubeCategories, Category } from '@/app/components/Home/TrendingVideos/CategoryTabs';
-import { fetchSurgeVideos } from '@/app/lib/api/trends';
-import type { SurgeVideo } from '@/app/lib/api/types';
+import CategoryTabs, { getPlatformCategories } from '@/app/components/Home/TrendingVideos/CategoryTabs';
+import SortSelect, { trendSortOptions } from '@/app/components/Home/TrendingVideos/SortSelect';
+import ExportMenu from '@/app/components/Home/TrendingVideos/ExportMenu';
+import { downloadTrendExport, fetchTrendingVideosPage } from '@/app/lib/api/trends';
+import type { FetchTrendingVideosPageParams } from '@/app/lib/api/trends';
+import { isAbortError } from '@/app/lib/api/client';
+import type { TrendExportFormat, TrendSortKey, TrendVideo } from '@/app/lib/api/types';
+import { DEFAULT_TREND_SORT, isTrendSortKey } from '@/app/lib/trends/sort';
+import { getCurrentAgeHours } from '@/app/lib/trends/items';
+import { DEFAULT_PLATFORM, PLATFORM_IDS, PLATFORM_PROVIDERS, getPlatformProvider, isPlatformId } from '@/app/lib/platforms';
+import type { PartialWidgetConfig, WidgetConfig } from '@/app/lib/dashboard/widget-config';
+import { ApiErrorNotice, isInvalidResponseError } from '@/app/components/Common/ApiErrorNotice';
+import { defineWidget } from '@/app/components/Dashboard/widget';
+import { useTrendRegion } from '@/contexts/TrendRegionContext';
 
-// SurgeVideo를 Video 타입으로 변환
-function surgeVideoToVideo(surgeVideo: SurgeVideo): Video {
+// 영상 형식 필터 (TrendFilters.is_shorts)
+const FORMAT_OPTIONS = [
+    { value: 'all', label: '전체' },
+    { value: 'shorts', label: '쇼츠만' },
+    { value: 'long', label: '롱폼만' },
+];
+
+// 위젯 인스턴스마다 저장되는 조회 조건 (카테고리 선택지는 플랫폼에 따라 바뀌므로 플랫폼 뒤에 선언)
+const trendingVideosConfigSchema = {
+    platform: {
+        type: 'select',
+        label: '플랫폼',
+        options: PLATFORM_IDS.map(id => ({ value: id, label: PLATFORM_PROVIDERS[id].name })),
+        default: DEFAULT_PLATFORM,
+    },
+    category: {
+        type: 'select',
+        label: '카테고리',
+        options: (config: PartialWidgetConfig) => getWidgetCategories(config.platform)
+            .map(category => ({ value: category.id, label: category.name })),
+        default: 'all',
+    },
+    format: { type: 'select', label: '영상 형식', options: FORMAT_OPTIONS, default: 'all' },
+    days: { type: 'number', label: '집계 기간 (일)', min: 1, max: 30, default: 14 },
+    limit: { type: 'number', label: '한 번에 불러올 영상 수', min: 4, max: 30, step: 2, default: 10 },
+    sort: {
+        type: 'select',
+        label: '정렬',
+        options: trendSortOptions.map(option => ({ value: option.id, label: option.name })),
+        default: DEFAULT_TREND_SORT,
+    },
+} as const;
+
+type TrendingVideosWidgetConfig = WidgetConfig<typeof trendingVideosConfigSchema>;
+
+function getWidgetCategories(platform: unknown) {
+    return getPlatformCategories(typeof platform === 'string' && isPlatformId(platform) ? platform : DEFAULT_PLATFORM);
+}
+
+// 위젯 머리글에 보여줄 설정 요약 (예: YouTube · 음악 · 쇼츠만 · 3일)
+function describeConfig(config: TrendingVideosWidgetConfig, categoryName: string): string {
+    const parts = [getPlatformProvider(config.platform).name, categoryName];
+    if (config.format !== 'all') parts.push(FORMAT_OPTIONS.find(option => option.value === config.format)?.label ?? config.format);
+    parts.push(`${config.days}일`);
+    return parts.join(' · ');
+}
+
+// TrendVideo를 Video 타입으로 변환
+function trendVideoToVideo(surgeVideo: TrendVideo): Video {
     // 급등 이유 생성
     let trendingReason = '';
     if (surgeVideo.surge_score > 80) {
@@ -36,88 +94,92 @@ function surgeVideoToVideo(surgeVideo: SurgeVideo): Video {
         isShort: surgeVideo.is_shorts || false,
         trendingRank: surgeVideo.trending_rank,
         trendingReason,
+        ageHours: getCurrentAgeHours(surgeVideo) ?? undefined,
+        viewVelocity: surgeVideo.view_velocity,
     };
 }
 
 interface TrendingVideosWidgetProps {
+    config: TrendingVideosWidgetConfig;
     onVideoClick: (video: Video) => void;
 }
 
-const TrendingVideosWidget = ({ onVideoClick }: TrendingVideosWidgetProps) => {
+const TrendingVideosWidget = ({ config, onVideoClick }: TrendingVideosWidgetProps) => {
+    const { region } = useTrendRegion();
+    const categories = getWidgetCategories(config.platform);
     const [videos, setVideos] = useState<Video[]>([]);
     const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-    const [selectedCategory, setSelectedCategory] = useState<string>('all');
+    const [error, setError] = useState<unknown>(null);
+    const [selectedCategory, setSelectedCategory] = useState<string>(config.category);
+    const [selectedSort, setSelectedSort] = useState<TrendSortKey>(isTrendSortKey(config.sort) ? config.sort : DEFAULT_TREND_SORT);
+    // 카테고리, 정렬을 제외한 조회 조건 (탭/정렬 선택은 위젯 안에서 바꿀 수 있고 설정값은 초기값)
+    const { platform, format, days, limit } = config;
+    // 전체 탭 다음 페이지 커서 (없으면 마지막 페이지)
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [loadMoreError, setLoadMoreError] = useState<unknown>(null);
+
+    const pageParams = useMemo<FetchTrendingVideosPageParams>(() => ({
+        platform,
+        region,
+        limit,
+        days,
+        velocity_days: 1,
+        sort: selectedSort,
+        filters: {
+            category_id: selectedCategory === 'all' ? undefined : Number(selectedCategory),
+            is_shorts: format === 'all' ? undefined : format === 'shorts',
+        },
+    }), [platform, region, limit, days, format, selectedCategory, selectedSort]);
 
     useEffect(() => {
+        const controller = new AbortController();
+
         async function loadVideos() {
             try {
                 setLoading(true);
                 setError(null);
+                setLoadMoreError(null);
+                setNextCursor(null);
 
-                if (selectedCategory === 'all') {
-                    // 전체 급등 영상
-                    const surgeVideos = await fetchSurgeVideos({
-                        platform: 'youtube',
-                        limit: 10,
-                        days: 14,
-                        velocity_days: 1,
-                    });
-
-                    const convertedVideos = surgeVideos.map(surgeVideoToVideo);
-                    setVideos(convertedVideos);
-                } else {
-                    // 카테고리별 추천 영상
-                    const response = await fetch(
-                        `${process.env.NEXT_PUBLIC_API_BASE_URL}/trends/menu?category_id=${encodeURIComponent(selectedCategory)}&limit=10&days=14&platform=youtube`,
-                        {
-                            method: 'GET',
-                            headers: { 'Content-Type': 'application/json' },
-                            cache: 'no-store',
-                        }
-                    );
-
-                    if (!response.ok) {
-                        // throw new Error('카테고리 영상을 불러오지 못했습니다.');
-                        setError('카테고리 영상을 불러오지 못했습니다.');
-                        setVideos([]);
-                        return;
-                    }
-
-                    const data = await response.json();
-                    const items: any[] = data.items ?? [];
-
-                    const convertedVideos: Video[] = items.map((item, index) => ({
-                        id: item.video_id,
-                        title: item.title,
-                        channelName: item.channel_username?.replace('@', '') || item.channel_id,
-                        channelId: item.channel_id,
-                        thumbnailUrl: item.thumbnail_url,
-                        viewCount: item.view_count,
-                        viewCountChange: 0,
-                        likeCount: item.like_count ?? 0,
-                        likeCountChange: 0,
-                        publishedAt: item.published_at,
-                        duration: '',
-                        categoryId: String(item.category_id ?? item.category ?? selectedCategory),
-                        isShort: item.is_shorts || false,
-                        trendingRank: index + 1,
-                        trendingReason: `${item.category ?? selectedCategory} 카테고리 추천`,
-                    }));
-
-                    setVideos(convertedVideos);
-                }
+                // 급등 영상 첫 페이지 (카테고리, 영상 형식은 서버 필터로 적용)
+                const page = await fetchTrendingVideosPage(pageParams, controller.signal);
+                setVideos(page.items.map(trendVideoToVideo));
+                setNextCursor(page.meta.next_cursor);
             } catch (err) {
+                if (isAbortError(err)) return;
                 console.error('급등 영상 로딩 실패:', err);
-                setError(err instanceof Error ? err.message : '급등 영상을 불러오지 못했습니다.');
+                setError(err);
                 setVideos([]); // 오류 발생 시 비디오 목록을 비웁니다.
             } finally {
-                setLoading(false);
+                if (!controller.signal.aborted) setLoading(false);
             }
         }
 
         loadVideos();
-    }, [selectedCategory]);
+        return () => controller.abort();
+    }, [pageParams]);
+
+    // 다음 페이지만 받아 목록 뒤에 이어 붙임
+    const handleLoadMore = async () => {
+        if (!nextCursor || loadingMore) return;
+
+        setLoadingMore(true);
+        setLoadMoreError(null);
+        try {
+            const page = await fetchTrendingVideosPage({ ...pageParams, cursor: nextCursor });
+            setVideos(prev => [...prev, ...page.items.map(trendVideoToVideo)]);
+            setNextCursor(page.meta.next_cursor);
+        } catch (err) {
+            console.error('급등 영상 추가 로딩 실패:', err);
+            setLoadMoreError(err);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    // 전체 탭 랭킹을 현재 정렬 기준으로 내보내기
+    const handleExport = (exportFormat: TrendExportFormat) => downloadTrendExport(exportFormat, pageParams);
 
     if (loading) {
         return (
@@ -134,7 +196,13 @@ const TrendingVideosWidget = ({ onVideoClick }: TrendingVideosWidgetProps) => {
         return (
             <div className="w-full h-full flex items-center justify-center">
                 <div className="text-center p-6">
-                    <p className="text-red-600 mb-4">{error}</p>
+                    {isInvalidResponseError(error) ? (
+                        <ApiErrorNotice error={error} className="mb-4 text-left" />
+                    ) : (
+                        <p className="text-red-600 mb-4">
+                            {error instanceof Error ? error.message : '급등 영상을 불러오지 못했습니다.'}
+                        </p>
+                    )}
                     <button
                         onClick={() => window.location.reload()}
                         className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90"
@@ -146,23 +214,27 @@ const TrendingVideosWidget = ({ onVideoClick }: TrendingVideosWidgetProps) => {
         );
     }
 
-    if (videos.length === 0) {
-        return (
-            <div className="w-full h-full flex items-center justify-center">
-                <p className="text-gray-600">급등 영상이 없습니다.</p>
-            </div>
-        );
-    }
-
     return (
         <div className="w-full h-full flex flex-col overflow-hidden">
             {/* 카테고리 탭 */}
             <div className="px-3 pt-3 pb-2 border-b">
                 <CategoryTabs
-                    categories={youtubeCategories}
+                    categories={categories}
                     selectedCategory={selectedCategory}
                     onCategoryChange={setSelectedCategory}
                 />
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-500 truncate">
+                        {describeConfig(config, categories.find(category => category.id === selectedCategory)?.name ?? selectedCategory)}
+                    </span>
+                    <div className="flex items-center gap-2">
+                        <SortSelect
+                            selectedSort={selectedSort}
+                            onSortChange={setSelectedSort}
+                        />
+                        <ExportMenu onExport={handleExport} />
+                    </div>
+                </div>
             </div>
 
             {/* 영상 그리드 */}
@@ -175,9 +247,54 @@ const TrendingVideosWidget = ({ onVideoClick }: TrendingVideosWidgetProps) => {
                         <VideoCard key={video.id} video={video} onVideoClick={onVideoClick} />
                     ))}
                 </div>
+                {videos.length === 0 && (
+                    <p className="py-8 text-center text-gray-600">조건에 맞는 급등 영상이 없습니다.</p>
+                )}
+
+                {(nextCursor || loadMoreError !== null) && (
+                    <div className="mt-4 text-center">
+                        {loadMoreError !== null && (
+                            <ApiErrorNotice error={loadMoreError} className="mb-3 text-left" />
+                        )}
+                        {nextCursor && (
+                            <button
+                                onClick={handleLoadMore}
+                                disabled={loadingMore}
+                                className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg"
+                            >
+                                {loadingMore ? '불러오는 중...' : '더 보기'}
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     );
 };
 
+// 위젯 추가 모달 미리보기
+const TrendingVideosPreview = () => (
+    <div className="grid grid-cols-2 gap-1.5 w-full">
+        {[0, 1, 2, 3].map(index => (
+            <div key={index} className="space-y-1">
+                <div className="aspect-video rounded bg-gray-200" />
+                <div className="h-1.5 w-3/4 rounded bg-gray-200" />
+            </div>
+        ))}
+    </div>
+);
+
+export const trendingVideosWidget = defineWidget({
+    type: 'trendingVideos',
+    name: '급등 영상',
+    description: '플랫폼, 카테고리, 영상 형식, 기간별 급등 영상 랭킹을 카드로 보여줍니다.',
+    icon: 'mdi:fire',
+    Preview: TrendingVideosPreview,
+    defaultSize: { w: 6, h: 4 },
+    minSize: { w: 4, h: 3 },
+    maxSize: { w: 12, h: 8 },
+    configSchema: trendingVideosConfigSchema,
+    render: ({ config, onVideoClick }) => <TrendingVideosWidget config={config} onVideoClick={onVideoClick} />,
+});
+
 export default TrendingVideosWidget;
@@ -3,8 +3,12 @@
 import { useState } from 'react';
 import Image from 'next/image';
 import { Icon } from '@iconify/react';
-import { extractVideoId, ingestAndGetAnalysis } from '@/app/lib/api/videos';
+import { parseYouTubeVideo } from '@/app/lib/youtube/url';
+import type { IngestionProgress } from '@/app/lib/api/ingestion';
 import type { VideoAnalysis } from '@/app/lib/api/types';
+import { useIngestionJob } from '@/app/hooks/useIngestionJob';
+import { IngestionSteps } from '@/app/components/Common/IngestionSteps';
+import { defineWidget } from '@/app/components/Dashboard/widget';
 
 // --- VideoCompareClient.tsx에서 가져온 로직과 타입 ---
 interface CompareVideo {
@@ -69,9 +73,11 @@ interface CompactVideoInputProps {
     onAnalyze: () => void;
     loading: boolean;
     error?: string | null;
+    progress: IngestionProgress | null;
+    onCancel: () => void;
 }
 
-function CompactVideoInput({ label, videoUrl, onUrlChange, onAnalyze, loading, error }: CompactVideoInputProps) {
+function CompactVideoInput({ label, videoUrl, onUrlChange, onAnalyze, loading, error, progress, onCancel }: CompactVideoInputProps) {
     return (
         <div>
             <label className='block text-xs font-medium text-gray-600 mb-1'>{label}</label>
@@ -93,6 +99,7 @@ function CompactVideoInput({ label, videoUrl, onUrlChange, onAnalyze, loading, e
                     {loading ? <Icon icon="mdi:loading" className="animate-spin" /> : '분석'}
                 </button>
             </div>
+            {loading && <IngestionSteps progress={progress} compact onCancel={onCancel} />}
             {error && (
                 <p className="mt-1 text-xs text-red-600">{error}</p>
             )}
@@ -105,53 +112,47 @@ const VideoCompareWidget = () => {
     const [videoUrlB, setVideoUrlB] = useState('');
     const [videoA, setVideoA] = useState<CompareVideo | null>(null);
     const [videoB, setVideoB] = useState<CompareVideo | null>(null);
-    const [loadingA, setLoadingA] = useState(false);
-    const [loadingB, setLoadingB] = useState(false);
     const [errorA, setErrorA] = useState<string | null>(null);
     const [errorB, setErrorB] = useState<string | null>(null);
+    const jobA = useIngestionJob();
+    const jobB = useIngestionJob();
 
     const analyzeVideoA = async () => {
-        setLoadingA(true);
         setErrorA(null);
 
         try {
-            const videoId = extractVideoId(videoUrlA);
-            if (!videoId) {
-                throw new Error('유효하지 않은 YouTube URL입니다.');
+            const parsed = parseYouTubeVideo(videoUrlA);
+            if (!parsed.ok) {
+                throw new Error(parsed.message);
             }
 
-            const analysis = await ingestAndGetAnalysis(videoId);
-            setVideoA(videoAnalysisToCompareVideo(analysis));
+            const analysis = await jobA.run(parsed.videoId);
+            if (analysis) setVideoA(videoAnalysisToCompareVideo(analysis));
         } catch (error) {
             console.error('영상 A 분석 실패:', error);
             setErrorA(error instanceof Error ? error.message : '영상 분석에 실패했습니다.');
             setVideoA(null);
-        } finally {
-            setLoadingA(false);
         }
     };
 
     const analyzeVideoB = async () => {
-        setLoadingB(true);
         setErrorB(null);
 
         try {
-            const videoId = extractVideoId(videoUrlB);
-            if (!videoId) {
-                throw new Error('유효하지 않은 YouTube URL입니다.');
+            const parsed = parseYouTubeVideo(videoUrlB);
+            if (!parsed.ok) {
+                throw new Error(parsed.message);
             }
 
-            const analysis = await ingestAndGetAnalysis(videoId);
-            setVideoB(videoAnalysisToCompareVideo(analysis));
+            const analysis = await jobB.run(parsed.videoId);
+            if (analysis) setVideoB(videoAnalysisToCompareVideo(analysis));
         } catch (error) {
             console.error('영상 B 분석 실패:', error);
             setErrorB(error instanceof Error ? error.message : '영상 분석에 실패했습니다.');
             setVideoB(null);
-        } finally {
-            setLoadingB(false);
         }
     };
-    
+
     return (
         <div className="w-full h-full flex flex-col p-3 overflow-y-auto">
             {/* Input Section */}
@@ -161,16 +162,20 @@ const VideoCompareWidget = () => {
                     videoUrl={videoUrlA}
                     onUrlChange={setVideoUrlA}
                     onAnalyze={analyzeVideoA}
-                    loading={loadingA}
+                    loading={jobA.isRunning}
                     error={errorA}
+                    progress={jobA.progress}
+                    onCancel={jobA.cancel}
                 />
                 <CompactVideoInput
                     label='영상 B'
                     videoUrl={videoUrlB}
                     onUrlChange={setVideoUrlB}
                     onAnalyze={analyzeVideoB}
-                    loading={loadingB}
+                    loading={jobB.isRunning}
                     error={errorB}
+                    progress={jobB.progress}
+                    onCancel={jobB.cancel}
                 />
             </div>
 
@@ -216,4 +221,26 @@ const VideoCompareWidget = () => {
     );
 };
 
+// 위젯 추가 모달 미리보기
+const VideoComparePreview = () => (
+    <div className="w-full flex items-center gap-2">
+        <div className="flex-1 aspect-video rounded bg-gray-200" />
+        <span className="text-xs font-bold text-gray-400">VS</span>
+        <div className="flex-1 aspect-video rounded bg-gray-200" />
+    </div>
+);
+
+export const videoCompareWidget = defineWidget({
+    type: 'videoCompare',
+    name: '동영상 비교',
+    description: '두 영상의 조회수와 반응 지표를 나란히 비교합니다.',
+    icon: 'mdi:compare-horizontal',
+    Preview: VideoComparePreview,
+    defaultSize: { w: 6, h: 4 },
+    minSize: { w: 4, h: 4 },
+    maxSize: { w: 12, h: 8 },
+    configSchema: {},
+    render: () => <VideoCompareWidget />,
+});
+
 export default VideoCompareWidget;
@@ -0,0 +1,74 @@
+import type { Layout } from 'react-grid-layout';
+import type { DashboardWidget } from '@/app/lib/api/dashboard';
+import { normalizeWidgetConfig } from '@/app/lib/dashboard/widget-config';
+import type { WidgetDefinition } from './widget';
+import { trendingVideosWidget } from './Widgets/TrendingVideosWidget';
+import { channelAnalysisWidget } from './Widgets/ChannelAnalysisWidget';
+import { videoCompareWidget } from './Widgets/VideoCompareWidget';
+import { hotKeywordsWidget } from './Widgets/HotKeywordsWidget';
+
+// 대시보드에 추가할 수 있는 위젯 (위젯 추가 모달 순서)
+export const WIDGET_REGISTRY: readonly WidgetDefinition[] = [
+    trendingVideosWidget,
+    channelAnalysisWidget,
+    videoCompareWidget,
+    hotKeywordsWidget,
+];
+
+const registryByType = new Map(WIDGET_REGISTRY.map(definition => [definition.type, definition]));
+
+/**
+ * 위젯 종류 ID로 정의를 찾습니다.
+ * @param type - 위젯 종류 ID
+ */
+export function getWidgetDefinition(type: string): WidgetDefinition | undefined {
+    return registryByType.get(type);
+}
+
+/**
+ * 새 위젯 인스턴스를 만듭니다. 설정은 스키마 기본값으로 채웁니다.
+ * @param definition - 위젯 정의
+ * @param id - 레이아웃 항목 ID
+ */
+export function createDashboardWidget(definition: WidgetDefinition, id: string): DashboardWidget {
+    return {
+        i: id,
+        type: definition.type,
+        name: definition.name,
+        config: normalizeWidgetConfig(definition.configSchema, undefined),
+    };
+}
+
+/**
+ * 저장된 위젯의 설정을 스키마에 맞게 정규화합니다.
+ * 등록되지 않은 종류는 그대로 둡니다. (정의가 빠진 위젯도 레이아웃에서 지우지 않도록)
+ * @param widget - 저장된 위젯
+ */
+export function normalizeDashboardWidget(widget: DashboardWidget): DashboardWidget {
+    const definition = getWidgetDefinition(widget.type);
+    if (!definition) return widget;
+    return { ...widget, config: normalizeWidgetConfig(definition.configSchema, widget.config) };
+}
+
+/**
+ * 레이아웃 항목에 위젯 정의의 최소/최대 크기를 적용합니다.
+ * 제한은 해당 브레이크포인트의 열 수를 넘지 않도록 줄입니다.
+ * @param item - 레이아웃 항목
+ * @param definition - 위젯 정의 (없으면 항목을 그대로 반환)
+ * @param columns - 브레이크포인트 열 수
+ */
+export function applyWidgetSizeLimits(item: Layout, definition: WidgetDefinition | undefined, columns: number): Layout {
+    if (!definition) return item;
+    const minW = Math.min(definition.minSize.w, columns);
+    const maxW = Math.min(definition.maxSize.w, columns);
+    const { minSize, maxSize } = definition;
+    return {
+        ...item,
+        w: Math.min(maxW, Math.max(minW, item.w)),
+        h: Math.min(maxSize.h, Math.max(minSize.h, item.h)),
+        minW,
+        maxW,
+        minH: minSize.h,
+        maxH: maxSize.h,
+    };
+}
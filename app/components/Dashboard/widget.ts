@@ -0,0 +1,44 @@
+import type { ComponentType, ReactNode } from 'react';
+import type { Video } from '@/app/components/Home/TrendingVideos/VideoCard';
+import type { WidgetConfig, WidgetConfigSchema } from '@/app/lib/dashboard/widget-config';
+
+// 그리드 칸 단위 크기
+export interface WidgetSize {
+    w: number;
+    h: number;
+}
+
+// 대시보드가 위젯에 넘기는 값
+export interface WidgetRenderProps<C> {
+    // 스키마로 정규화된 위젯 설정
+    config: C;
+    onVideoClick: (video: Video) => void;
+}
+
+/**
+ * 대시보드 위젯 정의
+ * 위젯 추가 모달, 그리드 렌더링, 레이아웃 저장이 모두 이 정의를 기준으로 동작합니다.
+ */
+export interface WidgetDefinition<S extends WidgetConfigSchema = WidgetConfigSchema> {
+    // 저장되는 위젯 종류 ID (바꾸면 저장된 레이아웃의 위젯을 찾지 못합니다)
+    type: string;
+    name: string;
+    description: string;
+    // Iconify 아이콘 이름
+    icon: string;
+    // 위젯 추가 모달에 보여줄 미리보기
+    Preview: ComponentType;
+    defaultSize: WidgetSize;
+    minSize: WidgetSize;
+    maxSize: WidgetSize;
+    configSchema: S;
+    render(props: WidgetRenderProps<WidgetConfig<S>>): ReactNode;
+}
+
+/**
+ * 위젯 정의를 만듭니다. 설정 스키마에서 render의 config 타입을 추론합니다.
+ * @param definition - 위젯 정의
+ */
+export function defineWidget<S extends WidgetConfigSchema>(definition: WidgetDefinition<S>): WidgetDefinition<S> {
+    return definition;
+}
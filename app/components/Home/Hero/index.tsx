@@ -5,9 +5,12 @@ import { useAuth } from '@/contexts/AuthContext'
 import { useEffect, useRef, useState } from 'react'
 import { Icon } from '@iconify/react/dist/iconify.js'
 import Signin from '../../Auth/SignIn'
+import { useTrendRegion } from '@/contexts/TrendRegionContext'
+import { TREND_REGION_INFO } from '@/app/lib/trends/region'
 
 const Banner = () => {
   const { isLoggedIn } = useAuth();
+  const { region } = useTrendRegion();
   const [isSignInOpen, setIsSignInOpen] = useState(false)
   const signInRef = useRef<HTMLDivElement>(null)
 
@@ -49,8 +52,8 @@ const Banner = () => {
                 <span className='text-sm font-medium text-gray-700'>데이터 기반 근거</span>
               </div>
               <div className='flex items-center gap-2 bg-white/80 backdrop-blur-sm rounded-full px-4 py-2 shadow-sm'>
-                <span className='text-2xl'>🇰🇷</span>
-                <span className='text-sm font-medium text-gray-700'>한국 트렌드 특화</span>
+                <span className='text-2xl'>{TREND_REGION_INFO[region].flag}</span>
+                <span className='text-sm font-medium text-gray-700'>{TREND_REGION_INFO[region].name} 트렌드 특화</span>
               </div>
             </div>
           </div>
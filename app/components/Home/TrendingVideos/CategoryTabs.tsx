@@ -1,26 +1,27 @@
 'use client'
 
 import { Icon } from '@iconify/react/dist/iconify.js'
+import { getPlatformProvider, PlatformId } from '@/app/lib/platforms'
 
-// YouTube 공식 카테고리 ID 기반
+// 플랫폼 카테고리 번호 기반 (YouTube는 공식 카테고리 ID)
 export interface Category {
     id: string
     name: string
     icon: string
 }
 
+const ALL_CATEGORY: Category = { id: 'all', name: '전체', icon: 'mdi:fire' }
+
+/**
+ * 플랫폼 카테고리 탭 목록을 반환합니다. (맨 앞에 전체 탭)
+ * @param platform - 플랫폼 ID
+ */
+export function getPlatformCategories(platform: PlatformId): Category[] {
+    return [ALL_CATEGORY, ...getPlatformProvider(platform).categories.map(({ id, name, icon }) => ({ id, name, icon }))]
+}
+
 // MVP에서 사용할 YouTube 카테고리
-export const youtubeCategories: Category[] = [
-    { id: 'all', name: '전체', icon: 'mdi:fire' },
-    { id: '10', name: '음악', icon: 'mdi:music' },
-    { id: '20', name: '게임', icon: 'mdi:gamepad-variant' },
-    { id: '24', name: '엔터테인먼트', icon: 'mdi:television-play' },
-    { id: '17', name: '스포츠', icon: 'mdi:soccer' },
-    { id: '25', name: '뉴스', icon: 'mdi:newspaper' },
-    { id: '22', name: '브이로그', icon: 'mdi:account-voice' },
-    { id: '26', name: '노하우/스타일', icon: 'mdi:lightbulb' },
-    { id: '28', name: '과학기술', icon: 'mdi:atom' },
-]
+export const youtubeCategories: Category[] = getPlatformCategories('youtube')
 
 interface CategoryTabsProps {
     categories: Category[]
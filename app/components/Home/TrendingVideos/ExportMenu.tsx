@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react'
+import { Icon } from '@iconify/react/dist/iconify.js'
+import type { TrendExportDownload } from '@/app/lib/api/trends'
+import type { TrendExportFormat } from '@/app/lib/api/types'
+import { TREND_EXPORT_FORMAT_LABELS, TREND_EXPORT_FORMATS } from '@/app/lib/trends/export'
+import { getErrorMessage } from '@/app/components/Common/ApiErrorNotice'
+
+interface ExportMenuProps {
+    // 현재 목록 조건으로 내보내기 파일을 받아옵니다.
+    onExport: (format: TrendExportFormat) => Promise<TrendExportDownload>
+    disabled?: boolean
+    className?: string
+}
+
+// 받아온 파일을 브라우저 다운로드로 저장
+const saveFile = ({ blob, filename }: TrendExportDownload) => {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    URL.revokeObjectURL(url)
+}
+
+// 트렌드 목록 내보내기 버튼 (CSV, JSON, XLSX)
+export default function ExportMenu({ onExport, disabled = false, className = '' }: ExportMenuProps) {
+    const [exportingFormat, setExportingFormat] = useState<TrendExportFormat | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const handleExport = async (format: TrendExportFormat) => {
+        setExportingFormat(format)
+        setError(null)
+        try {
+            saveFile(await onExport(format))
+        } catch (err) {
+            console.error('트렌드 영상 내보내기 실패:', err)
+            setError(getErrorMessage(err, '내보내기에 실패했습니다.'))
+        } finally {
+            setExportingFormat(null)
+        }
+    }
+
+    return (
+        <div className={`relative text-sm ${className}`}>
+            <Menu>
+                <MenuButton
+                    disabled={disabled || exportingFormat !== null}
+                    className='flex items-center gap-1.5 rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+                >
+                    <Icon
+                        icon={exportingFormat ? 'mdi:loading' : 'mdi:download'}
+                        className={`text-lg ${exportingFormat ? 'animate-spin' : ''}`}
+                    />
+                    {exportingFormat ? '내보내는 중...' : '내보내기'}
+                </MenuButton>
+                <MenuItems
+                    anchor='bottom end'
+                    className='z-20 mt-1 w-40 rounded-lg border border-gray-100 bg-white py-1 shadow-lg focus:outline-none'
+                >
+                    {TREND_EXPORT_FORMATS.map((format) => (
+                        <MenuItem key={format}>
+                            <button
+                                type='button'
+                                onClick={() => handleExport(format)}
+                                className='block w-full px-3 py-2 text-left text-gray-700 data-[focus]:bg-gray-100'
+                            >
+                                {TREND_EXPORT_FORMAT_LABELS[format]}
+                            </button>
+                        </MenuItem>
+                    ))}
+                </MenuItems>
+            </Menu>
+            {error && <p className='absolute right-0 mt-1 w-max max-w-xs text-xs text-red-500'>{error}</p>}
+        </div>
+    )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { Icon } from '@iconify/react/dist/iconify.js'
+import type { TrendSortKey } from '@/app/lib/api/types'
+
+interface SortOption {
+    id: TrendSortKey
+    name: string
+}
+
+// 급등 영상 목록 정렬 기준 (/api/trends/videos?sort=)
+export const trendSortOptions: SortOption[] = [
+    { id: 'surge_score', name: '급등 점수순' },
+    { id: 'total_score', name: '종합 점수순' },
+    { id: 'view_velocity', name: '조회수 증가 속도순' },
+    { id: 'growth_rate_window', name: '조회수 증가율순' },
+    { id: 'like_velocity', name: '좋아요 증가 속도순' },
+    { id: 'comment_velocity', name: '댓글 증가 속도순' },
+    { id: 'freshness_score', name: '최신순' },
+]
+
+interface SortSelectProps {
+    selectedSort: TrendSortKey
+    onSortChange: (sort: TrendSortKey) => void
+    disabled?: boolean
+    className?: string
+}
+
+export default function SortSelect({ selectedSort, onSortChange, disabled = false, className = '' }: SortSelectProps) {
+    return (
+        <label className={`flex items-center gap-1.5 text-sm text-gray-600 ${className}`}>
+            <Icon icon='mdi:sort-descending' className='text-lg' />
+            <span className='sr-only'>정렬 기준</span>
+            <select
+                value={selectedSort}
+                onChange={(e) => onSortChange(e.target.value as TrendSortKey)}
+                disabled={disabled}
+                className='rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary/30 disabled:opacity-50'
+            >
+                {trendSortOptions.map((option) => (
+                    <option key={option.id} value={option.id}>
+                        {option.name}
+                    </option>
+                ))}
+            </select>
+        </label>
+    )
+}
@@ -3,9 +3,12 @@
 import Image from 'next/image'
 import Link from 'next/link'
 import { Icon } from '@iconify/react/dist/iconify.js'
+import type { PlatformId } from '@/app/lib/platforms'
 
 export interface Video {
     id: string
+    // 생략 시 youtube
+    platform?: PlatformId
     title: string
     channelName: string
     channelId: string
@@ -20,6 +23,9 @@ export interface Video {
     isShort: boolean
     trendingRank?: number
     trendingReason?: string
+    // 트렌드 영상 지표, 조회수 예측에 사용 (현재 기준 게시 후 경과 시간, 증가 집계 기간의 조회수 증가량)
+    ageHours?: number
+    viewVelocity?: number
 }
 
 interface VideoCardProps {
@@ -4,9 +4,17 @@
 import { useEffect, useMemo, useState } from 'react'
 import Image from 'next/image'
 import { Icon } from '@iconify/react/dist/iconify.js'
+import { isAbortError } from '@/app/lib/api/client'
+import { DerivedViewHistoryItem, ViewHistoryAnomaly, ViewHistoryAnomalyReason } from '@/app/lib/api/types'
+import { fetchVideoViewHistory } from '@/app/lib/api/videos'
+import { ApiErrorNotice, isInvalidResponseError } from '@/app/components/Common/ApiErrorNotice'
+import { getPlatformProvider, PlatformId } from '@/app/lib/platforms'
+import { VIEW_HISTORY_ANOMALY_LABELS } from '@/app/lib/trends/view-anomalies'
+import { forecastViewTrajectory, ViewForecastReliability } from '@/app/lib/trends/view-forecast'
 
 interface Video {
     id: string
+    platform?: PlatformId
     title: string
     channelName: string
     channelId: string
@@ -21,6 +29,9 @@ interface Video {
     isShort: boolean
     trendingRank?: number
     trendingReason?: string
+    // 트렌드 영상 지표, 조회수 예측에 사용 (현재 기준 게시 후 경과 시간, 증가 집계 기간의 조회수 증가량)
+    ageHours?: number
+    viewVelocity?: number
 }
 
 interface VideoDetailModalProps {
@@ -28,13 +39,6 @@ interface VideoDetailModalProps {
     onClose: () => void
 }
 
-interface ViewHistoryItem {
-    snapshot_date: string // YYYY-MM-DD
-    view_count: number
-    like_count: number
-    comment_count: number
-}
-
 function formatNumber(num: number): string {
     if (num >= 1_000_000) return (num / 1_000_000).toFixed(1) + 'M'
     if (num >= 1_000) return (num / 1_000).toFixed(1) + 'K'
@@ -46,6 +50,10 @@ function formatChange(num: number): string {
     return sign + formatNumber(num)
 }
 
+function formatPercent(ratio: number): string {
+    return `${(ratio * 100).toFixed(Math.abs(ratio) < 0.1 ? 1 : 0)}%`
+}
+
 function timeAgo(dateString: string): string {
     const date = new Date(dateString)
     const now = new Date()
@@ -57,7 +65,32 @@ function timeAgo(dateString: string): string {
     return `${Math.floor(seconds / 604800)}주 전`
 }
 
-type ChartPoint = { time: string; count: number }
+// 구간별 누적값과 endpoint가 계산한 증가량(delta), 증가량 이동평균(average), 툴팁 보조 정보(detail), 이상 구간 사유(anomaly)
+// 예측 구간(forecast)은 delta가 예상 증가량, count가 예상 누적값이며 low~high는 증가량 범위입니다.
+type ChartPoint = {
+    time: string
+    count: number
+    delta: number | null
+    average: number | null
+    detail?: string
+    anomaly?: string
+    forecast?: { low: number; high: number }
+}
+
+const FORECAST_RELIABILITY_LABELS: Record<ViewForecastReliability, string> = {
+    high: '높음',
+    medium: '보통',
+    low: '낮음',
+}
+
+// 차트별로 표시할 이상 구간 사유 (수집 공백은 두 차트 모두)
+const VIEW_ANOMALY_REASONS: ViewHistoryAnomalyReason[] = ['view_spike', 'crawl_gap']
+const LIKE_ANOMALY_REASONS: ViewHistoryAnomalyReason[] = ['like_ratio_drop', 'crawl_gap']
+
+function anomalyLabel(anomaly: ViewHistoryAnomaly | undefined, reasons: ViewHistoryAnomalyReason[]): string | undefined {
+    const labels = anomaly?.reasons.filter((reason) => reasons.includes(reason)).map((reason) => VIEW_HISTORY_ANOMALY_LABELS[reason])
+    return labels?.length ? labels.join(' · ') : undefined
+}
 
 function DeltaBarChart({
     data,
@@ -96,20 +129,13 @@ function DeltaBarChart({
         )
     }
 
-    // Y축: 최소값 기준 차이(Δ) 스케일
-    const realMin = Math.min(...data.map((d) => d.count))
-    const realMax = Math.max(...data.map((d) => d.count))
-    const range = Math.max(realMax - realMin, 0)
-    const allSameValue = range === 0
-
-    const oldestCount = data[0]?.count ?? 0
-    const newestCount = data[data.length - 1]?.count ?? 0
-    const deltaCount = newestCount - oldestCount
-
-    const dataWithDelta = data.map((item) => ({
-        ...item,
-        delta: item.count - realMin,
-    }))
+    // Y축: 구간 증가량 스케일 (감소나 첫 구간처럼 증가량이 없으면 0 높이, 예측 범위는 스케일에 넣지 않음)
+    const dataWithDelta = data.map((item) => ({ ...item, delta: Math.max(item.delta ?? 0, 0) }))
+    const range = Math.max(...dataWithDelta.map((d) => Math.max(d.delta, d.average ?? 0)), 0)
+    const actual = data.filter((item) => !item.forecast)
+    const allSameValue = actual.every((d) => (d.delta ?? 0) <= 0)
+    const deltaCount = actual.reduce((sum, item) => sum + (item.delta ?? 0), 0)
+    const latestAverage = actual[actual.length - 1]?.average ?? null
 
     // X축: 10개 이하 => 화면에 모두, 10개 초과 => 가로 스크롤로 모두
     const isScrollable = dataWithDelta.length > 10
@@ -127,7 +153,7 @@ function DeltaBarChart({
                     <div className='h-full flex items-end gap-1'>
                         {dataWithDelta.map((item, i) => {
                             // Δ(차이값)이 0이면 막대는 0 높이로 표시
-                            // range=0(모두 동일)인 경우도 Δ는 전부 0이므로 0으로 처리
+                            // range=0(증가 없음)인 경우도 Δ는 전부 0이므로 0으로 처리
                             const heightPercent = item.delta === 0 ? 0 : range > 0 ? (item.delta / range) * 100 : 0
 
                             return (
@@ -136,8 +162,18 @@ function DeltaBarChart({
                                     className='h-full flex flex-col justify-end items-center group relative shrink-0'
                                     style={{ width: barWidthPx }}
                                 >
+                                    {item.anomaly && <Icon icon='mdi:alert-circle' className='text-orange-500 text-xs mb-0.5 shrink-0' />}
+                                    {item.forecast && range > 0 && (
+                                        <div
+                                            className='absolute left-1 right-1 bg-gray-300/40 rounded-sm pointer-events-none'
+                                            style={{
+                                                bottom: `${Math.min(item.forecast.low / range, 1) * 100}%`,
+                                                height: `${(Math.min(item.forecast.high / range, 1) - Math.min(item.forecast.low / range, 1)) * 100}%`,
+                                            }}
+                                        />
+                                    )}
                                     <div
-                                        className={`w-full rounded-t-md transition-all duration-200 ${colorClass} hover:brightness-110 cursor-pointer shadow-sm`}
+                                        className={`w-full rounded-t-md transition-all duration-200 ${item.forecast ? 'border-2 border-b-0 border-dashed border-gray-400 bg-transparent' : item.anomaly ? 'bg-orange-500' : colorClass} hover:brightness-110 cursor-pointer shadow-sm`}
                                         style={{
                                             height: `${heightPercent}%`,
                                             minHeight: item.delta === 0 ? '0px' : '4px',
@@ -147,12 +183,31 @@ function DeltaBarChart({
                                         <div className='absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block z-10 pointer-events-none'>
                                             <div className='bg-gray-900 text-white text-xs px-2 py-1 rounded whitespace-nowrap shadow-lg'>
                                                 {item.time}
+                                                {item.forecast && ' (예측)'}
                                                 <br />
                                                 <span className='font-semibold'>+{formatNumber(item.delta)}</span>
                                                 <span className='text-gray-300 text-[10px]'> (총 {formatNumber(item.count)})</span>
+                                                {item.detail && (
+                                                    <>
+                                                        <br />
+                                                        <span className='text-gray-300 text-[10px]'>{item.detail}</span>
+                                                    </>
+                                                )}
+                                                {item.anomaly && (
+                                                    <>
+                                                        <br />
+                                                        <span className='text-orange-300 text-[10px]'>{item.anomaly}</span>
+                                                    </>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
+                                    {item.average !== null && range > 0 && (
+                                        <div
+                                            className='absolute left-0 right-0 border-t-2 border-dashed border-gray-500/70 pointer-events-none'
+                                            style={{ bottom: `${(Math.max(item.average, 0) / range) * 100}%` }}
+                                        />
+                                    )}
                                 </div>
                             )
                         })}
@@ -170,8 +225,18 @@ function DeltaBarChart({
                                     className='h-full flex-1 flex flex-col justify-end items-center group relative'
                                     style={{ minWidth: 28 }}
                                 >
+                                    {item.anomaly && <Icon icon='mdi:alert-circle' className='text-orange-500 text-xs mb-0.5 shrink-0' />}
+                                    {item.forecast && range > 0 && (
+                                        <div
+                                            className='absolute left-1 right-1 bg-gray-300/40 rounded-sm pointer-events-none'
+                                            style={{
+                                                bottom: `${Math.min(item.forecast.low / range, 1) * 100}%`,
+                                                height: `${(Math.min(item.forecast.high / range, 1) - Math.min(item.forecast.low / range, 1)) * 100}%`,
+                                            }}
+                                        />
+                                    )}
                                     <div
-                                        className={`w-full rounded-t-md transition-all duration-200 ${colorClass} hover:brightness-110 cursor-pointer shadow-sm`}
+                                        className={`w-full rounded-t-md transition-all duration-200 ${item.forecast ? 'border-2 border-b-0 border-dashed border-gray-400 bg-transparent' : item.anomaly ? 'bg-orange-500' : colorClass} hover:brightness-110 cursor-pointer shadow-sm`}
                                         style={{
                                             height: `${heightPercent}%`,
                                             minHeight: item.delta === 0 ? '0px' : '4px',
@@ -180,12 +245,31 @@ function DeltaBarChart({
                                         <div className='absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block z-10 pointer-events-none'>
                                             <div className='bg-gray-900 text-white text-xs px-2 py-1 rounded whitespace-nowrap shadow-lg'>
                                                 {item.time}
+                                                {item.forecast && ' (예측)'}
                                                 <br />
                                                 <span className='font-semibold'>+{formatNumber(item.delta)}</span>
                                                 <span className='text-gray-300 text-[10px]'> (총 {formatNumber(item.count)})</span>
+                                                {item.detail && (
+                                                    <>
+                                                        <br />
+                                                        <span className='text-gray-300 text-[10px]'>{item.detail}</span>
+                                                    </>
+                                                )}
+                                                {item.anomaly && (
+                                                    <>
+                                                        <br />
+                                                        <span className='text-orange-300 text-[10px]'>{item.anomaly}</span>
+                                                    </>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
+                                    {item.average !== null && range > 0 && (
+                                        <div
+                                            className='absolute left-0 right-0 border-t-2 border-dashed border-gray-500/70 pointer-events-none'
+                                            style={{ bottom: `${(Math.max(item.average, 0) / range) * 100}%` }}
+                                        />
+                                    )}
                                 </div>
                             )
                         })}
@@ -226,14 +310,21 @@ function DeltaBarChart({
                     <span className='text-green-600 font-medium'>{formatChange(deltaCount)}</span>
                 )}
             </div>
-            <div className='mt-1 text-[11px] text-gray-400'>기준값(최소): {formatNumber(realMin)}</div>
+            <div className='mt-1 text-[11px] text-gray-400'>
+                점선: 증가량 이동평균
+                {latestAverage !== null && ` (최근 ${formatNumber(Math.round(latestAverage))})`}
+                {data.some((item) => item.anomaly) && ' · 주황색: 이상 구간'}
+                {data.some((item) => item.forecast) && ' · 점선 막대: 예측 (회색: 예측 범위)'}
+            </div>
         </div>
     )
 }
 
 export default function VideoDetailModal({ video, onClose }: VideoDetailModalProps) {
-    const [history, setHistory] = useState<ViewHistoryItem[]>([])
+    const [history, setHistory] = useState<DerivedViewHistoryItem[]>([])
+    const [anomalies, setAnomalies] = useState<ViewHistoryAnomaly[]>([])
     const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+    const [historyError, setHistoryError] = useState<unknown>(null)
 
     // Fetch view history when video changes
     useEffect(() => {
@@ -243,49 +334,24 @@ export default function VideoDetailModal({ video, onClose }: VideoDetailModalPro
 
         const fetchViewHistory = async () => {
             setIsLoadingHistory(true)
+            setHistoryError(null)
             try {
-                const apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL
-                if (!apiBaseUrl) {
-                    console.error('NEXT_PUBLIC_API_BASE_URL is not defined. Please set it in .env.local')
-                    setHistory([])
-                    return
-                }
-
-                const url = `${apiBaseUrl}/trends/videos/${video.id}/view_history?platform=youtube&limit=30`
-                const res = await fetch(url, {
-                    method: 'GET',
-                    headers: { 'Content-Type': 'application/json' },
-                    cache: 'no-store',
-                    signal: controller.signal,
-                })
-
-                if (!res.ok) {
-                    const errorText = await res.text().catch(() => '')
-                    console.error('Failed to fetch view history:', {
-                        status: res.status,
-                        statusText: res.statusText,
-                        error: errorText,
-                        url: res.url,
-                    })
-                    setHistory([])
-                    return
-                }
-
-                const data = await res.json()
-                const items: ViewHistoryItem[] = Array.isArray(data?.history) ? data.history : []
-
-                // Ensure sort: old -> new (latest at the end)
-                const sorted = items.slice().sort((a, b) => {
-                    const ta = new Date(a.snapshot_date).getTime()
-                    const tb = new Date(b.snapshot_date).getTime()
-                    return ta - tb
-                })
-                setHistory(sorted)
-            } catch (e: any) {
-                if (e?.name !== 'AbortError') console.error(e)
+                // 증가량, 성장률 등 파생 지표는 endpoint가 계산해 오래된 순으로 반환합니다.
+                const data = await fetchVideoViewHistory(
+                    video.id,
+                    { platform: getPlatformProvider(video.platform).id, limit: 30 },
+                    controller.signal
+                )
+                setHistory(data.history)
+                setAnomalies(data.anomalies ?? [])
+            } catch (e) {
+                if (isAbortError(e)) return
+                console.error('Failed to fetch view history:', e)
                 setHistory([])
+                setAnomalies([])
+                setHistoryError(e)
             } finally {
-                setIsLoadingHistory(false)
+                if (!controller.signal.aborted) setIsLoadingHistory(false)
             }
         }
 
@@ -312,22 +378,59 @@ export default function VideoDetailModal({ video, onClose }: VideoDetailModalPro
         }
     }, [video])
 
+    const anomalyByDate = useMemo(
+        () => new Map(anomalies.map((anomaly) => [anomaly.snapshot_date, anomaly])),
+        [anomalies]
+    )
+
+    // 앞으로 7일 조회수 예측 (경과 시간이 없으면 게시 시각으로 계산)
+    const forecast = useMemo(() => {
+        if (!video || !history.length) return null
+        const publishedAt = Date.parse(video.publishedAt)
+        const ageHours = video.ageHours ?? (Number.isNaN(publishedAt) ? null : (Date.now() - publishedAt) / 3_600_000)
+        return forecastViewTrajectory(history, { age_hours: ageHours, view_velocity: video.viewVelocity ?? null })
+    }, [video, history])
+
     const viewSeries: ChartPoint[] = useMemo(() => {
-        return history.map((item) => ({
+        const actual = history.map((item) => ({
             time: new Date(item.snapshot_date).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' }),
-            count: item.view_count ?? 0,
+            count: item.view_count,
+            delta: item.view_delta,
+            average: item.view_delta_avg,
+            detail: [
+                item.view_growth_rate !== null && `성장률 ${formatPercent(item.view_growth_rate)}`,
+                item.view_acceleration !== null && `가속도 ${formatChange(item.view_acceleration)}`,
+            ]
+                .filter(Boolean)
+                .join(' · '),
+            anomaly: anomalyLabel(anomalyByDate.get(item.snapshot_date), VIEW_ANOMALY_REASONS),
+        }))
+        const projected = (forecast?.points ?? []).map((point) => ({
+            time: new Date(point.date).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' }),
+            count: point.view_count,
+            delta: point.view_delta,
+            average: null,
+            detail: `범위 +${formatNumber(point.view_delta_low)} ~ +${formatNumber(point.view_delta_high)}`,
+            forecast: { low: point.view_delta_low, high: point.view_delta_high },
         }))
-    }, [history])
+        return [...actual, ...projected]
+    }, [history, anomalyByDate, forecast])
 
     const likeSeries: ChartPoint[] = useMemo(() => {
         return history.map((item) => ({
             time: new Date(item.snapshot_date).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' }),
-            count: item.like_count ?? 0,
+            count: item.like_count,
+            delta: item.like_delta,
+            average: item.like_delta_avg,
+            detail: item.like_view_ratio !== null ? `조회수 대비 ${formatPercent(item.like_view_ratio)}` : undefined,
+            anomaly: anomalyLabel(anomalyByDate.get(item.snapshot_date), LIKE_ANOMALY_REASONS),
         }))
-    }, [history])
+    }, [history, anomalyByDate])
 
     if (!video) return null
 
+    const provider = getPlatformProvider(video.platform)
+
     return (
         <div className='fixed inset-0 z-[100] flex items-center justify-center p-4' onClick={onClose}>
             <div className='absolute inset-0 bg-black/60 backdrop-blur-sm z-[-1]' />
@@ -391,20 +494,73 @@ export default function VideoDetailModal({ video, onClose }: VideoDetailModalPro
                         </div>
                     )}
 
+                    {isInvalidResponseError(historyError) && (
+                        <ApiErrorNotice error={historyError} className='mb-4' />
+                    )}
+
                     <div className='grid grid-cols-2 gap-4 mb-4'>
                         <DeltaBarChart data={viewSeries} label='조회수' colorClass='bg-blue-500' isLoading={isLoadingHistory} />
                         <DeltaBarChart data={likeSeries} label='좋아요' colorClass='bg-pink-500' isLoading={isLoadingHistory} />
                     </div>
 
+                    {/* 조회수 예측: 일별 증가량 감소 곡선 또는 현재 증가 속도 기준 */}
+                    {!isLoadingHistory && forecast && (
+                        <div className='bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4 text-sm'>
+                            <div className='flex justify-between gap-2'>
+                                <span className='font-medium text-gray-700'>{forecast.points.length}일 후 예상 조회수</span>
+                                <span className='font-semibold text-gray-900'>
+                                    {formatNumber(forecast.points[forecast.points.length - 1].view_count)}
+                                    <span className='text-xs text-gray-500 font-normal'>
+                                        {' '}({formatNumber(forecast.points[forecast.points.length - 1].view_count_low)} ~{' '}
+                                        {formatNumber(forecast.points[forecast.points.length - 1].view_count_high)})
+                                    </span>
+                                </span>
+                            </div>
+                            <p className='mt-1 text-xs text-gray-500'>
+                                예측 신뢰도 {FORECAST_RELIABILITY_LABELS[forecast.reliability]} ·{' '}
+                                {forecast.model === 'power_decay'
+                                    ? `최근 ${forecast.samples}일 증가량 감소 곡선 (설명력 R² ${forecast.r_squared})`
+                                    : '추이가 짧아 현재 일일 증가량이 경과일에 반비례해 줄어든다고 가정'}
+                                {' '}· 범위는 {Math.round(forecast.confidence * 100)}% 예측 구간
+                            </p>
+                        </div>
+                    )}
+
+                    {/* 이상 구간: 외부 공유, 알고리즘 추천 등으로 튄 날과 수집 공백 */}
+                    {!isLoadingHistory && anomalies.length > 0 && (
+                        <div className='bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4 text-sm'>
+                            <h4 className='font-medium text-orange-800 mb-2 flex items-center gap-1'>
+                                <Icon icon='mdi:alert-circle' />
+                                이상 구간 {anomalies.length}개
+                            </h4>
+                            <ul className='space-y-1 text-orange-700'>
+                                {anomalies.map((anomaly) => (
+                                    <li key={anomaly.snapshot_date} className='flex justify-between gap-2'>
+                                        <span>
+                                            {new Date(anomaly.snapshot_date).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' })}
+                                            {' '}
+                                            {anomaly.reasons.map((reason) => VIEW_HISTORY_ANOMALY_LABELS[reason]).join(' · ')}
+                                        </span>
+                                        {anomaly.view_delta_baseline !== null && (
+                                            <span className='text-orange-500 text-xs'>
+                                                평소 +{formatNumber(anomaly.view_delta_baseline)}
+                                            </span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     <div className='flex gap-3'>
                         <a
-                            href={`https://youtube.com/watch?v=${video.id}`}
+                            href={provider.getVideoUrl(video.id)}
                             target='_blank'
                             rel='noopener noreferrer'
                             className='flex-1 flex items-center justify-center gap-2 bg-red-500 text-white py-3 px-4 rounded-xl font-medium hover:bg-red-600 transition-colors'
                         >
-                            <Icon icon='mdi:youtube' />
-                            YouTube에서 보기
+                            <Icon icon={provider.icon} />
+                            {provider.name}에서 보기
                         </a>
                         <button
                             onClick={onClose}
@@ -3,10 +3,28 @@
 import { useMemo, useRef, useState, useEffect } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import PlatformTabs, { Platform } from './PlatformTabs'
-import CategoryTabs, { youtubeCategories } from './CategoryTabs'
+import CategoryTabs, { getPlatformCategories } from './CategoryTabs'
 import VideoCard, { Video } from './VideoCard'
 import VideoDetailModal from './VideoDetailModal'
+import SortSelect from './SortSelect'
+import ExportMenu from './ExportMenu'
 import { Icon } from '@iconify/react/dist/iconify.js'
+import { isAbortError } from '@/app/lib/api/client'
+import {
+    FetchTrendingVideosPageParams,
+    downloadSurgeTrendExport,
+    downloadTrendExport,
+    fetchMenuVideos,
+    fetchSurgeTrendPage,
+    fetchTrendingVideosPage,
+} from '@/app/lib/api/trends'
+import type { MenuVideo, SurgeFactor, SurgeTrendVideo, TrendExportFormat, TrendSortKey, TrendVideo } from '@/app/lib/api/types'
+import { DEFAULT_TREND_SORT, isTrendSortKey } from '@/app/lib/trends/sort'
+import { getCurrentAgeHours } from '@/app/lib/trends/items'
+import { TREND_REGION_INFO } from '@/app/lib/trends/region'
+import { DEFAULT_PLATFORM, getPlatformProvider, isPlatformId } from '@/app/lib/platforms'
+import { ApiErrorNotice, isInvalidResponseError } from '@/app/components/Common/ApiErrorNotice'
+import { useTrendRegion } from '@/contexts/TrendRegionContext'
 
 // YouTube 카테고리 ID → backend category_id (또는 동일 ID) 매핑
 // 현재는 카테고리 ID를 그대로 사용하므로 all만 별도로 두고 나머지는 그대로 비교합니다.
@@ -22,60 +40,86 @@ const CATEGORY_ID_MAP: Record<string, string> = {
     '28': '28',
 }
 
-// /trends/videos/surge 응답 타입 (필요 필드만 정의)
-interface SurgeVideoItem {
-    video_id: string
-    title: string
-    channel_id: string
-    channel_username?: string
-    platform: string
-    category?: string | null
-    category_id?: string | number | null
-    view_count: number
-    like_count: number
-    comment_count: number
-    published_at: string
-    thumbnail_url: string
-    crawled_at: string
-    surge_score?: number
-    trending_rank?: number
-    is_shorts?: boolean
-    // 성장 지표 필드
-    view_count_change?: number
-    like_count_change?: number
-    comment_count_change?: number
-    growth_rate_percentage?: number
+// 급등 점수 주요 요인 표시 문구
+const SURGE_FACTOR_LABELS: Record<SurgeFactor, string> = {
+    growth_factor: '조회수 증가율',
+    velocity_factor: '조회수 증가 속도',
+    popularity_factor: '높은 인기도',
+    freshness_factor: '최근 게시',
 }
 
+// 급등 점수 근거가 있으면 주요 요인과 기간 내 증가량으로 급등 이유를 설명
+const describeTrendReason = (item: TrendVideo | SurgeTrendVideo): string => {
+    if ('primary_factor' in item) {
+        const views = item.window_deltas.views
+        return `급등 점수 ${item.surge_score.toFixed(1)} - ${SURGE_FACTOR_LABELS[item.primary_factor]} 주도${
+            views > 0 ? ` (+${views.toLocaleString()}회)` : ''
+        }`
+    }
+    const growthRatePercentage = Math.round(item.growth_rate_window * 100)
+    return `급등 점수 ${item.surge_score.toFixed(1)}${
+        growthRatePercentage ? ` (${growthRatePercentage}% 증가)` : ''
+    } - 조회수 ${(item.view_count || 0).toLocaleString()}`
+}
+
+// 랭킹 페이지 조회: 급등 점수순은 점수 근거가 포함된 surge 랭킹, 나머지는 선택한 정렬 기준
+const fetchRankingPage = (sort: TrendSortKey, params: FetchTrendingVideosPageParams, signal?: AbortSignal) =>
+    sort === 'surge_score' ? fetchSurgeTrendPage(params, signal) : fetchTrendingVideosPage({ ...params, sort }, signal)
+
+// 랭킹 내보내기: 화면과 같은 랭킹(정렬 기준별 엔드포인트)의 전체 목록
+const downloadRankingExport = (sort: TrendSortKey, format: TrendExportFormat, params: FetchTrendingVideosPageParams) =>
+    sort === 'surge_score' ? downloadSurgeTrendExport(format, params) : downloadTrendExport(format, { ...params, sort })
+
+// 카테고리 탭이 트렌드 랭킹(category_id 필터)을 쓰는지 여부
+// YouTube 개별 카테고리는 /trends/menu 추천 목록, 그 외(전체 탭, fixture 플랫폼)는 랭킹 페이지
+const usesRankingPage = (platform: Platform, category: string) => category === 'all' || platform !== 'youtube'
+
+const rankingFilters = (category: string) => (category === 'all' ? undefined : { category_id: Number(category) })
+
 export default function TrendingVideos() {
     const searchParams = useSearchParams()
     const router = useRouter()
-
-    const [selectedPlatform, setSelectedPlatform] = useState<Platform>('youtube')
+    // 헤더에서 선택한 조회 지역 (URL의 region 파라미터)
+    const { region } = useTrendRegion()
+
+    // URL에서 플랫폼 읽어오기 (기본 youtube)
+    const [selectedPlatform, setSelectedPlatform] = useState<Platform>(() => {
+        const platform = searchParams.get('platform')
+        return isPlatformId(platform) ? platform : DEFAULT_PLATFORM
+    })
     // URL에서 카테고리 읽어오기 (뒤로가기 시 유지됨)
     const [selectedCategory, setSelectedCategory] = useState<string>(
         searchParams.get('category_id') || 'all'
     )
+    // 전체 탭 정렬 기준 (URL의 sort 파라미터, 기본 급등 점수순)
+    const [selectedSort, setSelectedSort] = useState<TrendSortKey>(() => {
+        const sort = searchParams.get('sort')
+        return isTrendSortKey(sort) ? sort : DEFAULT_TREND_SORT
+    })
     // 모달용 선택된 영상
     const [selectedVideo, setSelectedVideo] = useState<Video | null>(null)
 
-    // 급등 전체 데이터 (surge API 기반 Top 10)
-    const [globalTop8, setGlobalTop8] = useState<Video[]>([])
-    // 카테고리별 추천 영상 데이터
+    // 지역/플랫폼/카테고리별 첫 페이지 영상 (키: '{region}:{platform}:{category}')
+    // - 랭킹 탭: /api/trends/videos 첫 페이지
+    // - YouTube 개별 카테고리: /trends/menu 추천 영상
     const [categoryVideos, setCategoryVideos] = useState<Record<string, Video[]>>({})
     const [isLoading, setIsLoading] = useState(false)
-    const [error, setError] = useState<string | null>(null)
+    const [error, setError] = useState<unknown>(null)
 
-    // 더보기(추가분) 슬라이더 상태: 카테고리별로 관리 (all 포함)
+    // 더보기(추가분) 슬라이더 상태: 지역/플랫폼/카테고리별로 관리 (all 포함)
+    // - 랭킹 탭: 커서 기반으로 다음 페이지만 받아 이어 붙임
+    // - YouTube 개별 카테고리: limit을 늘려 다시 조회
     const [moreStateByCategory, setMoreStateByCategory] = useState<
-        Record<string, { limit: number; items: Video[]; hasMore: boolean }>
+        Record<string, { limit: number; items: Video[]; hasMore: boolean; cursor?: string | null }>
     >({})
     const [isLoadingMore, setIsLoadingMore] = useState(false)
 
     const sliderRef = useRef<HTMLDivElement | null>(null)
 
+    const listKey = `${region}:${selectedPlatform}:${selectedCategory}`
+    const isRankingTab = usesRankingPage(selectedPlatform, selectedCategory)
     const baseLimit = selectedCategory === 'all' ? 10 : 20
-    const moreState = moreStateByCategory[selectedCategory] ?? {
+    const moreState = moreStateByCategory[listKey] ?? {
         limit: baseLimit,
         items: [],
         hasMore: true,
@@ -90,36 +134,33 @@ export default function TrendingVideos() {
         el.scrollBy({ left: delta, behavior: 'smooth' })
     }
 
-    const mapSurgeItemsToVideos = (items: SurgeVideoItem[], take: number): Video[] => {
-        const sliced = items.slice(0, take)
-        return sliced.map((item, index) => ({
+    const mapTrendItemsToVideos = (items: (TrendVideo | SurgeTrendVideo)[]): Video[] =>
+        items.map((item) => ({
             id: item.video_id,
+            platform: getPlatformProvider(item.platform).id,
             title: item.title,
             channelName: item.channel_username || '',
             channelId: item.channel_id,
-            thumbnailUrl: item.thumbnail_url,
+            thumbnailUrl: item.thumbnail_url || getPlatformProvider(item.platform).getThumbnailUrl(item.video_id),
             viewCount: item.view_count,
-            viewCountChange: item.view_count_change || 0,
+            viewCountChange: item.delta_views_window || 0,
             likeCount: item.like_count ?? 0,
-            likeCountChange: item.like_count_change || 0,
-            publishedAt: item.published_at,
-            duration: '',
+            likeCountChange: item.like_count - item.like_count_prev,
+            publishedAt: item.published_at || new Date().toISOString(),
+            duration: item.duration || '',
             categoryId: String(item.category_id ?? item.category ?? 'uncategorized'),
             isShort: item.is_shorts || false,
-            trendingRank: item.trending_rank || index + 1,
-            trendingReason:
-                item.surge_score != null
-                    ? `급등 점수 ${item.surge_score.toFixed(1)}${
-                          item.growth_rate_percentage ? ` (${item.growth_rate_percentage}% 증가)` : ''
-                      } - 조회수 ${(item.view_count || 0).toLocaleString()}`
-                    : `조회수 ${(item.view_count || 0).toLocaleString()} - 최근 급등`,
+            trendingRank: item.trending_rank,
+            trendingReason: describeTrendReason(item),
+            ageHours: getCurrentAgeHours(item) ?? undefined,
+            viewVelocity: item.view_velocity,
         }))
-    }
 
-    const mapMenuItemsToVideos = (items: any[], mappedId: string, take: number): Video[] => {
+    const mapMenuItemsToVideos = (items: MenuVideo[], mappedId: string, take: number): Video[] => {
         const sliced = items.slice(0, take)
         return sliced.map((item, index) => ({
             id: item.video_id,
+            platform: 'youtube',
             title: item.title,
             channelName: item.channel_username || '',
             channelId: item.channel_id,
@@ -139,106 +180,91 @@ export default function TrendingVideos() {
         }))
     }
 
-    // 전체 급등 Top 10: /trends/videos/surge 기반 (전체 탭)
-    // 나머지 카테고리는 /trends/categories/{category}/recommendations 기반
+    // 랭킹 탭: /api/trends/videos 기반 (전체 탭, fixture 플랫폼 카테고리는 category_id 필터)
+    // YouTube 개별 카테고리는 /trends/menu 기반
     useEffect(() => {
         const controller = new AbortController()
+        const key = `${region}:${selectedPlatform}:${selectedCategory}`
 
         const fetchData = async () => {
             try {
                 setIsLoading(true)
                 setError(null)
 
-                if (selectedCategory === 'all') {
-                    // 급등 영상 전체 Top 10 조회
-                    const res = await fetch(
-                        `${process.env.NEXT_PUBLIC_API_BASE_URL}/trends/videos/surge?platform=youtube&limit=10&days=14&velocity_days=1`,
+                if (usesRankingPage(selectedPlatform, selectedCategory)) {
+                    // 랭킹 첫 페이지 조회
+                    const limit = selectedCategory === 'all' ? 10 : 20
+                    const page = await fetchRankingPage(
+                        selectedSort,
                         {
-                            method: 'GET',
-                            headers: {
-                                'Content-Type': 'application/json',
-                            },
-                            cache: 'no-store',
-                            signal: controller.signal,
-                        }
+                            platform: selectedPlatform,
+                            region,
+                            limit,
+                            days: 14,
+                            velocity_days: 1,
+                            filters: rankingFilters(selectedCategory),
+                        },
+                        controller.signal
                     )
 
-                    if (!res.ok) {
-                        throw new Error('급등 영상 데이터를 불러오지 못했습니다!')
-                    }
-
-                    const data = await res.json()
-                    const items: SurgeVideoItem[] = (data.items ?? []) as SurgeVideoItem[]
-
-                    // 백엔드에서 이미 정렬된 순서를 유지 (재정렬하지 않음)
-                    const sorted = [...items]
+                    setCategoryVideos((prev) => ({ ...prev, [key]: mapTrendItemsToVideos(page.items) }))
 
-                    const mapped: Video[] = mapSurgeItemsToVideos(sorted, 10)
-
-                    setGlobalTop8(mapped)
-
-                    // 카테고리 상태 초기화 (기존 더보기 상태가 없을 때만)
-                    setMoreStateByCategory((prev) => {
-                        if (prev.all) return prev
-                        return {
-                            ...prev,
-                            all: { limit: 10, items: [], hasMore: true },
-                        }
-                    })
+                    // 첫 페이지를 새로 받았으므로 더보기 커서도 새 랭킹 기준으로 초기화
+                    setMoreStateByCategory((prev) => ({
+                        ...prev,
+                        [key]: {
+                            limit,
+                            items: [],
+                            hasMore: page.meta.has_more,
+                            cursor: page.meta.next_cursor,
+                        },
+                    }))
                 } else {
                     // 개별 카테고리 추천 영상 조회
                     const mappedId = CATEGORY_ID_MAP[selectedCategory] ?? selectedCategory
 
-                    const res = await fetch(
-                        `${process.env.NEXT_PUBLIC_API_BASE_URL}/trends/menu?category_id=${encodeURIComponent(
-                            mappedId
-                        )}&limit=20&days=14&platform=youtube`,
-                        {
-                            method: 'GET',
-                            headers: {
-                                'Content-Type': 'application/json',
-                            },
-                            cache: 'no-store',
-                            signal: controller.signal,
-                        }
+                    const items = await fetchMenuVideos(
+                        { category_id: mappedId, limit: 20, days: 14, platform: selectedPlatform, region },
+                        controller.signal
                     )
 
-                    if (!res.ok) {
-                        throw new Error('카테고리 추천 영상을 불러오지 못했습니다.')
-                    }
-
-                    const data = await res.json()
-                    const items: any[] = data.items ?? []
-
                     const mapped: Video[] = mapMenuItemsToVideos(items, mappedId, 20)
 
                     setCategoryVideos((prev) => ({
                         ...prev,
-                        [selectedCategory]: mapped,
+                        [key]: mapped,
                     }))
 
                     // 카테고리 상태 초기화 (기존 더보기 상태가 없을 때만)
                     setMoreStateByCategory((prev) => {
-                        if (prev[selectedCategory]) return prev
+                        if (prev[key]) return prev
                         return {
                             ...prev,
-                            [selectedCategory]: { limit: 20, items: [], hasMore: true },
+                            [key]: { limit: 20, items: [], hasMore: true },
                         }
                     })
                 }
-            } catch (e: any) {
-                if (e?.name === 'AbortError') return
+            } catch (e) {
+                if (isAbortError(e)) return
                 console.error(e)
-                setError('급등/추천 영상 데이터를 불러오지 못했습니다.')
+                setError(e)
             } finally {
-                setIsLoading(false)
+                if (!controller.signal.aborted) setIsLoading(false)
             }
         }
 
         fetchData()
 
         return () => controller.abort()
-    }, [selectedCategory])
+    }, [region, selectedPlatform, selectedCategory, selectedSort])
+
+    // 공유한 링크가 같은 지역을 보여주도록 URL에 region이 없으면 현재 지역을 넣어둠
+    useEffect(() => {
+        if (searchParams.get('region')) return
+        const params = new URLSearchParams(searchParams.toString())
+        params.set('region', region)
+        router.replace(`/?${params.toString()}`, { scroll: false })
+    }, [region, searchParams, router])
 
     const handleLoadMore = async () => {
         if (isLoadingMore || !moreState.hasMore) return
@@ -247,55 +273,46 @@ export default function TrendingVideos() {
         try {
             const nextLimit = (moreState.limit ?? baseLimit) + baseLimit
 
-            if (selectedCategory === 'all') {
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_API_BASE_URL}/trends/videos/surge?platform=youtube&limit=${nextLimit}&days=14&velocity_days=1`,
-                    {
-                        method: 'GET',
-                        headers: { 'Content-Type': 'application/json' },
-                        cache: 'no-store',
-                    }
-                )
-                if (!res.ok) throw new Error('더보기(전체) 데이터를 불러오지 못했습니다.')
-
-                const data = await res.json()
-                const items: SurgeVideoItem[] = (data.items ?? []) as SurgeVideoItem[]
-
-                const mappedAll = mapSurgeItemsToVideos(items, nextLimit)
-                const extras = mappedAll.slice(baseLimit) // 추가분만
+            if (isRankingTab) {
+                if (!moreState.cursor) return
+
+                // 다음 페이지만 받아 기존 추가분 뒤에 이어 붙임
+                const page = await fetchRankingPage(selectedSort, {
+                    platform: selectedPlatform,
+                    region,
+                    limit: baseLimit,
+                    days: 14,
+                    velocity_days: 1,
+                    filters: rankingFilters(selectedCategory),
+                    cursor: moreState.cursor,
+                })
 
                 setMoreStateByCategory((prev) => ({
                     ...prev,
-                    all: {
+                    [listKey]: {
                         limit: nextLimit,
-                        items: extras,
-                        hasMore: (items?.length ?? 0) >= nextLimit,
+                        items: [...(prev[listKey]?.items ?? []), ...mapTrendItemsToVideos(page.items)],
+                        hasMore: page.meta.has_more,
+                        cursor: page.meta.next_cursor,
                     },
                 }))
             } else {
                 const mappedId = CATEGORY_ID_MAP[selectedCategory] ?? selectedCategory
 
-                const res = await fetch(
-                    `${process.env.NEXT_PUBLIC_API_BASE_URL}/trends/menu?category_id=${encodeURIComponent(
-                        mappedId
-                    )}&limit=${nextLimit}&days=14&platform=youtube`,
-                    {
-                        method: 'GET',
-                        headers: { 'Content-Type': 'application/json' },
-                        cache: 'no-store',
-                    }
-                )
-                if (!res.ok) throw new Error('더보기(카테고리) 데이터를 불러오지 못했습니다.')
-
-                const data = await res.json()
-                const items: any[] = data.items ?? []
+                const items = await fetchMenuVideos({
+                    category_id: mappedId,
+                    limit: nextLimit,
+                    days: 14,
+                    platform: selectedPlatform,
+                    region,
+                })
 
                 const mappedAll = mapMenuItemsToVideos(items, mappedId, nextLimit)
                 const extras = mappedAll.slice(baseLimit) // 추가분만
 
                 setMoreStateByCategory((prev) => ({
                     ...prev,
-                    [selectedCategory]: {
+                    [listKey]: {
                         limit: nextLimit,
                         items: extras,
                         hasMore: (items?.length ?? 0) >= nextLimit,
@@ -303,10 +320,17 @@ export default function TrendingVideos() {
                 }))
             }
 
-            // 슬라이더가 보이게 되면 살짝 앞으로 스크롤
+            // 랭킹 탭은 이어 붙인 첫 영상으로, 나머지는 슬라이더 앞으로 스크롤
+            const previousCount = isRankingTab ? extraVideos.length : 0
             setTimeout(() => {
                 const el = sliderRef.current
-                if (el) el.scrollTo({ left: 0, behavior: 'smooth' })
+                if (!el) return
+                const firstNewCard = el.children[previousCount]
+                if (previousCount > 0 && firstNewCard) {
+                    firstNewCard.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'start' })
+                } else {
+                    el.scrollTo({ left: 0, behavior: 'smooth' })
+                }
             }, 0)
         } catch (e) {
             console.error(e)
@@ -315,6 +339,21 @@ export default function TrendingVideos() {
         }
     }
 
+    // 플랫폼 변경 시 카테고리 체계가 달라지므로 전체 탭으로 돌아가고 URL 업데이트 (기본값이면 파라미터 제거)
+    const handlePlatformChange = (platform: Platform) => {
+        setSelectedPlatform(platform)
+        setSelectedCategory('all')
+        const params = new URLSearchParams(searchParams.toString())
+        params.delete('category_id')
+        if (platform === DEFAULT_PLATFORM) {
+            params.delete('platform')
+        } else {
+            params.set('platform', platform)
+        }
+        const queryString = params.toString()
+        router.replace(queryString ? `/?${queryString}` : '/', { scroll: false })
+    }
+
     // 카테고리 변경 시 URL 업데이트 (해시 없이)
     const handleCategoryChange = (categoryId: string) => {
         setSelectedCategory(categoryId)
@@ -328,17 +367,35 @@ export default function TrendingVideos() {
         router.replace(queryString ? `/?${queryString}` : '/', { scroll: false })
     }
 
+    // 현재 지역, 플랫폼, 정렬, 카테고리 필터가 적용된 랭킹 전체 내보내기
+    const handleExport = (format: TrendExportFormat) =>
+        downloadRankingExport(selectedSort, format, {
+            platform: selectedPlatform,
+            region,
+            days: 14,
+            velocity_days: 1,
+            filters: rankingFilters(selectedCategory),
+        })
+
+    // 정렬 변경 시 URL 업데이트 (기본값이면 파라미터 제거)
+    const handleSortChange = (sort: TrendSortKey) => {
+        setSelectedSort(sort)
+        const params = new URLSearchParams(searchParams.toString())
+        if (sort === DEFAULT_TREND_SORT) {
+            params.delete('sort')
+        } else {
+            params.set('sort', sort)
+        }
+        const queryString = params.toString()
+        router.replace(queryString ? `/?${queryString}` : '/', { scroll: false })
+    }
+
     // 영상 클릭 시 모달 열기
     const handleVideoClick = (video: Video) => {
         setSelectedVideo(video)
     }
 
-    // 카테고리별 필터링:
-    // - 전체: surge 기반 globalTop8
-    // - 개별 카테고리: recommendations 기반 categoryVideos[selectedCategory]
-    const filteredVideos = selectedCategory === 'all'
-        ? globalTop8
-        : categoryVideos[selectedCategory] || []
+    const filteredVideos = categoryVideos[listKey] || []
 
     const showLoadMore = !isLoading && !error && filteredVideos.length > 0 && moreState.hasMore
     const showExtraSlider = extraVideos.length > 0
@@ -353,23 +410,38 @@ export default function TrendingVideos() {
                             <Icon icon='mdi:fire' className='text-orange-500' />
                             지금 뜨는 영상
                         </h2>
-                        <p className='text-gray-500 mt-1'>최근 8시간 기준 급등 영상</p>
+                        <p className='text-gray-500 mt-1'>
+                            {TREND_REGION_INFO[region].flag} {TREND_REGION_INFO[region].name} · 최근 8시간 기준 급등 영상
+                        </p>
                     </div>
-                    <div className='flex items-center gap-2 text-sm text-gray-500'>
-                        <Icon icon='mdi:clock-outline' />
-                        <span>마지막 업데이트: 방금 전</span>
+                    <div className='flex items-center gap-4'>
+                        {isRankingTab && (
+                            <>
+                                <SortSelect
+                                    selectedSort={selectedSort}
+                                    onSortChange={handleSortChange}
+                                    disabled={isLoading}
+                                />
+                                <ExportMenu onExport={handleExport} disabled={isLoading || !!error} />
+                            </>
+                        )}
+                        <div className='flex items-center gap-2 text-sm text-gray-500'>
+                            <Icon icon='mdi:clock-outline' />
+                            <span>마지막 업데이트: 방금 전</span>
+                        </div>
                     </div>
                 </div>
 
                 {/* Platform Tabs */}
                 <PlatformTabs
                     selectedPlatform={selectedPlatform}
-                    onPlatformChange={setSelectedPlatform}
+                    onPlatformChange={handlePlatformChange}
+                    disabled={isLoading}
                 />
 
                 {/* Category Tabs */}
                 <CategoryTabs
-                    categories={youtubeCategories}
+                    categories={getPlatformCategories(selectedPlatform)}
                     selectedCategory={selectedCategory}
                     onCategoryChange={handleCategoryChange}
                 />
@@ -381,9 +453,11 @@ export default function TrendingVideos() {
                             <Icon icon='mdi:loading' className='text-5xl mx-auto mb-4 animate-spin' />
                             <p>지금 뜨는 영상을 불러오는 중입니다...</p>
                         </div>
+                    ) : isInvalidResponseError(error) ? (
+                        <ApiErrorNotice error={error} className='col-span-full' />
                     ) : error ? (
                         <div className='col-span-full text-center py-12 text-red-500'>
-                            <p>{error}</p>
+                            <p>급등/추천 영상 데이터를 불러오지 못했습니다.</p>
                         </div>
                     ) : filteredVideos.length > 0 ? (
                         filteredVideos.map((video) => (
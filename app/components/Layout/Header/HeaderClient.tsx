@@ -10,6 +10,7 @@ import { HeaderItem } from '@/types/menu'
 import { useAuth } from '@/contexts/AuthContext'
 import Link from 'next/link'
 import HeaderAuth from './HeaderAuth'
+import RegionSelect from './RegionSelect'
 
 // Duplicate interface removed as it's no longer needed here
 
@@ -87,6 +88,7 @@ const HeaderClient: React.FC<HeaderClientProps> = ({ headerData }) => {
                         )}
                     </nav>
                     <div className='flex items-center gap-4'>
+                        <RegionSelect className='hidden sm:flex' />
                         <HeaderAuth onSignInClick={() => setIsSignInOpen(true)} />
 
                         {isSignInOpen && (
@@ -147,6 +149,7 @@ const HeaderClient: React.FC<HeaderClientProps> = ({ headerData }) => {
                             <MobileHeaderLink key={index} item={item} />
                         ))}
                         <div className='mt-4 flex flex-col gap-4 w-full'>
+                            <RegionSelect className='sm:hidden' />
                             <button
                                 className='bg-primary text-white px-4 py-2 rounded-lg border  border-primary hover:text-primary hover:bg-transparent hover:cursor-pointer transition duration-300 ease-in-out'
                                 onClick={() => {
@@ -0,0 +1,33 @@
+'use client'
+
+import { Icon } from '@iconify/react/dist/iconify.js'
+import type { TrendRegion } from '@/app/lib/api/types'
+import { TREND_REGION_INFO, TREND_REGIONS } from '@/app/lib/trends/region'
+import { useTrendRegion } from '@/contexts/TrendRegionContext'
+
+interface RegionSelectProps {
+    className?: string
+}
+
+// 트렌드 조회 지역 선택 (모든 트렌드 목록에 적용되고 URL의 region 파라미터로 공유됨)
+export default function RegionSelect({ className = '' }: RegionSelectProps) {
+    const { region, setRegion } = useTrendRegion()
+
+    return (
+        <label className={`flex items-center gap-1.5 text-sm text-gray-600 ${className}`}>
+            <Icon icon='mdi:earth' className='text-lg' />
+            <span className='sr-only'>트렌드 지역</span>
+            <select
+                value={region}
+                onChange={(e) => setRegion(e.target.value as TrendRegion)}
+                className='rounded-lg border border-gray-200 bg-white px-2 py-1.5 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-primary/30'
+            >
+                {TREND_REGIONS.map((id) => (
+                    <option key={id} value={id}>
+                        {TREND_REGION_INFO[id].flag} {TREND_REGION_INFO[id].name}
+                    </option>
+                ))}
+            </select>
+        </label>
+    )
+}
@@ -5,6 +5,7 @@ import { ChatMessage } from '@/types/chat';
 import ChatContainer from './ChatContainer';
 import ChatInput from './ChatInput';
 import toast from 'react-hot-toast';
+import { apiRequest } from '@/app/lib/api/client';
 
 export default function AiChat() {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -32,22 +33,12 @@ export default function AiChat() {
     // ★ 욕설 필터 API 호출 함수
     const filterMessage = async (raw: string): Promise<string> => {
         try {
-            const apiUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
-            const res = await fetch(`${apiUrl}/filter`, {
+            const data = await apiRequest<{ filtered: string }>('/filter', {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ text: raw }),
+                body: { text: raw },
+                // 필터가 느리면 원문으로 진행하도록 짧게 제한합니다.
+                timeoutMs: 5_000,
             });
-
-            if (!res.ok) {
-                const errorText = await res.text();
-                console.error('Profanity filter failed:', res.status, errorText);
-                return raw;
-            }
-
-            const data = await res.json();
             console.log('filterMessage data:', data);
 
             // data.filtered 에 욕이 ** 로 치환된 문자열이 옴
@@ -1,12 +1,15 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useMemo } from 'react';
 import { Responsive, WidthProvider, Layout } from 'react-grid-layout'; // Layout 타입 임포트
 import 'react-grid-layout/css/styles.css';
 import 'react-resizable/css/styles.css';
-import TrendingVideosWidget from '@/app/components/Dashboard/Widgets/TrendingVideosWidget';
-import ChannelAnalysisWidget from '@/app/components/Dashboard/Widgets/ChannelAnalysisWidget';
-import VideoCompareWidget from '@/app/components/Dashboard/Widgets/VideoCompareWidget';
+import { Icon } from '@iconify/react';
+import { WIDGET_REGISTRY, applyWidgetSizeLimits, createDashboardWidget, getWidgetDefinition } from '@/app/components/Dashboard/registry';
+import type { WidgetDefinition } from '@/app/components/Dashboard/widget';
+import WidgetSettingsPanel from '@/app/components/Dashboard/WidgetSettingsPanel';
+import { normalizeWidgetConfig } from '@/app/lib/dashboard/widget-config';
+import type { DashboardWidget } from '@/app/lib/api/dashboard';
 import VideoDetailModal from '@/app/components/Home/TrendingVideos/VideoDetailModal';
 import { Video } from '@/app/components/Home/TrendingVideos/VideoCard';
 import { useCurrentUser } from '@/app/hooks/useCurrentUser';
@@ -15,11 +18,7 @@ import { useDashboardLayout } from '@/app/hooks/useDashboardLayout';
 const ResponsiveGridLayout = WidthProvider(Responsive);
 
 // --- 타입 정의 ---
-interface Widget {
-    i: string;
-    type: string;
-    name: string;
-}
+type Widget = DashboardWidget;
 
 // react-grid-layout의 Layout 타입을 그대로 사용해 빈 인터페이스 경고를 방지합니다.
 type LayoutItem = Layout;
@@ -31,54 +30,11 @@ const cols: Record<keyof typeof breakpoints, number> = { lg: 12, md: 10, sm: 6,
 type Breakpoint = keyof typeof breakpoints;
 type Layouts = Record<Breakpoint, LayoutItem[]>;
 
-interface WidgetTypeOption {
-    type: string;
-    name: string;
-    defaultW: number;
-    defaultH: number;
-}
-
-// --- 위젯 타입 정의 ---
-const WIDGET_TYPES: WidgetTypeOption[] = [
-    { type: 'trendingVideos', name: '급등 영상', defaultW: 6, defaultH: 4 },
-    { type: 'channelAnalysis', name: '내 채널 분석', defaultW: 6, defaultH: 4 },
-    { type: 'videoCompare', name: '동영상 비교', defaultW: 6, defaultH: 4 },
-    { type: 'hotKeywords', name: '지금 뜨는 키워드', defaultW: 6, defaultH: 2 },
-];
-
-const getInitialWidgets = (): Widget[] => [];
-
-const createEmptyLayouts = (): Layouts => ({
-    lg: [],
-    md: [],
-    sm: [],
-    xs: [],
-    xxs: [],
-});
-
-const generateLayouts = (initialWidgets: Widget[]): Layouts => {
-    const layouts: Layouts = createEmptyLayouts();
-    for (const breakpoint of Object.keys(breakpoints) as Breakpoint[]) {
-        layouts[breakpoint] = initialWidgets.map((widget, index) => {
-            const widgetType = WIDGET_TYPES.find(w => w.type === widget.type);
-            const w = widgetType?.defaultW || 4;
-            return {
-                i: widget.i,
-                x: (index * w) % (cols[breakpoint] || 12),
-                y: Infinity, // compactType: 'vertical'이 위치를 잡아줍니다.
-                w: w,
-                h: widgetType?.defaultH || 2,
-            } as LayoutItem;
-        });
-    }
-    return layouts;
-};
-
-
 const DashboardClient = () => {
     const [isEditMode, setIsEditMode] = useState(false);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
     const [detailVideo, setDetailVideo] = useState<Video | null>(null); // 비디오 상세 모달 상태
+    const [settingsWidgetId, setSettingsWidgetId] = useState<string | null>(null); // 설정 패널을 연 위젯
 
     // Application Layer: 사용자 정보 및 레이아웃 관리
     const { user, loading: userLoading } = useCurrentUser();
@@ -92,16 +48,37 @@ const DashboardClient = () => {
         setLayouts,
         saveLayout,
     } = useDashboardLayout(accountId);
+    // 수정 모드를 시작할 때의 위젯/레이아웃 (취소하면 이 상태로 되돌립니다)
+    const [editSnapshot, setEditSnapshot] = useState<{ widgets: DashboardWidget[]; layouts: typeof layouts } | null>(null);
 
     // 초기 위젯은 빈 배열로 시작 (사용자가 직접 추가)
 
+    // 저장된 레이아웃에는 크기 제한이 없으므로 위젯 정의의 최소/최대 크기를 붙여 그리드에 넘깁니다.
+    const gridLayouts = useMemo(() => {
+        const typeById = new Map(widgets.map(widget => [widget.i, widget.type]));
+        const constrained = {} as Layouts;
+        for (const breakpoint of Object.keys(layouts) as Breakpoint[]) {
+            constrained[breakpoint] = (layouts[breakpoint] || []).map(item => {
+                const type = typeById.get(item.i);
+                return applyWidgetSizeLimits(item, type ? getWidgetDefinition(type) : undefined, cols[breakpoint] ?? cols.lg);
+            });
+        }
+        return constrained;
+    }, [widgets, layouts]);
+
     const handleLayoutChange = (layout: LayoutItem[], allLayouts: Layouts) => { 
         if (isEditMode) setLayouts(allLayouts); 
     };
 
+    const handleStartEdit = () => {
+        setEditSnapshot({ widgets, layouts });
+        setIsEditMode(true);
+    };
+
     const handleSave = async () => {
         try {
             await saveLayout(widgets, layouts);
+            setEditSnapshot(null);
             setIsEditMode(false);
         } catch (error) {
             console.error('레이아웃 저장 실패:', error);
@@ -110,16 +87,19 @@ const DashboardClient = () => {
     };
 
     const handleCancel = () => {
-        // 수정 모드 취소 시 원래 레이아웃으로 복구
-        // saveLayout이 이미 최신 상태를 유지하고 있으므로
-        // 단순히 편집 모드만 해제
+        // 수정 모드 취소 시 추가/삭제, 배치, 설정 변경을 모두 시작 시점으로 복구
+        if (editSnapshot) {
+            setWidgets(editSnapshot.widgets);
+            setLayouts(editSnapshot.layouts);
+        }
+        setEditSnapshot(null);
+        setSettingsWidgetId(null);
         setIsEditMode(false);
-        // 필요하다면 window.location.reload()로 전체 리로드
     };
 
-    const handleAddItem = (widgetType: WidgetTypeOption) => {
+    const handleAddItem = (definition: WidgetDefinition) => {
         const newItemId = String(Date.now());
-        const newWidget: Widget = { i: newItemId, type: widgetType.type, name: widgetType.name };
+        const newWidget = createDashboardWidget(definition, newItemId);
         const updatedWidgets = [...widgets, newWidget];
         setWidgets(updatedWidgets);
 
@@ -127,9 +107,10 @@ const DashboardClient = () => {
         for (const breakpoint of Object.keys(breakpoints) as Breakpoint[]) {
             const currentLayout = newLayouts[breakpoint] || [];
             const nextY = currentLayout.length ? Math.max(...currentLayout.map(item => item.y + item.h)) : 0;
+            const { w, h } = definition.defaultSize;
             newLayouts[breakpoint] = [
                 ...currentLayout,
-                { i: newItemId, x: 0, y: nextY, w: widgetType.defaultW, h: widgetType.defaultH } as LayoutItem
+                applyWidgetSizeLimits({ i: newItemId, x: 0, y: nextY, w, h }, definition, cols[breakpoint])
             ];
         }
         setLayouts(newLayouts);
@@ -145,6 +126,12 @@ const DashboardClient = () => {
         setLayouts(newLayouts);
     };
 
+    // 적용한 설정은 위젯 목록에만 반영하고, 저장 버튼을 누를 때 레이아웃과 함께 저장합니다.
+    const handleApplySettings = (itemId: string, config: Record<string, unknown>) => {
+        setWidgets(widgets.map(w => (w.i === itemId ? { ...w, config } : w)));
+        setSettingsWidgetId(null);
+    };
+
     // --- 모달 핸들러 ---
     const handleVideoClick = (video: Video) => {
         setDetailVideo(video);
@@ -154,18 +141,24 @@ const DashboardClient = () => {
     };
     
     const renderWidgetContent = (widget: Widget) => {
-        switch (widget.type) {
-            case 'trendingVideos':
-                return <TrendingVideosWidget onVideoClick={handleVideoClick} />;
-            case 'channelAnalysis':
-                return <ChannelAnalysisWidget />;
-            case 'videoCompare':
-                return <VideoCompareWidget />;
-            default:
-                return <span className="text-xl font-bold text-gray-700 dark:text-gray-300">{widget.name}</span>;
+        const definition = getWidgetDefinition(widget.type);
+        // 등록되지 않은 종류(삭제된 위젯 등)는 이름만 보여줍니다.
+        if (!definition) {
+            return <span className="text-xl font-bold text-gray-700 dark:text-gray-300">{widget.name}</span>;
         }
+        const config = normalizeWidgetConfig(definition.configSchema, widget.config);
+        // 설정이 바뀌면 다시 마운트해 설정으로 초기화한 위젯 내부 상태(선택한 탭 등)를 맞춥니다.
+        return (
+            <Fragment key={JSON.stringify(config)}>
+                {definition.render({ config, onVideoClick: handleVideoClick })}
+            </Fragment>
+        );
     }
 
+    const settingsWidget = widgets.find(w => w.i === settingsWidgetId);
+    const settingsDefinition = settingsWidget && getWidgetDefinition(settingsWidget.type);
+    const hasSettings = (widget: Widget) => Object.keys(getWidgetDefinition(widget.type)?.configSchema ?? {}).length > 0;
+
     const widgetStyle = 'bg-white dark:bg-gray-800 rounded-lg shadow-md flex items-center justify-center relative overflow-hidden p-4';
 
     // 로딩 상태 표시
@@ -187,7 +180,7 @@ const DashboardClient = () => {
             {/* --- 컨트롤 버튼 --- */}
             <div className="mb-4 flex gap-2 justify-end">
                 {!isEditMode ? (
-                    <button onClick={() => setIsEditMode(true)} className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600">수정하기</button>
+                    <button onClick={handleStartEdit} className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600">수정하기</button>
                 ) : (
                     <>
                         <button
@@ -206,13 +199,20 @@ const DashboardClient = () => {
             {/* --- 위젯 추가 모달 --- */}
             {isAddModalOpen && (
                 <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center" onClick={() => setIsAddModalOpen(false)}>
-                    <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[75vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                    <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[75vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
                         <h3 className="text-lg font-bold mb-4">추가할 위젯 종류를 선택하세요</h3>
                         <div className="grid grid-cols-2 gap-4">
-                            {WIDGET_TYPES.map(widgetType => (
-                                <button key={widgetType.type} onClick={() => handleAddItem(widgetType)} className="flex flex-col items-center justify-center p-4 border rounded-lg hover:bg-gray-100 text-center">
-                                    <span className="mb-2 text-4xl">📊</span> {/* Placeholder for image */}
-                                    {widgetType.name}
+                            {WIDGET_REGISTRY.map(definition => (
+                                <button key={definition.type} onClick={() => handleAddItem(definition)} className="flex flex-col gap-2 p-4 border rounded-lg hover:bg-gray-100 text-left">
+                                    <div className="flex h-20 items-center justify-center rounded-md bg-gray-50 p-3">
+                                        <definition.Preview />
+                                    </div>
+                                    <span className="flex items-center gap-1.5 font-medium text-gray-900">
+                                        <Icon icon={definition.icon} className="text-primary" />
+                                        {definition.name}
+                                    </span>
+                                    <span className="text-xs text-gray-500">{definition.description}</span>
+                                    <span className="text-xs text-gray-400">기본 크기 {definition.defaultSize.w}×{definition.defaultSize.h}</span>
                                 </button>
                             ))}
                         </div>
@@ -220,11 +220,21 @@ const DashboardClient = () => {
                 </div>
             )}
             
+            {/* --- 위젯 설정 패널 --- */}
+            {settingsWidget && settingsDefinition && (
+                <WidgetSettingsPanel
+                    widget={settingsWidget}
+                    definition={settingsDefinition}
+                    onApply={(config) => handleApplySettings(settingsWidget.i, config)}
+                    onClose={() => setSettingsWidgetId(null)}
+                />
+            )}
+
             {/* --- 대시보드 그리드 --- */}
             {widgets.length > 0 ? (
                 <ResponsiveGridLayout
                     className="layout"
-                    layouts={layouts}
+                    layouts={gridLayouts}
                     onLayoutChange={handleLayoutChange}
                     breakpoints={breakpoints}
                     cols={cols}
@@ -252,6 +262,15 @@ const DashboardClient = () => {
                                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
                                 </button>
                             )}
+                            {isEditMode && hasSettings(widget) && (
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); setSettingsWidgetId(widget.i); }}
+                                    className="no-drag absolute top-2 right-10 p-1 bg-gray-600 text-white rounded-full hover:bg-gray-700 transition-colors z-10"
+                                    aria-label="Widget settings"
+                                >
+                                    <Icon icon="mdi:cog" className="w-4 h-4" />
+                                </button>
+                            )}
                         </div>
                     ))}
                 </ResponsiveGridLayout>
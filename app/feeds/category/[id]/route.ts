@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import { createTrendFeedHandler } from '@/app/lib/trends/handler'
+
+const handleFeed = createTrendFeedHandler({
+  backendPath: '/trends/videos',
+  logLabel: 'feeds/category',
+})
+
+// 카테고리별 급등 영상 피드 (/feeds/category/10.xml)
+// 동적 세그먼트에 확장자를 붙일 수 없으므로 [id]로 받아 '.xml'을 떼어 카테고리 ID로 사용합니다.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return handleFeed(request, { categoryPath: id })
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server'
+import { createTrendFeedHandler } from '@/app/lib/trends/handler'
+
+const handleFeed = createTrendFeedHandler({
+  backendPath: '/trends/videos',
+  logLabel: 'feeds/trending',
+})
+
+// 전체 급등 영상 피드 (format=atom|rss, 기본 atom)
+// /api/trends/videos 와 같은 조회 조건을 받습니다. 자세한 내용은 docs/TRENDS_API.md 참고
+export async function GET(request: NextRequest) {
+  return handleFeed(request)
+}
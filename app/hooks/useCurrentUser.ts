@@ -2,8 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import type { UserInfo } from '@/types/userInfo';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
+import { apiRequest } from '@/app/lib/api/client';
 
 /**
  * 현재 로그인한 사용자 정보를 가져오는 클라이언트 훅
@@ -13,20 +12,15 @@ export function useCurrentUser() {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     async function fetchUser() {
       try {
         // 세션 상태 확인
-        const statusRes = await fetch(`${API_BASE_URL}/authentication/status`, {
-          credentials: 'include',
-          cache: 'no-store',
-        });
-
-        if (!statusRes.ok) {
-          setUser(null);
-          return;
-        }
-
-        const statusResult = await statusRes.json();
+        const statusResult = await apiRequest<{ logged_in: boolean; user_id?: string }>(
+          '/authentication/status',
+          { credentials: 'include', signal: controller.signal }
+        );
 
         if (statusResult.logged_in === false) {
           setUser(null);
@@ -34,31 +28,23 @@ export function useCurrentUser() {
         }
 
         // 사용자 정보 가져오기
-        const userInfoRes = await fetch(
-          `${API_BASE_URL}/accounts/${statusResult.user_id}`,
-          {
-            credentials: 'include',
-            cache: 'no-store',
-          }
-        );
-
-        if (!userInfoRes.ok) {
-          setUser(null);
-          return;
-        }
-
-        const userInfo: UserInfo = await userInfoRes.json();
+        const userInfo = await apiRequest<UserInfo>(`/accounts/${statusResult.user_id}`, {
+          credentials: 'include',
+          signal: controller.signal,
+        });
         userInfo.logged_in = true;
         setUser(userInfo);
       } catch (error) {
+        if (controller.signal.aborted) return;
         console.error('사용자 정보 조회 실패:', error);
         setUser(null);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     }
 
     fetchUser();
+    return () => controller.abort();
   }, []);
 
   return { user, loading };
@@ -2,13 +2,10 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { fetchDashboardLayout, saveDashboardLayout } from '@/app/lib/api/dashboard';
+import type { DashboardWidget } from '@/app/lib/api/dashboard';
+import { normalizeDashboardWidget } from '@/app/components/Dashboard/registry';
 
-// 위젯 타입 정의
-interface Widget {
-  i: string;
-  type: string;
-  name: string;
-}
+type Widget = DashboardWidget;
 
 // react-grid-layout 타입
 type LayoutItem = any;
@@ -33,13 +30,13 @@ export function useDashboardLayout(accountId: string | null) {
         if (accountId) {
           // 로그인한 경우: API에서만 불러오기 (localStorage 무시)
           const data = await fetchDashboardLayout(accountId);
-          setWidgets(data.widgets || []);
+          setWidgets((data.widgets || []).map(normalizeDashboardWidget));
           setLayouts(data.layouts || {});
         } else {
           // 비로그인 상태: localStorage 사용
           const localData = loadFromLocalStorage();
           if (localData) {
-            setWidgets(localData.widgets);
+            setWidgets(localData.widgets.map(normalizeDashboardWidget));
             setLayouts(localData.layouts);
           } else {
             // localStorage에 데이터가 없으면 빈 배열로 시작
@@ -57,7 +54,7 @@ export function useDashboardLayout(accountId: string | null) {
           // 비로그인 상태: localStorage 폴백
           const localData = loadFromLocalStorage();
           if (localData) {
-            setWidgets(localData.widgets);
+            setWidgets(localData.widgets.map(normalizeDashboardWidget));
             setLayouts(localData.layouts);
           } else {
             setWidgets([]);
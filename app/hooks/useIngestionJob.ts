@@ -0,0 +1,54 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '@/app/lib/api/client';
+import { IngestionProgress, runIngestionJob } from '@/app/lib/api/ingestion';
+import type { VideoAnalysis } from '@/app/lib/api/types';
+import type { PlatformId } from '@/app/lib/platforms';
+
+/**
+ * 영상 수집 작업 진행 상태 관리 훅
+ * - 새 작업을 시작하면 이전 작업은 자동으로 취소
+ * - 컴포넌트 언마운트 시 진행 중인 작업 취소
+ */
+export function useIngestionJob() {
+  const [progress, setProgress] = useState<IngestionProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  // 작업 실행 (취소되면 null 반환, 실패 시 에러 throw)
+  const run = useCallback(async (videoId: string, platform?: PlatformId): Promise<VideoAnalysis | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      return await runIngestionJob(videoId, {
+        platform,
+        signal: controller.signal,
+        onProgress: (next) => {
+          if (!controller.signal.aborted) setProgress(next);
+        },
+      });
+    } catch (error) {
+      if (isAbortError(error)) return null;
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, []);
+
+  // 진행 중인 작업 취소
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const isRunning = progress !== null && progress.status !== 'done' && progress.status !== 'failed';
+
+  return { progress, isRunning, run, cancel };
+}
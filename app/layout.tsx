@@ -5,9 +5,11 @@ import Header from "./components/Layout/Header";
 import Footer from "./components/Layout/Footer";
 import ScrollToTop from "./components/ScrollToTop";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { TrendRegionProvider } from "@/contexts/TrendRegionContext";
 const font = Inter({ subsets: ["latin"] });
 
 import { getCurrentUser } from "./utils/server-auth";
+import { getPreferredTrendRegion } from "./utils/trend-region";
 
 export default async function RootLayout({
   children,
@@ -15,19 +17,22 @@ export default async function RootLayout({
   children: React.ReactNode;
 }>) {
   const user = await getCurrentUser();
+  const trendRegion = await getPreferredTrendRegion();
 
   return (
     <html lang="en" data-scroll-behavior="smooth" >
       <body className={`${font.className} `}>
         <AuthProvider initialUser={user}>
-          <Aoscompo>
-            <Header />
-            <main className="flex-1 w-full">
-              {children}
-            </main>
-            <Footer />
-          </Aoscompo>
-          <ScrollToTop />
+          <TrendRegionProvider initialRegion={trendRegion}>
+            <Aoscompo>
+              <Header />
+              <main className="flex-1 w-full">
+                {children}
+              </main>
+              <Footer />
+            </Aoscompo>
+            <ScrollToTop />
+          </TrendRegionProvider>
         </AuthProvider>
       </body>
     </html>
@@ -0,0 +1,51 @@
+// 채널 분석/추이 API 호출 함수
+
+import { ChannelData, ChannelHistoryResponse, ViewHistoryGranularity } from './types';
+import { apiRequest } from './client';
+import { channelDataDecoder, channelHistoryResponseDecoder } from './decoders';
+import { DEFAULT_PLATFORM, PlatformId } from '@/app/lib/platforms';
+
+/**
+ * 채널 개요와 최근 영상의 트렌드 대비 성과를 분석합니다.
+ * @param channelUrl - 정규화된 채널 URL (parseYouTubeChannel의 canonicalUrl)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 채널 성과 분석 데이터
+ */
+export async function analyzeChannel(channelUrl: string, signal?: AbortSignal): Promise<ChannelData> {
+  return apiRequest('/analysis/channel', {
+    method: 'POST',
+    body: { platform: 'youtube', channel_url: channelUrl },
+    signal,
+    // 채널 분석은 여러 영상을 수집하므로 타임아웃을 넉넉히 둡니다.
+    timeoutMs: 60_000,
+    decoder: channelDataDecoder,
+  });
+}
+
+/**
+ * 채널 영상들을 합산한 구간별 조회수 증가량, 수집 영상 수, 급등 영상 수, 참여율 중앙값을 가져옵니다.
+ * (Next.js /api/trends/channels/[channel_id]/history, 브라우저 전용)
+ * @param channelId - 채널 ID
+ * @param options.platform - 플랫폼 (기본 youtube)
+ * @param options.limit - 최대 구간 수 (기본 30)
+ * @param options.granularity - 구간 단위 (기본 day)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 오래된 순 구간별 채널 추이와 meta
+ */
+export async function fetchChannelHistory(
+  channelId: string,
+  options: { platform?: PlatformId; limit?: number; granularity?: ViewHistoryGranularity } = {},
+  signal?: AbortSignal
+): Promise<ChannelHistoryResponse> {
+  return apiRequest(`/api/trends/channels/${encodeURIComponent(channelId)}/history`, {
+    baseUrl: '',
+    query: {
+      platform: options.platform ?? DEFAULT_PLATFORM,
+      limit: options.limit,
+      granularity: options.granularity,
+    },
+    signal,
+    errorMessage: '채널 추이 조회 실패',
+    decoder: channelHistoryResponseDecoder,
+  });
+}
@@ -0,0 +1,312 @@
+// 백엔드 API 공통 클라이언트
+// - 모든 백엔드 호출은 이 모듈을 거쳐 NEXT_PUBLIC_API_BASE_URL로 전달됩니다.
+// - 요청별 타임아웃, AbortSignal 연동, 멱등 GET 재시도(지수 백오프), APIError 매핑을 일관되게 처리합니다.
+// - 서버에서 쿠키를 전달해야 하는 경우 ./server 의 serverApiRequest를 사용하세요.
+// - NEXT_PUBLIC_API_MOCK=true 이면 네트워크 대신 ./mock 의 fixture 응답을 사용합니다.
+// - baseUrl이 MOCK_API_BASE_URL인 요청(fixture 플랫폼)은 mock 모드와 관계없이 fixture 응답을 사용합니다.
+
+import { APIError } from './types';
+import { decode, Decoder } from './decoders';
+import { isMockApiEnabled, MOCK_API_BASE_URL } from './mock';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 3_000;
+
+// 일시적인 장애로 볼 수 있는 상태 코드만 재시도합니다.
+const RETRYABLE_STATUS = new Set([408, 429, 502, 503, 504]);
+
+export const NETWORK_ERROR_MESSAGE = '네트워크 오류가 발생했습니다. 인터넷 연결을 확인해주세요.';
+export const TIMEOUT_ERROR_MESSAGE = '서버 응답이 지연되고 있습니다. 잠시 후 다시 시도해주세요.';
+export const ABORTED_ERROR_MESSAGE = '요청이 취소되었습니다.';
+export const CONFIG_ERROR_MESSAGE = 'NEXT_PUBLIC_API_BASE_URL 환경 변수가 설정되어 있지 않습니다.';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface ApiRequestOptions<T = unknown> {
+  method?: HttpMethod;
+  query?: Record<string, QueryValue>;
+  // 일반 객체는 JSON으로 직렬화하고, FormData는 그대로 전송합니다.
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  // 요청별 타임아웃 (ms). 응답 헤더를 받을 때까지의 시간 기준입니다.
+  timeoutMs?: number;
+  // 재시도 횟수. GET 이외의 메서드는 지정하지 않으면 재시도하지 않습니다.
+  retries?: number;
+  credentials?: RequestCredentials;
+  cache?: RequestCache;
+  next?: { revalidate?: number | false; tags?: string[] };
+  // 백엔드가 detail을 주지 않을 때 사용할 실패 메시지
+  errorMessage?: string;
+  // 404 응답에 사용할 메시지 (지정 시 백엔드 detail보다 우선)
+  notFoundMessage?: string;
+  // 응답 본문 런타임 검증용 디코더 (apiRequest에서만 사용)
+  decoder?: Decoder<T>;
+  // 요청 기본 URL. 빈 문자열이면 같은 origin의 Next.js 라우트 핸들러(/api/...)를 호출합니다. (브라우저 전용)
+  baseUrl?: string;
+}
+
+/**
+ * 백엔드 API 기본 URL을 반환합니다.
+ * @returns 끝의 '/'가 제거된 기본 URL
+ */
+export function getApiBaseUrl(): string {
+  if (isMockApiEnabled()) return MOCK_API_BASE_URL;
+
+  const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
+  if (!baseUrl) {
+    throw new APIError(CONFIG_ERROR_MESSAGE, 0, undefined, 'CONFIG');
+  }
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * 백엔드 경로와 쿼리 파라미터로 요청 URL을 만듭니다.
+ * @param path - '/trends/videos' 형태의 백엔드 경로
+ * @param query - 쿼리 파라미터 (null/undefined 값은 제외)
+ * @param baseUrl - 기본 URL (생략 시 백엔드 기본 URL)
+ * @returns 완성된 요청 URL
+ */
+export function buildApiUrl(
+  path: string,
+  query?: Record<string, QueryValue>,
+  baseUrl: string = getApiBaseUrl()
+): string {
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+  const url = `${baseUrl}${normalizedPath}`;
+
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value === null || value === undefined || value === '') continue;
+    searchParams.set(key, String(value));
+  }
+
+  const queryString = searchParams.toString();
+  if (!queryString) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+}
+
+/**
+ * 요청이 호출 측에서 취소되었는지 확인합니다.
+ * @param error - catch 된 에러
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof APIError) return error.code === 'ABORTED';
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 백엔드에 요청을 보내고 성공(2xx) 응답 객체를 반환합니다.
+ * 스트리밍처럼 본문을 직접 다뤄야 하는 경우에 사용합니다.
+ * @param path - 백엔드 경로
+ * @param options - 요청 옵션
+ * @returns 2xx 응답
+ * @throws APIError
+ */
+export async function apiFetch(path: string, options: ApiRequestOptions = {}): Promise<Response> {
+  const method = options.method ?? 'GET';
+  const url = buildApiUrl(path, options.query, options.baseUrl);
+  const init = buildRequestInit(method, options);
+  const maxRetries = options.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, init, timeoutMs, options.signal);
+    } catch (error) {
+      const apiError = toTransportError(error);
+      if (apiError.code !== 'ABORTED' && attempt < maxRetries) {
+        await waitForRetry(attempt, options.signal);
+        continue;
+      }
+      throw apiError;
+    }
+
+    if (response.ok) return response;
+
+    if (RETRYABLE_STATUS.has(response.status) && attempt < maxRetries) {
+      // 재시도 전 본문을 소비해 커넥션을 반환합니다.
+      await response.body?.cancel().catch(() => undefined);
+      await waitForRetry(attempt, options.signal, parseRetryAfter(response));
+      continue;
+    }
+
+    throw await toHttpError(response, options);
+  }
+}
+
+/**
+ * 백엔드에 요청을 보내고 JSON 응답을 반환합니다.
+ * decoder를 지정하면 응답 구조를 검증하고, 실패 시 INVALID_RESPONSE 에러를 발생시킵니다.
+ * @param path - 백엔드 경로
+ * @param options - 요청 옵션
+ * @returns 파싱된 응답 본문 (본문이 없으면 undefined)
+ * @throws APIError
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions<T> = {}): Promise<T> {
+  const response = await apiFetch(path, options);
+
+  let text: string;
+  try {
+    text = await response.text();
+  } catch (error) {
+    throw toTransportError(error);
+  }
+
+  let data: unknown;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    throw new APIError(
+      '서버 응답을 해석할 수 없습니다.',
+      response.status,
+      text.substring(0, 200),
+      'PARSE'
+    );
+  }
+
+  if (options.decoder) return decode(options.decoder, data, response.status);
+  return data as T;
+}
+
+/**
+ * 지정한 시간만큼 기다립니다. signal이 취소되면 ABORTED 에러로 즉시 종료합니다.
+ * @param ms - 대기 시간 (ms)
+ * @param signal - 취소용 AbortSignal
+ * @throws APIError (code: ABORTED)
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new APIError(ABORTED_ERROR_MESSAGE, 0, undefined, 'ABORTED'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new APIError(ABORTED_ERROR_MESSAGE, 0, undefined, 'ABORTED'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function buildRequestInit(method: HttpMethod, options: ApiRequestOptions): RequestInit {
+  const headers: Record<string, string> = { ...options.headers };
+  let body: BodyInit | undefined;
+
+  if (options.body instanceof FormData) {
+    // FormData 사용 시 브라우저가 boundary를 포함한 Content-Type을 자동 설정합니다.
+    body = options.body;
+  } else if (options.body !== undefined) {
+    body = JSON.stringify(options.body);
+    headers['Content-Type'] = headers['Content-Type'] ?? 'application/json';
+  }
+
+  const init: RequestInit & { next?: ApiRequestOptions['next'] } = {
+    method,
+    headers,
+    body,
+    credentials: options.credentials,
+  };
+
+  // Next.js는 cache와 next.revalidate를 함께 지정하면 경고하므로 하나만 전달합니다.
+  if (options.next) {
+    init.next = options.next;
+  } else {
+    init.cache = options.cache ?? 'no-store';
+  }
+
+  return init;
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw new APIError(ABORTED_ERROR_MESSAGE, 0, undefined, 'ABORTED');
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    // 성공 시에도 abort 연결은 유지해 스트리밍 본문 읽기를 호출 측에서 취소할 수 있게 합니다.
+    if (url.startsWith(MOCK_API_BASE_URL)) {
+      // fixture 모듈은 mock 요청이 있을 때만 불러옵니다. (같은 origin의 라우트 핸들러 호출은 그대로 보냄)
+      const { mockFetch } = await import('./mock/handlers');
+      return await mockFetch(url, { ...init, signal: controller.signal });
+    }
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    signal?.removeEventListener('abort', onAbort);
+    if (timedOut) {
+      throw new APIError(TIMEOUT_ERROR_MESSAGE, 0, { timeoutMs }, 'TIMEOUT');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function toTransportError(error: unknown): APIError {
+  if (error instanceof APIError) return error;
+  if (isAbortError(error)) {
+    return new APIError(ABORTED_ERROR_MESSAGE, 0, undefined, 'ABORTED');
+  }
+  return new APIError(NETWORK_ERROR_MESSAGE, 0, error instanceof Error ? error.message : undefined, 'NETWORK');
+}
+
+async function toHttpError(response: Response, options: ApiRequestOptions): Promise<APIError> {
+  const text = await response.text().catch(() => '');
+  let errorData: Record<string, unknown> = {};
+  try {
+    errorData = text ? JSON.parse(text) : {};
+  } catch {
+    errorData = { raw: text.substring(0, 200) };
+  }
+
+  let message: string;
+  if (response.status === 404 && options.notFoundMessage) {
+    message = options.notFoundMessage;
+  } else if (typeof errorData?.detail === 'string') {
+    message = errorData.detail;
+  } else {
+    message = `${options.errorMessage ?? '요청에 실패했습니다.'} (status: ${response.status})`;
+  }
+
+  return new APIError(message, response.status, errorData, 'HTTP');
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function waitForRetry(attempt: number, signal?: AbortSignal, retryAfterMs?: number): Promise<void> {
+  // 지수 백오프 + 지터 (Retry-After가 있으면 우선)
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS;
+  return delay(Math.min(retryAfterMs ?? backoff + jitter, RETRY_MAX_DELAY_MS), signal);
+}
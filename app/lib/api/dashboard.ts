@@ -1,9 +1,18 @@
 // 대시보드 레이아웃 API 호출 함수
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
+import { apiRequest } from './client';
+import { APIError } from './types';
+
+// 대시보드에 배치된 위젯 인스턴스
+export interface DashboardWidget {
+  i: string;       // 레이아웃 항목 ID
+  type: string;    // 위젯 종류 ID (app/components/Dashboard/registry.ts)
+  name: string;
+  config?: Record<string, unknown>;  // 위젯 설정 (종류별 스키마로 정규화해 사용)
+}
 
 export interface DashboardLayoutData {
-  widgets: any[];  // 위젯 목록
+  widgets: DashboardWidget[];  // 위젯 목록
   layouts: any;    // react-grid-layout 레이아웃 데이터
 }
 
@@ -14,29 +23,20 @@ export interface DashboardLayoutData {
  */
 export async function fetchDashboardLayout(accountId: string): Promise<DashboardLayoutData> {
   try {
-    const response = await fetch(
-      `${API_BASE_URL}/accounts/${accountId}/dashboard-layout`,
+    const data = await apiRequest<DashboardLayoutData>(
+      `/accounts/${accountId}/dashboard-layout`,
       {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
         credentials: 'include',  // 쿠키 포함 (세션 인증)
         cache: 'no-store',  // 항상 최신 데이터 가져오기
+        errorMessage: '레이아웃 조회 실패',
       }
     );
-
-    if (!response.ok) {
-      // 404는 아직 저장된 레이아웃이 없는 경우
-      if (response.status === 404) {
-        return { widgets: [], layouts: {} };
-      }
-      throw new Error(`레이아웃 조회 실패: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
+    return data ?? { widgets: [], layouts: {} };
   } catch (error) {
+    // 404는 아직 저장된 레이아웃이 없는 경우
+    if (error instanceof APIError && error.statusCode === 404) {
+      return { widgets: [], layouts: {} };
+    }
     console.error('대시보드 레이아웃 조회 실패:', error);
     // 에러 발생 시 빈 레이아웃 반환
     return { widgets: [], layouts: {} };
@@ -51,31 +51,19 @@ export async function fetchDashboardLayout(accountId: string): Promise<Dashboard
  */
 export async function saveDashboardLayout(
   accountId: string,
-  widgets: any[],
+  widgets: DashboardWidget[],
   layouts: any
 ): Promise<void> {
   try {
-    const response = await fetch(
-      `${API_BASE_URL}/accounts/${accountId}/dashboard-layout`,
-      {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',  // 쿠키 포함 (세션 인증)
-        body: JSON.stringify({
-          widgets,
-          layouts,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.detail || `레이아웃 저장 실패: ${response.statusText}`
-      );
-    }
+    await apiRequest<void>(`/accounts/${accountId}/dashboard-layout`, {
+      method: 'PUT',
+      credentials: 'include',  // 쿠키 포함 (세션 인증)
+      body: {
+        widgets,
+        layouts,
+      },
+      errorMessage: '레이아웃 저장 실패',
+    });
   } catch (error) {
     console.error('대시보드 레이아웃 저장 실패:', error);
     throw error;
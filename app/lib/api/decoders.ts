@@ -0,0 +1,580 @@
+// 백엔드 응답 런타임 검증 (디코더)
+// TypeScript 인터페이스는 컴파일 시점에만 존재하므로, 백엔드 필드가 바뀌면 화면에서 NaN이 표시되거나
+// 런타임 오류가 발생합니다. 응답을 사용하기 전에 디코더로 구조를 검사하고,
+// 실패한 필드 목록을 담은 APIError('INVALID_RESPONSE')를 발생시킵니다.
+
+import {
+  APIError,
+  ChannelAnalytics,
+  ChannelData,
+  ChannelHistoryResponse,
+  CompareAnalysis,
+  MenuVideo,
+  MenuVideoResponse,
+  SurgeVideo,
+  SurgeTrendVideo,
+  SurgeTrendVideoPage,
+  SurgeVideoResponse,
+  TrendFilters,
+  TrendVideo,
+  TrendVideoPage,
+  TrendVideoPageMeta,
+  VideoAnalysis,
+  VideoDetail,
+  VideoViewHistory,
+  ViewHistoryBatchPoint,
+  ViewHistoryBatchResponse,
+  ViewHistoryMetrics,
+  ViewHistoryResponse,
+} from './types';
+
+export const INVALID_RESPONSE_MESSAGE = '서버 데이터 형식이 변경되어 화면을 표시할 수 없습니다.';
+
+// 실패한 필드 경로는 errors 배열에 누적되며, 디코더는 항상 대체값을 반환해 검사를 계속합니다.
+export type Decoder<T> = (input: unknown, path: string, errors: string[]) => T;
+
+type DecoderShape<T> = { [K in keyof T]-?: Decoder<T[K]> };
+
+function describe(input: unknown): string {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  if (typeof input === 'number' && !Number.isFinite(input)) return String(input);
+  return typeof input;
+}
+
+function fail<T>(errors: string[], path: string, expected: string, input: unknown, fallback: T): T {
+  errors.push(`${path || '(root)'}: ${expected} 필요, ${describe(input)} 수신`);
+  return fallback;
+}
+
+// --- 기본 디코더 ---
+
+export const str: Decoder<string> = (input, path, errors) =>
+  typeof input === 'string' ? input : fail(errors, path, 'string', input, '');
+
+// 숫자는 유한한 값만 허용합니다. (pg int8처럼 문자열로 직렬화된 숫자는 변환)
+export const num: Decoder<number> = (input, path, errors) => {
+  if (typeof input === 'number' && Number.isFinite(input)) return input;
+  if (typeof input === 'string' && input.trim() !== '' && Number.isFinite(Number(input))) {
+    return Number(input);
+  }
+  return fail(errors, path, 'number', input, 0);
+};
+
+export const bool: Decoder<boolean> = (input, path, errors) =>
+  typeof input === 'boolean' ? input : fail(errors, path, 'boolean', input, false);
+
+export function literal<T extends string>(...values: T[]): Decoder<T> {
+  return (input, path, errors) =>
+    typeof input === 'string' && (values as string[]).includes(input)
+      ? (input as T)
+      : fail(errors, path, values.join(' | '), input, values[0]);
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (input, path, errors) =>
+    input === null || input === undefined ? null : decoder(input, path, errors);
+}
+
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (input, path, errors) =>
+    input === null || input === undefined ? undefined : decoder(input, path, errors);
+}
+
+export function arrayOf<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (input, path, errors) => {
+    if (!Array.isArray(input)) return fail(errors, path, 'array', input, []);
+    return input.map((item, index) => decoder(item, `${path}[${index}]`, errors));
+  };
+}
+
+// 선언된 필드만 검사하고, 선언되지 않은 필드는 그대로 보존합니다. (백엔드 필드 추가에 관대)
+export function object<T>(shape: DecoderShape<T>): Decoder<T> {
+  return (input, path, errors) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return fail(errors, path, 'object', input, {} as T);
+    }
+    const record = input as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...record };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const value = shape[key](record[key], fieldPath, errors);
+      if (value !== undefined) result[key] = value;
+    }
+    return result as T;
+  };
+}
+
+/**
+ * 디코더로 응답을 검사하고 타입이 보장된 값을 반환합니다.
+ * @param decoder - 응답 디코더
+ * @param input - 파싱된 응답 본문
+ * @param statusCode - 응답 상태 코드 (에러 보고용)
+ * @returns 검증된 값
+ * @throws APIError (code: INVALID_RESPONSE, details.fields: 실패한 필드 목록)
+ */
+export function decode<T>(decoder: Decoder<T>, input: unknown, statusCode = 200): T {
+  const errors: string[] = [];
+  const value = decoder(input, '', errors);
+  if (errors.length > 0) {
+    throw new APIError(INVALID_RESPONSE_MESSAGE, statusCode, { fields: errors }, 'INVALID_RESPONSE');
+  }
+  return value;
+}
+
+/**
+ * INVALID_RESPONSE 에러에서 실패한 필드 목록을 꺼냅니다.
+ * @param error - catch 된 에러
+ * @returns 실패한 필드 목록 (해당 에러가 아니면 빈 배열)
+ */
+export function getInvalidFields(error: unknown): string[] {
+  if (!(error instanceof APIError) || error.code !== 'INVALID_RESPONSE') return [];
+  return Array.isArray(error.details?.fields) ? error.details.fields : [];
+}
+
+// --- 응답 타입별 디코더 ---
+
+const surgeComponentsDecoder = object<SurgeVideo['surge_components']>({
+  growth_factor: num,
+  velocity_factor: num,
+  popularity_factor: num,
+  freshness_factor: num,
+});
+
+export const surgeVideoDecoder: Decoder<SurgeVideo> = object<SurgeVideo>({
+  video_id: str,
+  title: str,
+  description: nullable(str),
+  tags: nullable(str),
+  category_id: nullable(num),
+  category: nullable(str),
+  duration: nullable(str),
+  channel_id: str,
+  channel_username: optional(str),
+  platform: str,
+
+  view_count: num,
+  view_count_prev: num,
+  view_velocity: num,
+
+  like_count: num,
+  like_count_prev: num,
+  like_velocity: num,
+  comment_count: num,
+  comment_count_prev: num,
+  comment_velocity: num,
+
+  total_score: num,
+  surge_score: num,
+  freshness_score: num,
+  freshness_score_with_bonus: num,
+
+  age_seconds: nullable(num),
+  age_minutes: nullable(num),
+  age_hours: nullable(num),
+  age_days: nullable(num),
+
+  delta_views_window: num,
+  growth_rate_window: num,
+
+  published_at: nullable(str),
+  thumbnail_url: nullable(str),
+  crawled_at: nullable(str),
+  is_shorts: nullable(bool),
+
+  surge_components: surgeComponentsDecoder,
+  trending_rank: optional(num),
+  freshness_bonus: optional(num),
+});
+
+export const surgeVideoResponseDecoder: Decoder<SurgeVideoResponse> = object<SurgeVideoResponse>({
+  items: arrayOf(surgeVideoDecoder),
+});
+
+const trendVideoShape: DecoderShape<TrendVideo> = {
+  video_id: str,
+  title: str,
+  channel_id: str,
+  channel_username: optional(str),
+  platform: str,
+  category: nullable(str),
+  category_id: nullable(num),
+  duration: nullable(str),
+  view_count: num,
+  like_count: num,
+  like_count_prev: num,
+  comment_count: num,
+  published_at: nullable(str),
+  thumbnail_url: nullable(str),
+  crawled_at: nullable(str),
+  is_shorts: nullable(bool),
+  surge_score: num,
+  total_score: num,
+  freshness_score: num,
+  delta_views_window: num,
+  growth_rate_window: num,
+  view_velocity: num,
+  like_velocity: num,
+  comment_velocity: num,
+  age_hours: nullable(num),
+  trending_rank: num,
+};
+
+export const trendVideoDecoder: Decoder<TrendVideo> = object<TrendVideo>(trendVideoShape);
+
+export const surgeTrendVideoDecoder: Decoder<SurgeTrendVideo> = object<SurgeTrendVideo>({
+  ...trendVideoShape,
+  surge_components: surgeComponentsDecoder,
+  window_deltas: object<SurgeTrendVideo['window_deltas']>({
+    views: num,
+    likes: num,
+    comments: num,
+    view_growth_rate: num,
+  }),
+  primary_factor: literal('growth_factor', 'velocity_factor', 'popularity_factor', 'freshness_factor'),
+});
+
+const trendVideoPageMetaDecoder = object<TrendVideoPageMeta>({
+  platform: str,
+  region: literal('kr', 'jp', 'us', 'global'),
+  sort: literal(
+    'surge_score',
+    'view_velocity',
+    'growth_rate_window',
+    'freshness_score',
+    'like_velocity',
+    'comment_velocity',
+    'total_score'
+  ),
+  filters: object<TrendFilters>({
+    is_shorts: optional(bool),
+    category_id: optional(num),
+    min_views: optional(num),
+    max_views: optional(num),
+    published_within_hours: optional(num),
+    channel_id: optional(str),
+    duration: optional(arrayOf(literal('short', 'medium', 'long'))),
+  }),
+  limit: num,
+  requested_limit: num,
+  days: num,
+  velocity_days: num,
+  next_cursor: nullable(str),
+  has_more: bool,
+  snapshot_at: nullable(str),
+  message: optional(str),
+});
+
+export const trendVideoPageDecoder: Decoder<TrendVideoPage> = object<TrendVideoPage>({
+  items: arrayOf(trendVideoDecoder),
+  meta: trendVideoPageMetaDecoder,
+});
+
+export const surgeTrendVideoPageDecoder: Decoder<SurgeTrendVideoPage> = object<SurgeTrendVideoPage>({
+  items: arrayOf(surgeTrendVideoDecoder),
+  meta: trendVideoPageMetaDecoder,
+});
+
+// category_id는 카테고리 탭 ID(문자열) 또는 YouTube 카테고리 번호로 내려옵니다.
+export const categoryIdDecoder: Decoder<string | number> = (input, path, errors) =>
+  typeof input === 'string' ? input : num(input, path, errors);
+
+export const menuVideoDecoder: Decoder<MenuVideo> = object<MenuVideo>({
+  video_id: str,
+  title: str,
+  channel_id: str,
+  channel_username: optional(str),
+  platform: optional(str),
+  category: nullable(str),
+  category_id: nullable(categoryIdDecoder),
+  view_count: num,
+  like_count: nullable(num),
+  comment_count: nullable(num),
+  published_at: str,
+  thumbnail_url: str,
+  is_shorts: nullable(bool),
+  view_count_change: optional(num),
+  like_count_change: optional(num),
+  growth_rate_percentage: optional(num),
+});
+
+export const menuVideoResponseDecoder: Decoder<MenuVideoResponse> = object<MenuVideoResponse>({
+  items: arrayOf(menuVideoDecoder),
+});
+
+export const videoAnalysisDecoder: Decoder<VideoAnalysis> = object<VideoAnalysis>({
+  video: object<VideoAnalysis['video']>({
+    video_id: str,
+    title: str,
+    channel_id: str,
+    platform: str,
+    view_count: num,
+    like_count: num,
+    comment_count: num,
+    category: nullable(str),
+    sentiment_label: nullable(str),
+    sentiment_score: nullable(num),
+    trend_score: nullable(num),
+    keywords: nullable(str),
+    summary: nullable(str),
+    analyzed_at: nullable(str),
+    engagement_score: nullable(num),
+    score_sentiment: nullable(num),
+    score_trend: nullable(num),
+    total_score: nullable(num),
+  }),
+  keywords: arrayOf(object<VideoAnalysis['keywords'][number]>({
+    keyword: str,
+    weight: num,
+    platform: str,
+    video_id: str,
+    channel_id: str,
+  })),
+  comment_sentiments: arrayOf(object<VideoAnalysis['comment_sentiments'][number]>({
+    comment_id: str,
+    video_id: str,
+    platform: str,
+    sentiment_label: str,
+    sentiment_score: num,
+    analyzed_at: str,
+  })),
+});
+
+export const videoViewHistoryDecoder: Decoder<VideoViewHistory> = object<VideoViewHistory>({
+  video_id: str,
+  platform: str,
+  history: arrayOf(object<VideoViewHistory['history'][number]>({
+    snapshot_date: str,
+    view_count: num,
+    like_count: nullable(num),
+    comment_count: nullable(num),
+  })),
+});
+
+const viewHistoryMetricsShape: DecoderShape<ViewHistoryMetrics> = {
+  view_delta: nullable(num),
+  like_delta: nullable(num),
+  comment_delta: nullable(num),
+  view_growth_rate: nullable(num),
+  like_view_ratio: nullable(num),
+  comment_view_ratio: nullable(num),
+  view_delta_avg: nullable(num),
+  like_delta_avg: nullable(num),
+  view_acceleration: nullable(num),
+};
+
+export const viewHistoryResponseDecoder: Decoder<ViewHistoryResponse> = object<ViewHistoryResponse>({
+  history: arrayOf(object<ViewHistoryResponse['history'][number]>({
+    snapshot_date: str,
+    bucket_start: optional(str),
+    view_count: num,
+    like_count: num,
+    comment_count: num,
+    ...viewHistoryMetricsShape,
+  })),
+  anomalies: optional(arrayOf(object<NonNullable<ViewHistoryResponse['anomalies']>[number]>({
+    snapshot_date: str,
+    bucket_start: optional(str),
+    reasons: arrayOf(literal('view_spike', 'crawl_gap', 'like_ratio_drop')),
+    view_delta_baseline: nullable(num),
+    view_delta_score: nullable(num),
+    like_rate_score: nullable(num),
+  }))),
+  meta: optional(object<NonNullable<ViewHistoryResponse['meta']>>({
+    video_id: nullable(str),
+    platform: str,
+    limit: num,
+    requested_limit: optional(num),
+    granularity: optional(literal('hour', 'day', 'week')),
+    time_zone: optional(str),
+    from: optional(nullable(str)),
+    to: optional(nullable(str)),
+    latest: optional(bool),
+    moving_average_window: optional(num),
+    anomaly_threshold: optional(num),
+    message: optional(str),
+  })),
+});
+
+export const viewHistoryBatchResponseDecoder: Decoder<ViewHistoryBatchResponse> = object<ViewHistoryBatchResponse>({
+  buckets: arrayOf(object<ViewHistoryBatchResponse['buckets'][number]>({
+    label: str,
+    bucket_start: optional(str),
+    hours_since_publish: optional(num),
+  })),
+  series: arrayOf(object<ViewHistoryBatchResponse['series'][number]>({
+    video_id: str,
+    published_at: nullable(str),
+    points: arrayOf(nullable(object<ViewHistoryBatchPoint>({
+      view_count: num,
+      like_count: num,
+      comment_count: num,
+      ...viewHistoryMetricsShape,
+    }))),
+  })),
+  meta: object<ViewHistoryBatchResponse['meta']>({
+    platform: str,
+    align: literal('calendar', 'publish'),
+    granularity: literal('hour', 'day', 'week'),
+    time_zone: str,
+    from: nullable(str),
+    to: nullable(str),
+    latest: bool,
+    limit: num,
+    requested_limit: num,
+    moving_average_window: num,
+    missing_video_ids: arrayOf(str),
+    message: optional(str),
+  }),
+});
+
+export const channelHistoryResponseDecoder: Decoder<ChannelHistoryResponse> = object<ChannelHistoryResponse>({
+  history: arrayOf(object<ChannelHistoryResponse['history'][number]>({
+    snapshot_date: str,
+    bucket_start: str,
+    views_gained: num,
+    videos_crawled: num,
+    surge_videos: num,
+    median_engagement: nullable(num),
+  })),
+  meta: object<ChannelHistoryResponse['meta']>({
+    channel_id: nullable(str),
+    platform: str,
+    granularity: literal('hour', 'day', 'week'),
+    time_zone: str,
+    from: nullable(str),
+    to: nullable(str),
+    latest: bool,
+    limit: num,
+    requested_limit: num,
+    surge_score_threshold: num,
+    message: optional(str),
+  }),
+});
+
+export const channelAnalyticsDecoder: Decoder<ChannelAnalytics> = object<ChannelAnalytics>({
+  channel_id: str,
+  channel_title: str,
+  subscriber_count: num,
+  recent_videos: arrayOf(object<ChannelAnalytics['recent_videos'][number]>({
+    video_id: str,
+    title: str,
+    view_count: num,
+    like_count: num,
+    comment_count: num,
+    published_at: str,
+    is_surge: bool,
+    surge_score: optional(num),
+  })),
+  avg_view_count: num,
+  avg_like_count: num,
+  surge_video_count: num,
+});
+
+export const channelDataDecoder: Decoder<ChannelData> = object<ChannelData>({
+  channelId: str,
+  channelName: str,
+  channelThumbnail: str,
+  subscriberCount: num,
+  totalVideos: num,
+  recentVideos: arrayOf(object<ChannelData['recentVideos'][number]>({
+    id: str,
+    title: str,
+    thumbnailUrl: str,
+    viewCount: num,
+    trendAvgViewCount: num,
+    publishedAt: str,
+    performance: literal('above', 'average', 'below'),
+  })),
+  overallPerformance: num,
+});
+
+const compareVideoCoreDecoder = object<CompareAnalysis['my_video']>({
+  id: str,
+  title: str,
+  channel_name: str,
+  thumbnail_url: str,
+  duration_sec: num,
+  format_label: str,
+  published_ago: str,
+});
+
+const hookProfileDecoder = object<CompareAnalysis['hook_comparison']['my']>({
+  opening_line: str,
+  visual_cue: str,
+  caption_style: str,
+  pacing: str,
+  hook_score: num,
+});
+
+const formatProfileDecoder = object<CompareAnalysis['format_comparison']['my']>({
+  duration_sec: num,
+  aspect_ratio: str,
+  cut_count: num,
+  text_density: str,
+  audio_style: str,
+});
+
+const reactionMetricsDecoder = object<CompareAnalysis['reaction_comparison']['my']>({
+  views: num,
+  likes: num,
+  comments: num,
+  like_rate: num,
+  completion_rate: num,
+  retention_3s: num,
+  share_rate: num,
+});
+
+export const compareAnalysisDecoder: Decoder<CompareAnalysis> = object<CompareAnalysis>({
+  my_video: compareVideoCoreDecoder,
+  trend_video: compareVideoCoreDecoder,
+  hook_comparison: object<CompareAnalysis['hook_comparison']>({
+    my: hookProfileDecoder,
+    trend: hookProfileDecoder,
+    takeaways: arrayOf(str),
+  }),
+  format_comparison: object<CompareAnalysis['format_comparison']>({
+    my: formatProfileDecoder,
+    trend: formatProfileDecoder,
+    differences: arrayOf(str),
+  }),
+  reaction_comparison: object<CompareAnalysis['reaction_comparison']>({
+    my: reactionMetricsDecoder,
+    trend: reactionMetricsDecoder,
+    insights: arrayOf(str),
+  }),
+  ai_summary: object<CompareAnalysis['ai_summary']>({
+    headline: str,
+    action_items: arrayOf(str),
+    next_experiment: str,
+  }),
+  trust_signals: arrayOf(str),
+});
+
+const historyPointDecoder = object<VideoDetail['viewHistory'][number]>({
+  time: str,
+  count: num,
+});
+
+export const videoDetailDecoder: Decoder<VideoDetail> = object<VideoDetail>({
+  id: str,
+  title: str,
+  description: str,
+  channelName: str,
+  channelId: str,
+  channelThumbnail: str,
+  thumbnailUrl: str,
+  viewCount: num,
+  likeCount: num,
+  commentCount: num,
+  publishedAt: str,
+  duration: str,
+  categoryId: str,
+  categoryName: str,
+  tags: arrayOf(str),
+  isShort: bool,
+  trendingRank: optional(num),
+  trendingReason: optional(str),
+  viewHistory: arrayOf(historyPointDecoder),
+  likeHistory: arrayOf(historyPointDecoder),
+});
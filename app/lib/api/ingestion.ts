@@ -0,0 +1,177 @@
+// 영상 수집(ingestion) 작업 추적
+// 수집 요청 후 분석 데이터가 준비될 때까지 백오프로 폴링하며 진행 상태를 알립니다.
+// 수집 API는 작업 상태를 돌려주지 않으므로 클라이언트가 직접 관찰할 수 있는 단계만 알립니다.
+// - queued: 수집 요청 전, 동시 수집 제한으로 앞선 작업의 수집 요청이 끝나기를 기다리는 중
+// - crawling: 백엔드가 영상 메타데이터/댓글을 수집 중 (수집 요청이 응답하기 전까지)
+// - analyzing: 수집 완료, 분석 결과 대기 중 (분석 조회가 404인 동안)
+// - done / failed: 완료 / 실패
+
+import { VideoAnalysis, APIError } from './types';
+import { ABORTED_ERROR_MESSAGE, delay, isAbortError } from './client';
+import { getVideoAnalysis, ingestVideo } from './videos';
+import type { PlatformId } from '@/app/lib/platforms';
+
+export type IngestionStatus = 'queued' | 'crawling' | 'analyzing' | 'done' | 'failed';
+
+export const INGESTION_STATUS_LABELS: Record<IngestionStatus, string> = {
+  queued: '대기 중',
+  crawling: '영상 수집 중',
+  analyzing: '분석 중',
+  done: '완료',
+  failed: '실패',
+};
+
+export const INGESTION_TIMEOUT_MESSAGE = '영상 분석이 제한 시간 내에 완료되지 않았습니다. 잠시 후 다시 시도해주세요.';
+
+export interface IngestionProgress {
+  videoId: string;
+  status: IngestionStatus;
+  // 분석 결과 조회 시도 횟수
+  attempt: number;
+  // 작업 시작 후 경과 시간 (ms)
+  elapsedMs: number;
+  error?: APIError;
+}
+
+export interface IngestionJobOptions {
+  // 영상 플랫폼 (기본 youtube)
+  platform?: PlatformId;
+  signal?: AbortSignal;
+  // 전체 작업 제한 시간 (ms)
+  timeoutMs?: number;
+  // 첫 폴링 간격과 최대 간격 (ms). 간격은 매 시도마다 두 배로 늘어납니다.
+  initialPollDelayMs?: number;
+  maxPollDelayMs?: number;
+  onProgress?: (progress: IngestionProgress) => void;
+}
+
+const DEFAULT_JOB_TIMEOUT_MS = 120_000;
+const DEFAULT_INITIAL_POLL_DELAY_MS = 1_000;
+const DEFAULT_MAX_POLL_DELAY_MS = 8_000;
+
+// 동시에 보낼 수 있는 수집 요청 수 (크롤링은 백엔드 부담이 커서 한 번에 하나씩 보냅니다)
+const MAX_CONCURRENT_INGESTIONS = 1;
+
+let activeIngestions = 0;
+const ingestionWaiters: (() => void)[] = [];
+
+/**
+ * 수집 요청 슬롯을 얻을 때까지 기다립니다.
+ * @returns 슬롯 반환 함수 (대기 중인 다음 작업에 슬롯을 넘깁니다)
+ * @throws APIError (대기 중 취소 시 ABORTED)
+ */
+function acquireIngestionSlot(signal?: AbortSignal): Promise<() => void> {
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    const next = ingestionWaiters.shift();
+    if (next) next();
+    else activeIngestions--;
+  };
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new APIError(ABORTED_ERROR_MESSAGE, 0, undefined, 'ABORTED'));
+      return;
+    }
+    if (activeIngestions < MAX_CONCURRENT_INGESTIONS) {
+      activeIngestions++;
+      resolve(release);
+      return;
+    }
+    const onAbort = () => {
+      ingestionWaiters.splice(ingestionWaiters.indexOf(grant), 1);
+      reject(new APIError(ABORTED_ERROR_MESSAGE, 0, undefined, 'ABORTED'));
+    };
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(release);
+    };
+    ingestionWaiters.push(grant);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 영상을 수집하고 분석 데이터가 준비될 때까지 기다립니다.
+ * @param videoId - 플랫폼 영상 ID
+ * @param options - 플랫폼, 취소 signal, 제한 시간, 폴링 간격, 진행 상태 콜백
+ * @returns 영상 분석 데이터
+ * @throws APIError (취소 시 ABORTED, 제한 시간 초과 시 TIMEOUT)
+ */
+export async function runIngestionJob(videoId: string, options: IngestionJobOptions = {}): Promise<VideoAnalysis> {
+  const {
+    platform,
+    signal,
+    timeoutMs = DEFAULT_JOB_TIMEOUT_MS,
+    initialPollDelayMs = DEFAULT_INITIAL_POLL_DELAY_MS,
+    maxPollDelayMs = DEFAULT_MAX_POLL_DELAY_MS,
+    onProgress,
+  } = options;
+  const startedAt = Date.now();
+  let attempt = 0;
+
+  const report = (status: IngestionStatus, error?: APIError) =>
+    onProgress?.({ videoId, status, attempt, elapsedMs: Date.now() - startedAt, error });
+
+  try {
+    report('queued');
+    const releaseSlot = await acquireIngestionSlot(signal);
+    try {
+      report('crawling');
+      await ingestVideo(videoId, signal, { platform });
+    } finally {
+      releaseSlot();
+    }
+
+    report('analyzing');
+    let pollDelay = initialPollDelayMs;
+    while (true) {
+      attempt++;
+      try {
+        const analysis = await getVideoAnalysis(videoId, signal, { fresh: true, platform });
+        report('done');
+        return analysis;
+      } catch (error) {
+        // 404는 아직 분석이 끝나지 않은 상태이므로 계속 폴링합니다.
+        if (!(error instanceof APIError && error.statusCode === 404)) throw error;
+      }
+
+      const remainingMs = timeoutMs - (Date.now() - startedAt);
+      if (remainingMs <= 0) {
+        throw new APIError(INGESTION_TIMEOUT_MESSAGE, 0, { videoId, timeoutMs, attempt }, 'TIMEOUT');
+      }
+
+      report('analyzing');
+      const jitter = Math.random() * pollDelay * 0.2;
+      await delay(Math.min(pollDelay + jitter, remainingMs), signal);
+      pollDelay = Math.min(pollDelay * 2, maxPollDelayMs);
+    }
+  } catch (error) {
+    // 사용자가 취소한 경우는 실패로 알리지 않습니다.
+    if (isAbortError(error)) throw error;
+
+    const apiError =
+      error instanceof APIError
+        ? error
+        : new APIError(error instanceof Error ? error.message : '영상 분석에 실패했습니다.', 0);
+    report('failed', apiError);
+    throw apiError;
+  }
+}
+
+/**
+ * 영상을 수집하고 분석 데이터를 가져옵니다. (편의 함수)
+ * @param videoId - YouTube 영상 ID
+ * @param signal - 요청 취소용 AbortSignal
+ * @param onProgress - 진행 상태 콜백
+ * @returns 영상 분석 데이터
+ */
+export async function ingestAndGetAnalysis(
+  videoId: string,
+  signal?: AbortSignal,
+  onProgress?: (progress: IngestionProgress) => void
+): Promise<VideoAnalysis> {
+  return runIngestionJob(videoId, { signal, onProgress });
+}
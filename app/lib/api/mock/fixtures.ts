@@ -0,0 +1,753 @@
+// Mock 모드 fixture 데이터
+// 네트워크 없이 화면을 개발/시연할 수 있도록 실제 백엔드 응답과 같은 구조의 데이터를 만듭니다.
+// 같은 입력(video_id 등)에는 항상 같은 값이 나오도록 시드 기반 난수를 사용합니다.
+
+import type { HotTrendType } from '@/types/hotTrend';
+import type { InterestType } from '@/types/interestType';
+import type { UserInfo } from '@/types/userInfo';
+import {
+  ChannelData,
+  CompareAnalysis,
+  MenuVideo,
+  SurgeVideo,
+  VideoAnalysis,
+  VideoDetail,
+  VideoViewHistory,
+  ViewHistoryAlignment,
+  ViewHistoryItem,
+} from '../types';
+import { getPlatformProvider, PlatformId } from '@/app/lib/platforms';
+import { instagramProvider, InstagramMediaRecord } from '@/app/lib/platforms/instagram';
+import { tiktokProvider, TikTokVideoRecord } from '@/app/lib/platforms/tiktok';
+import type { ViewHistoryBucket } from '@/app/lib/trends/view-history';
+import type { ViewHistoryAxisBucket, ViewHistorySnapshotRow } from '@/app/lib/trends/view-history-batch';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MOCK_USER_ID = 'mock-user-0001';
+export const MOCK_VIDEO_COUNT = 48;
+// Instagram / TikTok fixture 영상 수 (플랫폼별)
+export const MOCK_PLATFORM_VIDEO_COUNT = 36;
+
+// YouTube 카테고리 ID ↔ AI 분석 카테고리
+export const MOCK_CATEGORIES: { id: number; category: string; tags: string[] }[] = [
+  { id: 10, category: 'music', tags: ['kpop', '아이돌', '커버', '라이브'] },
+  { id: 20, category: 'gaming', tags: ['롤', '발로란트', '공략', '스트리머'] },
+  { id: 24, category: 'entertainment', tags: ['예능', '밈', '챌린지', '리액션'] },
+  { id: 17, category: 'sports', tags: ['축구', '야구', '하이라이트', '운동'] },
+  { id: 25, category: 'news', tags: ['시사', '경제', '속보', '정치'] },
+  { id: 22, category: 'vlog', tags: ['일상', '브이로그', '여행', '먹방'] },
+  { id: 26, category: 'howto', tags: ['요리', '뷰티', '꿀팁', 'DIY'] },
+  { id: 28, category: 'tech', tags: ['AI', '스마트폰', '리뷰', '개발'] },
+];
+
+const TITLE_TEMPLATES: Record<string, string[]> = {
+  music: ['신곡 무대 최초 공개 직캠', '라이브 클립 원테이크 커버', '음방 1위 앵콜 풀캠', '연습실 안무 영상'],
+  gaming: ['역대급 역전승 하이라이트', '신규 패치 티어 정리', '랭크 1000점 올리는 공략', '스트리머 레전드 장면 모음'],
+  entertainment: ['요즘 유행하는 챌린지 해봤다', '레전드 예능 클립 모음', '밈으로 보는 이번 주 이슈', '몰래카메라 리액션'],
+  sports: ['결승골 하이라이트', '오늘 경기 명장면 TOP5', '홈트 10분 루틴', '선수 인터뷰 풀버전'],
+  news: ['3분 만에 보는 오늘의 경제', '이번 주 주요 뉴스 정리', '금리 발표 핵심 요약', '현장 연결 속보'],
+  vlog: ['퇴근 후 일상 브이로그', '도쿄 3박 4일 여행기', '자취생 일주일 식비 챌린지', '새벽 카페 투어'],
+  howto: ['10분 완성 초간단 레시피', '겨울 데일리 메이크업', '자취방 수납 꿀팁', '초보도 가능한 DIY 선반'],
+  tech: ['신형 스마트폰 언박싱 리뷰', 'AI로 업무 자동화하는 법', '개발자 책상 셋업 투어', '가성비 노트북 비교'],
+};
+
+const CHANNEL_NAMES = [
+  'trendix_kr', 'daily_pick', 'gamezone', 'musicbox_live', 'newsbite', 'cookinglab',
+  'techreview_kr', 'sportsclip', 'vlog_seoul', 'funnyshorts', 'hanriver_tv', 'studio_moon',
+];
+
+// 문자열 시드 → 결정적 난수 생성기 (mulberry32)
+function hashSeed(seed: string): number {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  return hash >>> 0;
+}
+
+export function createRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function makeVideoId(index: number): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  const random = createRandom(`video-${index}`);
+  let id = '';
+  for (let i = 0; i < 11; i++) id += alphabet[Math.floor(random() * alphabet.length)];
+  return id;
+}
+
+function thumbnailFor(videoId: string): string {
+  return `https://picsum.photos/seed/${videoId}/480/270`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `PT${minutes ? `${minutes}M` : ''}${rest}S`;
+}
+
+// --- 급등 영상 ---
+
+function buildSurgeVideo(index: number, now: number): SurgeVideo {
+  const random = createRandom(`surge-${index}`);
+  const category = MOCK_CATEGORIES[index % MOCK_CATEGORIES.length];
+  const videoId = makeVideoId(index);
+  const channel = pick(random, CHANNEL_NAMES);
+  const isShorts = random() < 0.55;
+  const durationSec = isShorts ? 15 + Math.floor(random() * 45) : 180 + Math.floor(random() * 1500);
+
+  const ageHours = round(2 + random() * 24 * 13, 1);
+  const publishedAt = new Date(now - ageHours * HOUR_MS);
+  const viewCount = Math.floor(5_000 + random() ** 2 * 3_000_000);
+  const growthRate = round(0.05 + random() * 1.8, 4);
+  const viewCountPrev = Math.floor(viewCount / (1 + growthRate));
+  const likeCount = Math.floor(viewCount * (0.01 + random() * 0.05));
+  const likeCountPrev = Math.floor(likeCount / (1 + growthRate * 0.8));
+  const commentCount = Math.floor(likeCount * (0.02 + random() * 0.08));
+  const commentCountPrev = Math.floor(commentCount / (1 + growthRate * 0.6));
+
+  const components = {
+    growth_factor: round(Math.min(1, growthRate / 1.5), 4),
+    velocity_factor: round(random(), 4),
+    popularity_factor: round(Math.log10(viewCount) / 7, 4),
+    freshness_factor: round(Math.max(0, 1 - ageHours / (24 * 14)), 4),
+  };
+  const surgeScore = round(
+    (components.growth_factor * 0.4 +
+      components.velocity_factor * 0.3 +
+      components.popularity_factor * 0.2 +
+      components.freshness_factor * 0.1) *
+      100,
+    2
+  );
+  const freshnessScore = components.freshness_factor;
+  const freshnessBonus = ageHours < 24 ? 0.1 : 0;
+
+  return {
+    video_id: videoId,
+    title: `${pick(random, TITLE_TEMPLATES[category.category])} #${index + 1}`,
+    description: `${category.category} 카테고리 mock 영상입니다.`,
+    tags: category.tags.join(','),
+    category_id: category.id,
+    category: category.category,
+    duration: formatDuration(durationSec),
+    channel_id: `UC${makeVideoId(1000 + CHANNEL_NAMES.indexOf(channel))}mock${CHANNEL_NAMES.indexOf(channel)}`,
+    channel_username: `@${channel}`,
+    platform: 'youtube',
+
+    view_count: viewCount,
+    view_count_prev: viewCountPrev,
+    view_velocity: viewCount - viewCountPrev,
+
+    like_count: likeCount,
+    like_count_prev: likeCountPrev,
+    like_velocity: likeCount - likeCountPrev,
+    comment_count: commentCount,
+    comment_count_prev: commentCountPrev,
+    comment_velocity: commentCount - commentCountPrev,
+
+    total_score: round(surgeScore * 0.8 + random() * 20, 2),
+    surge_score: surgeScore,
+    freshness_score: freshnessScore,
+    freshness_score_with_bonus: round(freshnessScore + freshnessBonus, 4),
+
+    age_seconds: Math.floor(ageHours * 3600),
+    age_minutes: Math.floor(ageHours * 60),
+    age_hours: ageHours,
+    age_days: round(ageHours / 24, 2),
+
+    delta_views_window: viewCount - viewCountPrev,
+    growth_rate_window: growthRate,
+
+    published_at: publishedAt.toISOString(),
+    thumbnail_url: thumbnailFor(videoId),
+    crawled_at: new Date(now - Math.floor(random() * 3) * HOUR_MS).toISOString(),
+    is_shorts: isShorts,
+
+    surge_components: components,
+    freshness_bonus: freshnessBonus,
+  };
+}
+
+/**
+ * 급등 영상 fixture 목록을 surge_score 내림차순으로 반환합니다.
+ * @param now - 기준 시각 (ms)
+ */
+export function getMockSurgeVideos(now = Date.now()): SurgeVideo[] {
+  return Array.from({ length: MOCK_VIDEO_COUNT }, (_, index) => buildSurgeVideo(index, now))
+    .sort((a, b) => b.surge_score - a.surge_score || a.video_id.localeCompare(b.video_id))
+    .map((video, index) => ({ ...video, trending_rank: index + 1 }));
+}
+
+// --- Instagram / TikTok ---
+// 플랫폼 원본 API 필드명으로 레코드를 만든 뒤 플랫폼 제공자의 지표 변환(toSurgeVideo)을 거칩니다.
+
+const INSTAGRAM_CAPTIONS: Record<string, string[]> = {
+  beauty: ['5분 완성 데일리 메이크업', '올리브영 신상 솔직 리뷰', '퍼스널컬러별 립 추천'],
+  fashion: ['출근룩 일주일 코디', '가을 아우터 하울', '키작녀 바지 핏 비교'],
+  food: ['편의점 조합 레시피', '성수 신상 카페 투어', '에어프라이어 야식 만들기'],
+  travel: ['제주 숨은 오름 추천', '오사카 2박 3일 코스', '당일치기 강릉 여행'],
+  fitness: ['하루 10분 복근 루틴', '초보 러닝 자세 교정', '홈트 전신 스트레칭'],
+  humor: ['회사에서 공감 100% 상황', '엄마랑 통화할 때 특징', 'MBTI별 여행 스타일'],
+};
+
+const TIKTOK_CAPTIONS: Record<string, string[]> = {
+  dance: ['신곡 포인트 안무 챌린지', '거울 모드 안무 튜토리얼', '친구랑 맞춰본 커플 댄스'],
+  comedy: ['반전 있는 상황극', '급식 시절 공감 모음', '알바생 시점 손님 유형'],
+  challenge: ['1분 안에 컵 쌓기 도전', '눈 감고 그림 그리기', '목소리 변조 챌린지'],
+  food: ['30초 토스트 레시피', '야시장 길거리 음식 먹방', '라면 색다르게 끓이기'],
+  beauty: ['애교살 메이크업 꿀팁', '헤어 고데기 없이 웨이브', '10초 쿨톤 립 조합'],
+  gaming: ['역대급 원샷 원킬', '신캐 스킬 콤보 정리', '랭크 마지막 판 클러치'],
+};
+
+const CREATOR_NAMES = [
+  'daily.jin', 'seoul_foodie', 'mood.archive', 'fit_with_ha', 'travel.log.kr', 'laugh_factory',
+  'dance_crew_k', 'beauty.note', 'game_clips_kr', 'hangang_vibes', 'studio.haru', 'snack_time',
+];
+
+// 플랫폼 영상 ID 형식 (Instagram shortcode 11자, TikTok 19자리 숫자)
+function makeInstagramShortcode(index: number): string {
+  return makeVideoId(20_000 + index);
+}
+
+function makeTikTokVideoId(index: number): string {
+  const random = createRandom(`tiktok-id-${index}`);
+  let id = '73';
+  for (let i = 0; i < 17; i++) id += Math.floor(random() * 10);
+  return id;
+}
+
+function buildPlatformCounts(random: () => number, baseViews: number) {
+  const growthRate = 0.05 + random() * 2;
+  const views = Math.floor(baseViews);
+  const viewsPrev = Math.floor(views / (1 + growthRate));
+  const likes = Math.floor(views * (0.03 + random() * 0.09));
+  const likesPrev = Math.floor(likes / (1 + growthRate * 0.8));
+  const comments = Math.floor(likes * (0.01 + random() * 0.05));
+  const commentsPrev = Math.floor(comments / (1 + growthRate * 0.6));
+  return { views, viewsPrev, likes, likesPrev, comments, commentsPrev };
+}
+
+function buildInstagramRecord(index: number, now: number): InstagramMediaRecord {
+  const random = createRandom(`instagram-${index}`);
+  const category = instagramProvider.categories[index % instagramProvider.categories.length];
+  const shortcode = makeInstagramShortcode(index);
+  const creator = pick(random, CREATOR_NAMES);
+  const isReel = random() < 0.8;
+  const counts = buildPlatformCounts(random, 3_000 + random() ** 2 * 2_000_000);
+
+  return {
+    shortcode,
+    caption: `${pick(random, INSTAGRAM_CAPTIONS[category.key])} #${index + 1}`,
+    owner_id: `17841${String(hashSeed(creator)).padStart(10, '0')}`,
+    owner_username: creator,
+    media_product_type: isReel ? 'REELS' : 'FEED',
+    category: category.key,
+    hashtags: [category.name, isReel ? '릴스' : '피드', '추천'],
+    video_duration: isReel ? 7 + Math.floor(random() * 83) : 60 + Math.floor(random() * 540),
+    play_count: counts.views,
+    play_count_prev: counts.viewsPrev,
+    like_count: counts.likes,
+    like_count_prev: counts.likesPrev,
+    comments_count: counts.comments,
+    comments_count_prev: counts.commentsPrev,
+    taken_at: new Date(now - round(2 + random() * 24 * 13, 1) * HOUR_MS).toISOString(),
+    crawled_at: new Date(now - Math.floor(random() * 3) * HOUR_MS).toISOString(),
+    thumbnail_url: `https://picsum.photos/seed/instagram-${shortcode}/270/480`,
+  };
+}
+
+function buildTikTokRecord(index: number, now: number): TikTokVideoRecord {
+  const random = createRandom(`tiktok-${index}`);
+  const category = tiktokProvider.categories[index % tiktokProvider.categories.length];
+  const awemeId = makeTikTokVideoId(index);
+  const creator = pick(random, CREATOR_NAMES).replace(/\./g, '_');
+  const counts = buildPlatformCounts(random, 10_000 + random() ** 2 * 8_000_000);
+  const shares = Math.floor(counts.likes * (0.02 + random() * 0.1));
+
+  return {
+    aweme_id: awemeId,
+    desc: `${pick(random, TIKTOK_CAPTIONS[category.key])} #${index + 1}`,
+    author: { uid: `68${String(hashSeed(creator)).padStart(17, '0')}`, unique_id: creator },
+    category: category.key,
+    hashtags: [category.name, 'fyp', '추천'],
+    duration: 8 + Math.floor(random() * 170),
+    stats: { play_count: counts.views, digg_count: counts.likes, comment_count: counts.comments, share_count: shares },
+    stats_prev: {
+      play_count: counts.viewsPrev,
+      digg_count: counts.likesPrev,
+      comment_count: counts.commentsPrev,
+      share_count: Math.floor(shares * 0.6),
+    },
+    create_time: Math.floor((now - round(1 + random() * 24 * 10, 1) * HOUR_MS) / 1000),
+    crawled_at: new Date(now - Math.floor(random() * 3) * HOUR_MS).toISOString(),
+    cover_url: `https://picsum.photos/seed/tiktok-${awemeId}/270/480`,
+  };
+}
+
+/**
+ * 플랫폼별 급등 영상 fixture 목록을 surge_score 내림차순으로 반환합니다.
+ * @param platform - 플랫폼 ID (알 수 없는 값이면 youtube)
+ * @param now - 기준 시각 (ms)
+ */
+export function getMockPlatformVideos(platform: string | null, now = Date.now()): SurgeVideo[] {
+  const provider = getPlatformProvider(platform);
+  if (provider.id === 'youtube') return getMockSurgeVideos(now);
+
+  const build = provider.id === 'instagram' ? buildInstagramRecord : buildTikTokRecord;
+  return Array.from({ length: MOCK_PLATFORM_VIDEO_COUNT }, (_, index) => provider.toSurgeVideo(build(index, now), now))
+    .sort((a, b) => b.surge_score - a.surge_score || a.video_id.localeCompare(b.video_id))
+    .map((video, index) => ({ ...video, trending_rank: index + 1 }));
+}
+
+/**
+ * video_id로 fixture 영상을 찾습니다. 없으면 해당 ID로 새 영상을 만들어 반환합니다.
+ * @param videoId - 영상 ID
+ * @param platform - 플랫폼 ID (기본 youtube)
+ */
+export function findMockVideo(videoId: string, platform: PlatformId = 'youtube'): SurgeVideo {
+  const found = getMockPlatformVideos(platform).find((video) => video.video_id === videoId);
+  if (found) return found;
+  const provider = getPlatformProvider(platform);
+  return {
+    ...buildSurgeVideo(hashSeed(videoId) % 10_000, Date.now()),
+    video_id: videoId,
+    platform: provider.id,
+    thumbnail_url: provider.id === 'youtube' ? thumbnailFor(videoId) : provider.getThumbnailUrl(videoId),
+  };
+}
+
+export function toMockMenuVideo(video: SurgeVideo): MenuVideo {
+  return {
+    video_id: video.video_id,
+    title: video.title,
+    channel_id: video.channel_id,
+    channel_username: video.channel_username,
+    platform: video.platform,
+    category: video.category,
+    category_id: video.category_id,
+    view_count: video.view_count,
+    like_count: video.like_count,
+    comment_count: video.comment_count,
+    published_at: video.published_at ?? new Date().toISOString(),
+    thumbnail_url: video.thumbnail_url ?? thumbnailFor(video.video_id),
+    is_shorts: video.is_shorts,
+    view_count_change: video.view_velocity,
+    like_count_change: video.like_velocity,
+    growth_rate_percentage: round(video.growth_rate_window * 100, 1),
+  };
+}
+
+// /trends/categories/{category}/recommendations 응답 항목 (types/video.ts 의 전역 Video)
+export function toMockRecommendation(video: SurgeVideo): Video {
+  const random = createRandom(`recommend-${video.video_id}`);
+  const sentimentScore = round(0.4 + random() * 0.6, 3);
+  return {
+    video_id: video.video_id,
+    title: video.title,
+    channel_id: video.channel_id,
+    platform: video.platform,
+    view_count: video.view_count,
+    like_count: video.like_count,
+    comment_count: video.comment_count,
+    published_at: video.published_at ?? new Date().toISOString(),
+    thumbnail_url: video.thumbnail_url ?? thumbnailFor(video.video_id),
+    category: video.category ?? 'uncategorized',
+    sentiment_label: sentimentScore > 0.6 ? 'positive' : 'neutral',
+    sentiment_score: sentimentScore,
+    trend_score: round(video.surge_score / 100, 3),
+    engagement_score: round(video.like_count / Math.max(1, video.view_count), 4),
+    score_sentiment: sentimentScore,
+    score_trend: round(video.surge_score / 100, 3),
+    total_score: video.total_score,
+    crawled_at: video.crawled_at ?? new Date().toISOString(),
+    channel_username: video.channel_username ?? '',
+    is_shorts: video.is_shorts ?? false,
+  };
+}
+
+// --- 카테고리 / 관심사 ---
+
+export function getMockHotTrends(now = Date.now()): HotTrendType[] {
+  return MOCK_CATEGORIES.map((category, index) => {
+    const random = createRandom(`hot-${category.category}`);
+    const videoCount = 40 + Math.floor(random() * 200);
+    const searchVolume = 10_000 + Math.floor(random() * 90_000);
+    const searchVolumePrev = Math.floor(searchVolume / (1 + random()));
+    return {
+      category: category.category,
+      platform: 'youtube',
+      date: toDateString(new Date(now)),
+      video_count: videoCount,
+      video_count_prev: Math.floor(videoCount * (0.6 + random() * 0.3)),
+      avg_sentiment: round(0.4 + random() * 0.5, 3),
+      avg_trend: round(random(), 3),
+      avg_total_score: round(40 + random() * 50, 2),
+      search_volume: searchVolume,
+      search_volume_prev: String(searchVolumePrev),
+      growth_rate: ((searchVolume / searchVolumePrev - 1) * 100).toFixed(1),
+      rank: index + 1,
+    };
+  });
+}
+
+export function getMockInterestTags(): InterestType[] {
+  return MOCK_CATEGORIES.map((category) => ({
+    category: category.category,
+    tags_raw: category.tags.join(','),
+    tags: category.tags,
+    create_at: '2025-01-01T00:00:00Z',
+  }));
+}
+
+export function createMockUserInfo(): UserInfo {
+  return {
+    account: {
+      id: MOCK_USER_ID,
+      email: 'demo@trendix.local',
+      nickname: '트렌딕스 데모',
+      bio: 'Mock 모드 데모 계정입니다.',
+      profile_image_url: 'https://picsum.photos/seed/trendix-user/200/200',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    },
+    interests: [
+      { id: 'interest-1', interest: 'music', created_at: '2025-01-01T00:00:00Z' },
+      { id: 'interest-2', interest: 'tech', created_at: '2025-01-02T00:00:00Z' },
+    ],
+    logged_in: true,
+  };
+}
+
+// --- 조회수 추이 ---
+
+/**
+ * 일 단위 누적 조회수 추이를 만듭니다. (오래된 날짜 → 최신)
+ * @param videoId - 영상 ID
+ * @param days - 일수
+ * @param now - 기준 시각 (ms)
+ * @param platform - 플랫폼 ID (기본 youtube)
+ */
+export function getMockViewHistory(
+  videoId: string,
+  days: number,
+  now = Date.now(),
+  platform: PlatformId = 'youtube'
+): ViewHistoryItem[] {
+  return buildViewCurve(videoId, days, platform).map((counts, index) => ({
+    snapshot_date: toDateString(new Date(now - (days - 1 - index) * DAY_MS)),
+    ...counts,
+  }));
+}
+
+/**
+ * 구간별 누적 조회수 추이를 만듭니다. (구간 순서대로, 마지막 구간이 현재 누적 조회수)
+ * @param videoId - 영상 ID
+ * @param buckets - 시간 구간 (app/lib/trends/view-history 의 selectViewHistoryBuckets)
+ * @param platform - 플랫폼 ID (기본 youtube)
+ */
+export function getMockBucketedViewHistory(
+  videoId: string,
+  buckets: ViewHistoryBucket[],
+  platform: PlatformId = 'youtube'
+): ViewHistoryItem[] {
+  return buildViewCurve(videoId, buckets.length, platform).map((counts, index) => ({
+    snapshot_date: buckets[index].label,
+    bucket_start: buckets[index].start.toISOString(),
+    ...counts,
+  }));
+}
+
+/**
+ * 여러 영상의 구간별 누적 추이를 공통 축에 맞출 행으로 만듭니다.
+ * publish 정렬이면 게시 시각부터 현재까지 지난 구간만 만듭니다.
+ * @param videoIds - 영상 ID 목록
+ * @param axis - 공통 구간 축 (app/lib/trends/view-history-batch 의 buildViewHistoryAxis)
+ * @param align - 정렬 기준
+ * @param platform - 플랫폼 ID (기본 youtube)
+ * @param now - 기준 시각 (ms)
+ */
+export function getMockViewHistorySnapshotRows(
+  videoIds: string[],
+  axis: ViewHistoryAxisBucket[],
+  align: ViewHistoryAlignment,
+  platform: PlatformId = 'youtube',
+  now = Date.now()
+): ViewHistorySnapshotRow[] {
+  return videoIds.flatMap((videoId) => {
+    const video = findMockVideo(videoId, platform);
+    const publishedAt = video.published_at ? Date.parse(video.published_at) : now;
+    const buckets = axis
+      .map((bucket) => ({
+        key: bucket.key,
+        label: bucket.label,
+        start: new Date(align === 'publish' ? publishedAt + bucket.key * HOUR_MS : bucket.key),
+      }))
+      .filter((bucket) => bucket.start.getTime() < now);
+
+    return getMockBucketedViewHistory(videoId, buckets, platform).map((counts, index) => ({
+      video_id: videoId,
+      key: buckets[index].key,
+      published_at: new Date(publishedAt),
+      view_count: counts.view_count,
+      like_count: counts.like_count,
+      comment_count: counts.comment_count,
+    }));
+  });
+}
+
+/**
+ * 채널의 영상 ID 목록을 반환합니다. fixture에 없는 채널은 채널 ID로 고른 영상 6개를 씁니다.
+ * @param channelId - 채널 ID
+ * @param platform - 플랫폼 ID (기본 youtube)
+ */
+export function getMockChannelVideoIds(channelId: string, platform: PlatformId = 'youtube'): string[] {
+  const videos = getMockPlatformVideos(platform);
+  const owned = videos.filter((video) => video.channel_id === channelId);
+  if (owned.length > 0) return owned.map((video) => video.video_id);
+
+  const start = hashSeed(channelId) % Math.max(1, videos.length - 6);
+  return videos.slice(start, start + 6).map((video) => video.video_id);
+}
+
+// 후반부로 갈수록 증가량이 커지는 급등 곡선 + 잡음
+function buildViewCurve(
+  videoId: string,
+  count: number,
+  platform: PlatformId
+): Pick<ViewHistoryItem, 'view_count' | 'like_count' | 'comment_count'>[] {
+  const video = findMockVideo(videoId, platform);
+  const random = createRandom(`history-${videoId}`);
+  const weights = Array.from({ length: count }, (_, index) => {
+    const progress = (index + 1) / count;
+    return progress ** 2 * (0.7 + random() * 0.6);
+  });
+  // 절반 정도의 영상은 외부 공유처럼 한 구간만 조회수가 튀도록 (이상 구간 탐지 확인용)
+  if (count >= 10 && random() < 0.5) {
+    weights[Math.floor(count * (0.5 + random() * 0.4))] *= 4;
+  }
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const startViews = Math.floor(video.view_count * 0.2);
+
+  let views = startViews;
+  return weights.map((weight) => {
+    views += Math.floor(((video.view_count - startViews) * weight) / totalWeight);
+    const ratio = views / video.view_count;
+    return {
+      view_count: views,
+      like_count: Math.floor(video.like_count * ratio),
+      comment_count: Math.floor(video.comment_count * ratio),
+    };
+  });
+}
+
+export function getMockVideoViewHistory(videoId: string, days = 14): VideoViewHistory {
+  return {
+    video_id: videoId,
+    platform: 'youtube',
+    history: getMockViewHistory(videoId, days),
+  };
+}
+
+// --- 분석 ---
+
+export function getMockVideoAnalysis(videoId: string, platform: PlatformId = 'youtube'): VideoAnalysis {
+  const video = findMockVideo(videoId, platform);
+  const random = createRandom(`analysis-${videoId}`);
+  const tags =
+    platform === 'youtube'
+      ? MOCK_CATEGORIES.find((category) => category.id === video.category_id)?.tags ?? []
+      : (video.tags ?? '').split(',').filter(Boolean);
+  const sentimentScore = round(0.3 + random() * 0.7, 3);
+
+  return {
+    video: {
+      video_id: video.video_id,
+      title: video.title,
+      channel_id: video.channel_id,
+      platform: video.platform,
+      view_count: video.view_count,
+      like_count: video.like_count,
+      comment_count: video.comment_count,
+      category: video.category,
+      sentiment_label: sentimentScore > 0.6 ? 'positive' : 'neutral',
+      sentiment_score: sentimentScore,
+      trend_score: round(video.surge_score / 100, 3),
+      keywords: tags.join(','),
+      summary: `${video.title} 영상은 최근 ${Math.round(video.growth_rate_window * 100)}% 성장했습니다.`,
+      analyzed_at: new Date().toISOString(),
+      engagement_score: round(video.like_count / Math.max(1, video.view_count), 4),
+      score_sentiment: sentimentScore,
+      score_trend: round(video.surge_score / 100, 3),
+      total_score: video.total_score,
+    },
+    keywords: tags.map((keyword, index) => ({
+      keyword,
+      weight: round(1 - index * 0.15, 2),
+      platform: video.platform,
+      video_id: video.video_id,
+      channel_id: video.channel_id,
+    })),
+    comment_sentiments: Array.from({ length: 5 }, (_, index) => {
+      const score = round(random(), 3);
+      return {
+        comment_id: `${video.video_id}-c${index}`,
+        video_id: video.video_id,
+        platform: video.platform,
+        sentiment_label: score > 0.6 ? 'positive' : score < 0.3 ? 'negative' : 'neutral',
+        sentiment_score: score,
+        analyzed_at: new Date().toISOString(),
+      };
+    }),
+  };
+}
+
+export function getMockVideoDetail(videoId: string): VideoDetail {
+  const video = findMockVideo(videoId);
+  const history = getMockViewHistory(videoId, 9);
+  const categoryName = MOCK_CATEGORIES.find((category) => category.id === video.category_id)?.category ?? '기타';
+
+  return {
+    id: video.video_id,
+    title: video.title,
+    description: video.description ?? '',
+    channelName: video.channel_username?.replace(/^@/, '') ?? video.channel_id,
+    channelId: video.channel_id,
+    channelThumbnail: `https://picsum.photos/seed/${video.channel_id}/100/100`,
+    thumbnailUrl: video.thumbnail_url ?? thumbnailFor(video.video_id),
+    viewCount: video.view_count,
+    likeCount: video.like_count,
+    commentCount: video.comment_count,
+    publishedAt: video.published_at ?? new Date().toISOString(),
+    duration: video.duration ?? '',
+    categoryId: String(video.category_id ?? ''),
+    categoryName,
+    tags: (video.tags ?? '').split(',').filter(Boolean),
+    isShort: Boolean(video.is_shorts),
+    trendingRank: video.trending_rank,
+    trendingReason: `급등 점수 ${video.surge_score.toFixed(1)} · 최근 조회수 ${video.view_velocity.toLocaleString()} 증가`,
+    viewHistory: history.map((item) => ({ time: item.snapshot_date.slice(5), count: item.view_count })),
+    likeHistory: history.map((item) => ({ time: item.snapshot_date.slice(5), count: item.like_count })),
+  };
+}
+
+export function getMockChannelData(channelInput: string): ChannelData {
+  const random = createRandom(`channel-${channelInput}`);
+  const videos = getMockSurgeVideos().slice(0, 6);
+  const recentVideos = videos.map((video) => {
+    const trendAvgViewCount = Math.floor(video.view_count * (0.6 + random() * 0.8));
+    const ratio = video.view_count / trendAvgViewCount;
+    return {
+      id: video.video_id,
+      title: video.title,
+      thumbnailUrl: video.thumbnail_url ?? thumbnailFor(video.video_id),
+      viewCount: video.view_count,
+      trendAvgViewCount,
+      publishedAt: video.published_at ?? new Date().toISOString(),
+      performance: ratio > 1.1 ? ('above' as const) : ratio < 0.9 ? ('below' as const) : ('average' as const),
+    };
+  });
+  const handle = channelInput.match(/@([\w.-]+)/)?.[1] ?? 'mychannel';
+
+  return {
+    channelId: `UC${makeVideoId(hashSeed(channelInput) % 10_000)}mock`,
+    channelName: handle,
+    channelThumbnail: `https://picsum.photos/seed/${handle}/100/100`,
+    subscriberCount: 10_000 + Math.floor(random() * 500_000),
+    totalVideos: 50 + Math.floor(random() * 400),
+    recentVideos,
+    overallPerformance: Math.round(
+      (recentVideos.reduce((sum, video) => sum + video.viewCount / video.trendAvgViewCount, 0) / recentVideos.length) * 100
+    ),
+  };
+}
+
+export function getMockCompareAnalysis(myInput: string, trendInput: string, platform: string | null = 'youtube'): CompareAnalysis {
+  const random = createRandom(`compare-${myInput}-${trendInput}`);
+  const videos = getMockPlatformVideos(platform);
+  const [mine, trend] = videos.slice(-1).concat(videos.slice(0, 1));
+  const reaction = (video: SurgeVideo, boost: number) => ({
+    views: video.view_count,
+    likes: video.like_count,
+    comments: video.comment_count,
+    like_rate: round((video.like_count / Math.max(1, video.view_count)) * 100, 1),
+    completion_rate: round(40 + random() * 30 + boost, 1),
+    retention_3s: round(55 + random() * 25 + boost, 1),
+    share_rate: round(0.5 + random() * 2 + boost / 10, 1),
+  });
+  const core = (video: SurgeVideo, publishedAgo: string) => ({
+    id: video.video_id,
+    title: video.title,
+    channel_name: video.channel_username ?? video.channel_id,
+    thumbnail_url: video.thumbnail_url ?? thumbnailFor(video.video_id),
+    duration_sec: 20 + Math.floor(random() * 40),
+    format_label: video.is_shorts ? '세로형 쇼츠' : '가로형 영상',
+    published_ago: publishedAgo,
+  });
+
+  return {
+    my_video: core(mine, '5일 전'),
+    trend_video: core(trend, '1일 전'),
+    hook_comparison: {
+      my: { opening_line: '오늘은 제 일상을 보여드릴게요', visual_cue: '정면 인사', caption_style: '하단 자막', pacing: '느림', hook_score: 54 },
+      trend: { opening_line: '이거 모르면 손해입니다', visual_cue: '결과 화면 선공개', caption_style: '상단 큰 자막', pacing: '빠름', hook_score: 88 },
+      takeaways: ['첫 1초에 결과를 먼저 보여주세요.', '질문형 오프닝으로 호기심을 만드세요.'],
+    },
+    format_comparison: {
+      my: { duration_sec: 48, aspect_ratio: '9:16', cut_count: 6, text_density: '낮음', audio_style: '배경음악' },
+      trend: { duration_sec: 27, aspect_ratio: '9:16', cut_count: 14, text_density: '높음', audio_style: '트렌드 음원' },
+      differences: ['급등 영상은 절반 길이에 컷 수가 두 배입니다.', '트렌드 음원을 사용해 추천 노출이 유리합니다.'],
+    },
+    reaction_comparison: {
+      my: reaction(mine, 0),
+      trend: reaction(trend, 15),
+      insights: ['완주율 차이가 가장 큽니다.', '공유율이 높은 영상은 정보형 자막을 사용합니다.'],
+    },
+    ai_summary: {
+      headline: '도입부 3초와 영상 길이를 줄이면 완주율 개선이 기대됩니다.',
+      action_items: ['30초 이내로 편집', '첫 장면에 결과 노출', '트렌드 음원 사용'],
+      next_experiment: '같은 주제로 25초 버전을 만들어 A/B 비교해보세요.',
+    },
+    trust_signals: ['Mock 데이터 기반 분석', `비교 대상 ${myInput.slice(0, 24)} / ${trendInput.slice(0, 24)}`],
+  };
+}
+
+// --- 채팅 ---
+
+/**
+ * 채팅 응답 문장을 만듭니다. 스트리밍 시 조각 단위로 나눠 전송합니다.
+ * @param question - 마지막 사용자 메시지
+ */
+export function getMockChatReply(question: string): string {
+  const top = getMockSurgeVideos().slice(0, 3);
+  const titles = top.map((video, index) => `${index + 1}. ${video.title}`).join('\n');
+  return `"${question.slice(0, 40)}"에 대한 mock 응답입니다.\n현재 급등 중인 영상은 다음과 같습니다.\n${titles}\n실제 분석은 백엔드 연결 후 확인해주세요.`;
+}
+
+export function getMockChatVideos(): Video[] {
+  return getMockSurgeVideos().slice(0, 3).map(toMockRecommendation);
+}
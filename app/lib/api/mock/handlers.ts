@@ -0,0 +1,394 @@
+// Mock 백엔드 라우터
+// client.ts 의 fetch 대신 호출되어 백엔드 경로별 fixture 응답(Response)을 돌려줍니다.
+// 실제 네트워크와 비슷하게 약간의 지연을 두고, AbortSignal 취소를 그대로 따릅니다.
+
+import {
+  MOCK_USER_ID,
+  createMockUserInfo,
+  createRandom,
+  getMockBucketedViewHistory,
+  getMockChannelData,
+  getMockChatReply,
+  getMockChatVideos,
+  getMockCompareAnalysis,
+  getMockHotTrends,
+  getMockInterestTags,
+  getMockPlatformVideos,
+  getMockSurgeVideos,
+  getMockVideoAnalysis,
+  getMockVideoDetail,
+  getMockVideoViewHistory,
+  toMockMenuVideo,
+  toMockRecommendation,
+} from './fixtures';
+import { getPlatformProvider } from '@/app/lib/platforms';
+import { getViewHistoryFetchLimit, parseViewHistoryQuery, selectViewHistoryBuckets } from '@/app/lib/trends/view-history';
+import { detectViewHistoryAnomalies, VIEW_HISTORY_ANOMALY_THRESHOLD } from '@/app/lib/trends/view-anomalies';
+import { deriveViewHistoryMetrics, VIEW_HISTORY_MOVING_AVERAGE_WINDOW } from '@/app/lib/trends/view-metrics';
+
+const MOCK_LATENCY_MS = 150;
+const MOCK_STREAM_CHUNK_DELAY_MS = 60;
+// 수집 요청 처리(crawling)와 분석 완료(analyzing)까지 걸리는 시간
+const MOCK_CRAWL_DELAY_MS = 1_000;
+const MOCK_ANALYSIS_DELAY_MS = 3_000;
+
+interface MockRequest {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  signal?: AbortSignal | null;
+}
+
+type MockHandler = (request: MockRequest) => Response | Promise<Response>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handler: MockHandler;
+}
+
+// 세션 동안 유지되는 변경 가능 상태 (관심사, 프로필, 대시보드 레이아웃, 환경설정, 수집 시각)
+const state = {
+  user: createMockUserInfo(),
+  dashboardLayout: null as unknown,
+  preferences: {} as Record<string, unknown>,
+  ingestedAt: new Map<string, number>(),
+};
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function notFound(detail: string): Response {
+  return json({ detail }, 404);
+}
+
+function numberParam(query: URLSearchParams, key: string, fallback: number): number {
+  const value = Number(query.get(key));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// platform 파라미터의 플랫폼 fixture 중 days 이내 게시된 영상
+function filterByDays(query: URLSearchParams) {
+  const days = numberParam(query, 'days', 14);
+  return filterByRegion(getMockPlatformVideos(query.get('platform')), query).filter(
+    (video) => (video.age_days ?? 0) <= days
+  );
+}
+
+// region 파라미터의 지역 fixture (fixture가 한국 영상이므로 KR과 전체는 그대로, 다른 지역은 영상별로 일부만)
+function filterByRegion<T extends { video_id: string }>(videos: T[], query: URLSearchParams): T[] {
+  const region = query.get('region');
+  if (!region || region === 'KR') return videos;
+  return videos.filter((video) => createRandom(`${region}:${video.video_id}`)() < 0.6);
+}
+
+// 수집/분석 경로의 플랫폼 세그먼트 (/ingestion/{platform}/video/...)
+function ingestionKey(platform: string, videoId: string): string {
+  return `${getPlatformProvider(platform).id}:${videoId}`;
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// /chat/stream: 백엔드와 같은 SSE 형식("data: {...}\n\n")으로 조각을 나눠 전송합니다.
+function streamChatReply(request: MockRequest): Response {
+  const messages = (request.body as { messages?: { role: string; content: string }[] })?.messages ?? [];
+  const question = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+  const chunks = getMockChatReply(question).match(/[\s\S]{1,8}/g) ?? [];
+  const encoder = new TextEncoder();
+  const signal = request.signal;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (payload: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      try {
+        send({ conversationId: `mock-conversation-${Date.now()}` });
+        for (const chunk of chunks) {
+          await wait(MOCK_STREAM_CHUNK_DELAY_MS, signal);
+          send({ content: chunk });
+        }
+        send({ videos: getMockChatVideos() });
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
+
+const routes: MockRoute[] = [
+  // --- 인증 / 계정 ---
+  {
+    method: 'GET',
+    pattern: /^\/authentication\/status$/,
+    handler: () => json({ logged_in: true, user_id: MOCK_USER_ID }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/logout$/,
+    handler: () => json({ message: 'Mock 로그아웃 완료' }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/accounts\/([^/]+)\/dashboard-layout$/,
+    handler: () => (state.dashboardLayout ? json(state.dashboardLayout) : notFound('저장된 레이아웃이 없습니다.')),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/accounts\/([^/]+)\/dashboard-layout$/,
+    handler: ({ body }) => {
+      state.dashboardLayout = body;
+      return json({ message: '레이아웃이 저장되었습니다.' });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/accounts\/([^/]+)\/preferences$/,
+    handler: () => json(state.preferences),
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/accounts\/([^/]+)\/preferences$/,
+    handler: ({ body }) => {
+      state.preferences = { ...state.preferences, ...(body as Record<string, unknown>) };
+      return json(state.preferences);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/accounts\/([^/]+)\/interests$/,
+    handler: ({ body }) => {
+      const interest = String((body as { interest?: string })?.interest ?? '');
+      if (interest && !state.user.interests.some((item) => item.interest === interest)) {
+        state.user.interests.push({
+          id: `interest-${Date.now()}`,
+          interest,
+          created_at: new Date().toISOString(),
+        });
+      }
+      return json({ message: '관심사가 추가되었습니다.' }, 201);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/accounts\/([^/]+)\/interests\/([^/]+)$/,
+    handler: ({ params }) => {
+      state.user.interests = state.user.interests.filter((item) => item.interest !== params[1]);
+      return json({ message: '관심사가 삭제되었습니다.' });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/accounts\/([^/]+)$/,
+    handler: () => json(state.user),
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/accounts\/([^/]+)$/,
+    handler: ({ body }) => {
+      if (body instanceof FormData) {
+        const bio = body.get('bio');
+        if (typeof bio === 'string') state.user.account.bio = bio;
+      }
+      state.user.account.updated_at = new Date().toISOString();
+      return json(state.user.account);
+    },
+  },
+
+  // --- 트렌드 ---
+  {
+    method: 'GET',
+    pattern: /^\/trends\/videos(?:\/surge)?$/,
+    handler: ({ query }) => {
+      const limit = numberParam(query, 'limit', 10);
+      return json({ items: filterByDays(query).slice(0, limit) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/trends\/videos\/([^/]+)\/view_history$/,
+    handler: ({ params, query }) => {
+      const parsed = parseViewHistoryQuery(query);
+      if (parsed.error !== undefined) return json({ detail: parsed.error }, 400);
+
+      const { granularity, limit, timeZone } = parsed.query;
+      const platform = getPlatformProvider(parsed.query.platform).id;
+      const buckets = selectViewHistoryBuckets({ ...parsed.query, limit: getViewHistoryFetchLimit(parsed.query) });
+      const history = deriveViewHistoryMetrics(getMockBucketedViewHistory(params[0], buckets, platform), limit);
+      return json({
+        history,
+        anomalies: detectViewHistoryAnomalies(history),
+        meta: {
+          video_id: params[0],
+          platform,
+          limit: history.length,
+          requested_limit: limit,
+          granularity,
+          time_zone: timeZone,
+          moving_average_window: VIEW_HISTORY_MOVING_AVERAGE_WINDOW,
+          anomaly_threshold: VIEW_HISTORY_ANOMALY_THRESHOLD,
+        },
+      });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/trends\/menu$/,
+    handler: ({ query }) => {
+      const categoryId = query.get('category_id') || 'all';
+      const limit = numberParam(query, 'limit', 20);
+      const items = filterByDays(query)
+        .filter((video) => categoryId === 'all' || String(video.category_id) === categoryId)
+        .slice(0, limit)
+        .map(toMockMenuVideo);
+      return json({ items });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/trends\/categories\/hot$/,
+    handler: ({ query }) => json({ items: getMockHotTrends().slice(0, numberParam(query, 'limit', 8)) }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/trends\/categories\/([^/]+)\/recommendations$/,
+    handler: ({ params, query }) => {
+      const limit = numberParam(query, 'limit', 20);
+      const items = filterByRegion(getMockSurgeVideos(), query)
+        .filter((video) => video.category === params[0])
+        .slice(0, limit)
+        .map(toMockRecommendation);
+      return items.length > 0 ? json({ items }) : notFound('해당 카테고리의 추천 영상이 없습니다.');
+    },
+  },
+
+  // --- 수집 ---
+  {
+    method: 'GET',
+    pattern: /^\/ingestion\/category_Tags$/,
+    handler: () => json({ items: getMockInterestTags() }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/ingestion\/(youtube|instagram|tiktok)\/video\/([^/]+)$/,
+    handler: async ({ params, signal }) => {
+      await wait(MOCK_CRAWL_DELAY_MS, signal);
+      state.ingestedAt.set(ingestionKey(params[0], params[1]), Date.now());
+      return json({ message: 'Mock 수집이 완료되었습니다.', video_id: params[1] });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/ingestion\/(youtube|instagram|tiktok)\/video\/([^/]+)\/analysis$/,
+    handler: ({ params }) => {
+      // 방금 수집한 영상은 분석이 끝날 때까지 404를 반환해 폴링 흐름을 재현합니다.
+      const ingestedAt = state.ingestedAt.get(ingestionKey(params[0], params[1]));
+      if (ingestedAt && Date.now() - ingestedAt < MOCK_ANALYSIS_DELAY_MS) {
+        return notFound('영상 데이터가 없습니다.');
+      }
+      return json(getMockVideoAnalysis(params[1], getPlatformProvider(params[0]).id));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/ingestion\/youtube\/video\/([^/]+)\/history$/,
+    handler: ({ params }) => json(getMockVideoViewHistory(params[0])),
+  },
+
+  // --- 분석 ---
+  {
+    method: 'POST',
+    pattern: /^\/analysis\/channel$/,
+    handler: ({ body }) => json(getMockChannelData(String((body as { channel_url?: string })?.channel_url ?? ''))),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/analysis\/shorts\/compare$/,
+    handler: ({ body }) => {
+      const { platform = 'youtube', my_short_url = '', trend_short_url = '' } = (body ?? {}) as Record<string, string>;
+      return json(getMockCompareAnalysis(my_short_url, trend_short_url, platform));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/analysis\/videos\/([^/]+)$/,
+    handler: ({ params }) => json(getMockVideoDetail(params[0])),
+  },
+
+  // --- 채팅 ---
+  {
+    method: 'POST',
+    pattern: /^\/chat\/stream$/,
+    handler: streamChatReply,
+  },
+  {
+    method: 'POST',
+    pattern: /^\/filter$/,
+    handler: ({ body }) => json({ filtered: String((body as { text?: string })?.text ?? '') }),
+  },
+];
+
+function parseBody(body: RequestInit['body']): unknown {
+  if (typeof body !== 'string') return body ?? undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * fetch와 같은 시그니처로 mock 응답을 반환합니다.
+ * @param url - buildApiUrl로 만든 요청 URL
+ * @param init - fetch 옵션
+ * @returns fixture 응답 (등록되지 않은 경로는 404)
+ */
+export async function mockFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const { pathname, searchParams } = new URL(url);
+  const method = (init.method ?? 'GET').toUpperCase();
+
+  // 매 요청마다 조금씩 다른 지연으로 로딩 상태를 확인할 수 있게 합니다.
+  const jitter = createRandom(`${method} ${url} ${Date.now()}`)() * MOCK_LATENCY_MS;
+  await wait(MOCK_LATENCY_MS + jitter, init.signal);
+
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const match = pathname.match(route.pattern);
+    if (!match) continue;
+
+    return route.handler({
+      method,
+      params: match.slice(1).map(decodeURIComponent),
+      query: searchParams,
+      body: parseBody(init.body),
+      signal: init.signal,
+    });
+  }
+
+  return notFound(`Mock 데이터가 없는 경로입니다: ${method} ${pathname}`);
+}
+
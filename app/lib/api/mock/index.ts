@@ -0,0 +1,14 @@
+// Mock 백엔드 모드 설정
+// NEXT_PUBLIC_API_MOCK=true 로 실행하면 모든 백엔드 호출과 DB 조회가 fixture 데이터로 대체됩니다.
+// (NEXT_PUBLIC_ 변수는 빌드 시점에 주입되므로 클라이언트/서버 모두 같은 값을 봅니다.)
+
+// Mock 모드에서 요청 URL을 만들 때 사용하는 가상 기본 URL
+export const MOCK_API_BASE_URL = 'http://mock.trendix.local';
+
+/**
+ * Mock 백엔드 모드가 켜져 있는지 확인합니다.
+ */
+export function isMockApiEnabled(): boolean {
+  const flag = process.env.NEXT_PUBLIC_API_MOCK;
+  return flag === 'true' || flag === '1';
+}
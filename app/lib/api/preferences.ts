@@ -0,0 +1,48 @@
+// 계정 환경설정 API 호출 함수
+
+import { apiRequest } from './client';
+import { APIError, TrendRegion } from './types';
+import { isTrendRegion } from '../trends/region';
+
+export interface AccountPreferences {
+  // 트렌드 조회 지역 (헤더 지역 선택)
+  trend_region?: TrendRegion | null;
+}
+
+/**
+ * 계정에 저장된 트렌드 조회 지역을 불러옵니다.
+ * @param accountId - 계정 ID
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 저장된 지역 (없거나 지원하지 않는 값이면 null)
+ */
+export async function fetchTrendRegionPreference(accountId: string, signal?: AbortSignal): Promise<TrendRegion | null> {
+  try {
+    const data = await apiRequest<AccountPreferences>(`/accounts/${accountId}/preferences`, {
+      credentials: 'include',  // 쿠키 포함 (세션 인증)
+      cache: 'no-store',
+      signal,
+      errorMessage: '환경설정 조회 실패',
+    });
+    return isTrendRegion(data?.trend_region) ? data.trend_region : null;
+  } catch (error) {
+    // 404는 아직 저장된 환경설정이 없는 경우
+    if (error instanceof APIError && error.statusCode === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 트렌드 조회 지역을 계정에 저장합니다.
+ * @param accountId - 계정 ID
+ * @param region - 조회 지역
+ */
+export async function saveTrendRegionPreference(accountId: string, region: TrendRegion): Promise<void> {
+  await apiRequest<void>(`/accounts/${accountId}/preferences`, {
+    method: 'PATCH',
+    credentials: 'include',  // 쿠키 포함 (세션 인증)
+    body: { trend_region: region },
+    errorMessage: '환경설정 저장 실패',
+  });
+}
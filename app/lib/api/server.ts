@@ -0,0 +1,42 @@
+// 서버(Server Component / Route Handler / Server Action) 전용 API 호출 함수
+// 브라우저 요청의 쿠키를 백엔드로 전달해 세션 인증을 유지합니다.
+
+import { cookies } from 'next/headers';
+import { apiFetch, apiRequest, ApiRequestOptions } from './client';
+
+async function withForwardedCookies<T>(options: ApiRequestOptions<T>): Promise<ApiRequestOptions<T>> {
+  const cookieStore = await cookies();
+  const cookieHeader = cookieStore.toString();
+
+  if (!cookieHeader) return options;
+
+  return {
+    ...options,
+    headers: {
+      Cookie: cookieHeader,
+      ...options.headers,
+    },
+  };
+}
+
+/**
+ * 현재 요청의 쿠키를 포함해 백엔드에 요청하고 JSON 응답을 반환합니다.
+ * @param path - 백엔드 경로
+ * @param options - 요청 옵션
+ * @returns 파싱된 응답 본문
+ * @throws APIError
+ */
+export async function serverApiRequest<T>(path: string, options: ApiRequestOptions<T> = {}): Promise<T> {
+  return apiRequest<T>(path, await withForwardedCookies(options));
+}
+
+/**
+ * 현재 요청의 쿠키를 포함해 백엔드에 요청하고 응답 객체를 반환합니다.
+ * @param path - 백엔드 경로
+ * @param options - 요청 옵션
+ * @returns 2xx 응답
+ * @throws APIError
+ */
+export async function serverApiFetch(path: string, options: ApiRequestOptions = {}): Promise<Response> {
+  return apiFetch(path, await withForwardedCookies(options));
+}
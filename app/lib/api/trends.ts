@@ -1,62 +1,220 @@
 // 급등 영상 API 호출 함수
 
-import { SurgeVideo, SurgeVideoResponse, APIError } from './types';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
+import {
+  MenuVideo,
+  SurgeTrendVideoPage,
+  SurgeVideo,
+  TrendExportFormat,
+  TrendFilters,
+  TrendRegion,
+  TrendSortKey,
+  TrendVideoPage,
+} from './types';
+import { apiFetch, apiRequest } from './client';
+import {
+  menuVideoResponseDecoder,
+  surgeTrendVideoPageDecoder,
+  surgeVideoResponseDecoder,
+  trendVideoPageDecoder,
+} from './decoders';
+import { trendFiltersToQuery } from '../trends/filters';
+import { trendRegionToBackendQuery } from '../trends/region';
 
 export interface FetchSurgeVideosParams {
   platform?: string;
+  // 조회 지역 (기본 kr)
+  region?: TrendRegion;
   limit?: number;
   days?: number;
   velocity_days?: number;
 }
 
+export interface FetchTrendingVideosPageParams extends FetchSurgeVideosParams {
+  // 정렬 기준 (기본 surge_score). 정렬을 바꾸면 첫 페이지부터 다시 조회해야 합니다.
+  sort?: TrendSortKey;
+  // 서버 측 필터 (랭킹 계산 전에 적용)
+  filters?: TrendFilters;
+  // 이전 응답의 meta.next_cursor (첫 페이지는 생략)
+  cursor?: string | null;
+}
+
+export interface TrendExportDownload {
+  blob: Blob;
+  // Content-Disposition의 파일 이름
+  filename: string;
+}
+
+// 내보내기는 랭킹 전체를 직렬화하므로 목록 조회보다 제한 시간을 길게 둡니다.
+const TREND_EXPORT_TIMEOUT_MS = 30_000;
+
+export interface FetchMenuVideosParams {
+  category_id: string;
+  platform?: string;
+  // 조회 지역 (기본 kr)
+  region?: TrendRegion;
+  limit?: number;
+  days?: number;
+}
+
 /**
  * 급등 영상 목록을 가져옵니다.
  * @param params - 조회 파라미터
+ * @param signal - 요청 취소용 AbortSignal
  * @returns 급등 영상 배열
  */
 export async function fetchSurgeVideos(
-  params?: FetchSurgeVideosParams
+  params?: FetchSurgeVideosParams,
+  signal?: AbortSignal
 ): Promise<SurgeVideo[]> {
-  const searchParams = new URLSearchParams({
-    platform: params?.platform || 'youtube',
-    limit: String(params?.limit || 10),
-    days: String(params?.days || 14),
-    velocity_days: String(params?.velocity_days || 1),
+  const data = await apiRequest('/trends/videos/surge', {
+    query: {
+      platform: params?.platform || 'youtube',
+      ...trendRegionToBackendQuery(params?.region),
+      limit: params?.limit || 10,
+      days: params?.days || 14,
+      velocity_days: params?.velocity_days || 1,
+    },
+    signal,
+    // Next.js 캐싱 전략: 5분마다 재검증
+    next: { revalidate: 300 },
+    errorMessage: '급등 영상 조회 실패',
+    decoder: surgeVideoResponseDecoder,
+  });
+  return data.items;
+}
+
+/**
+ * 트렌드 영상 목록을 한 페이지씩 가져옵니다. (Next.js /api/trends/videos, 브라우저 전용)
+ * 같은 커서로 이어서 조회하면 랭킹이 바뀌어도 중복/누락 없이 다음 페이지를 받습니다.
+ * @param params - 조회 파라미터 (cursor 포함)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 영상 목록과 다음 페이지 커서가 담긴 meta
+ */
+export async function fetchTrendingVideosPage(
+  params?: FetchTrendingVideosPageParams,
+  signal?: AbortSignal
+): Promise<TrendVideoPage> {
+  return apiRequest('/api/trends/videos', {
+    baseUrl: '',
+    // 라우트 핸들러의 ETag로 재검증해 변경이 없으면 304 응답을 재사용합니다.
+    cache: 'no-cache',
+    query: toTrendPageQuery(params),
+    signal,
+    errorMessage: '트렌드 영상 조회 실패',
+    decoder: trendVideoPageDecoder,
   });
+}
 
-  try {
-    const response = await fetch(
-      `${API_BASE_URL}/trends/videos/surge?${searchParams}`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        // Next.js 캐싱 전략: 5분마다 재검증
-        next: { revalidate: 300 },
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new APIError(
-        errorData.detail || `급등 영상 조회 실패: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
-
-    const data: SurgeVideoResponse = await response.json();
-    return data.items;
-  } catch (error) {
-    if (error instanceof APIError) {
-      throw error;
-    }
-    throw new APIError(
-      '네트워크 오류가 발생했습니다. 인터넷 연결을 확인해주세요.',
-      0
-    );
-  }
+/**
+ * 급등 영상 랭킹을 점수 근거와 함께 한 페이지씩 가져옵니다. (Next.js /api/trends/videos/surge, 브라우저 전용)
+ * 정렬은 surge_score로 고정되므로 params.sort는 무시합니다.
+ * @param params - 조회 파라미터 (cursor 포함)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 점수 구성 요소, 기간 내 변화량이 포함된 영상 목록과 meta
+ */
+export async function fetchSurgeTrendPage(
+  params?: FetchTrendingVideosPageParams,
+  signal?: AbortSignal
+): Promise<SurgeTrendVideoPage> {
+  return apiRequest('/api/trends/videos/surge', {
+    baseUrl: '',
+    // 라우트 핸들러의 ETag로 재검증해 변경이 없으면 304 응답을 재사용합니다.
+    cache: 'no-cache',
+    query: toTrendPageQuery({ ...params, sort: undefined }),
+    signal,
+    errorMessage: '급등 영상 조회 실패',
+    decoder: surgeTrendVideoPageDecoder,
+  });
+}
+
+/**
+ * 필터/정렬이 적용된 트렌드 영상 랭킹 전체를 파일로 내려받습니다. (Next.js /api/trends/videos/export, 브라우저 전용)
+ * @param format - 파일 형식 (csv, json, xlsx)
+ * @param params - 조회 파라미터 (limit, cursor는 무시)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 파일 내용과 파일 이름
+ */
+export async function downloadTrendExport(
+  format: TrendExportFormat,
+  params?: FetchTrendingVideosPageParams,
+  signal?: AbortSignal
+): Promise<TrendExportDownload> {
+  return downloadExport('/api/trends/videos/export', format, toTrendPageQuery(params), signal);
+}
+
+/**
+ * 급등 영상 랭킹 전체를 파일로 내려받습니다. (Next.js /api/trends/videos/surge/export, 브라우저 전용)
+ * 정렬은 surge_score로 고정되므로 params.sort는 무시합니다.
+ * @param format - 파일 형식 (csv, json, xlsx)
+ * @param params - 조회 파라미터 (limit, cursor는 무시)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 파일 내용과 파일 이름
+ */
+export async function downloadSurgeTrendExport(
+  format: TrendExportFormat,
+  params?: FetchTrendingVideosPageParams,
+  signal?: AbortSignal
+): Promise<TrendExportDownload> {
+  return downloadExport(
+    '/api/trends/videos/surge/export',
+    format,
+    toTrendPageQuery({ ...params, sort: undefined }),
+    signal
+  );
+}
+
+/**
+ * 카테고리별 추천(메뉴) 영상 목록을 가져옵니다.
+ * @param params - 조회 파라미터
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 추천 영상 배열
+ */
+export async function fetchMenuVideos(
+  params: FetchMenuVideosParams,
+  signal?: AbortSignal
+): Promise<MenuVideo[]> {
+  const data = await apiRequest('/trends/menu', {
+    query: {
+      category_id: params.category_id,
+      limit: params.limit || 20,
+      days: params.days || 14,
+      platform: params.platform || 'youtube',
+      ...trendRegionToBackendQuery(params.region),
+    },
+    signal,
+    errorMessage: '카테고리 추천 영상 조회 실패',
+    decoder: menuVideoResponseDecoder,
+  });
+  return data.items;
+}
+
+function toTrendPageQuery(params?: FetchTrendingVideosPageParams) {
+  return {
+    platform: params?.platform || 'youtube',
+    region: params?.region,
+    limit: params?.limit || 10,
+    days: params?.days || 14,
+    velocity_days: params?.velocity_days || 1,
+    sort: params?.sort,
+    ...trendFiltersToQuery(params?.filters),
+    cursor: params?.cursor,
+  };
+}
+
+async function downloadExport(
+  path: string,
+  format: TrendExportFormat,
+  query: ReturnType<typeof toTrendPageQuery>,
+  signal?: AbortSignal
+): Promise<TrendExportDownload> {
+  const response = await apiFetch(path, {
+    baseUrl: '',
+    query: { ...query, limit: undefined, cursor: undefined, format },
+    signal,
+    timeoutMs: TREND_EXPORT_TIMEOUT_MS,
+    errorMessage: '트렌드 영상 내보내기 실패',
+  });
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `trendix-export.${format}`;
+  return { blob: await response.blob(), filename };
 }
@@ -63,6 +63,144 @@ export interface SurgeVideoResponse {
   items: SurgeVideo[];
 }
 
+// 트렌드 영상 목록 항목 (/api/trends/videos, 목록 표시와 정렬 기준에 필요한 필드만 포함)
+export type TrendVideo = Pick<
+  SurgeVideo,
+  | 'video_id'
+  | 'title'
+  | 'channel_id'
+  | 'channel_username'
+  | 'platform'
+  | 'category'
+  | 'category_id'
+  | 'duration'
+  | 'view_count'
+  | 'like_count'
+  | 'like_count_prev'
+  | 'comment_count'
+  | 'published_at'
+  | 'thumbnail_url'
+  | 'crawled_at'
+  | 'is_shorts'
+  | 'surge_score'
+  | 'total_score'
+  | 'freshness_score'
+  | 'delta_views_window'
+  | 'growth_rate_window'
+  | 'view_velocity'
+  | 'like_velocity'
+  | 'comment_velocity'
+  | 'age_hours'
+> & {
+  // 스냅샷 기준 순위 (페이지가 바뀌어도 이어짐)
+  trending_rank: number;
+};
+
+// 트렌드 영상 목록 정렬 기준 (SurgeVideo의 점수/증가 지표 필드명)
+export type TrendSortKey =
+  | 'surge_score'
+  | 'view_velocity'
+  | 'growth_rate_window'
+  | 'freshness_score'
+  | 'like_velocity'
+  | 'comment_velocity'
+  | 'total_score';
+
+// 트렌드 조회 지역 (지역별 인기 영상과 언어 기준, global은 지역 구분 없음)
+export type TrendRegion = 'kr' | 'jp' | 'us' | 'global';
+
+// 트렌드 영상 목록 내보내기 형식 (/api/trends/videos/export?format=)
+export type TrendExportFormat = 'csv' | 'json' | 'xlsx';
+
+// 영상 길이 구간 (YouTube 검색 필터 기준: short < 4분, medium 4~20분, long > 20분)
+export type DurationBucket = 'short' | 'medium' | 'long';
+
+// 트렌드 영상 목록 필터 (지정한 조건만 포함, 랭킹 계산 전에 적용)
+export interface TrendFilters {
+  // true: 쇼츠만, false: 롱폼만
+  is_shorts?: boolean;
+  category_id?: number;
+  min_views?: number;
+  max_views?: number;
+  // 최근 N시간 이내 게시
+  published_within_hours?: number;
+  channel_id?: string;
+  // 여러 구간 지정 가능 (OR)
+  duration?: DurationBucket[];
+}
+
+export interface TrendVideoPageMeta {
+  platform: string;
+  region: TrendRegion;
+  sort: TrendSortKey;
+  // 적용된 필터
+  filters: TrendFilters;
+  limit: number;
+  requested_limit: number;
+  days: number;
+  velocity_days: number;
+  // 다음 페이지 커서 (마지막 페이지면 null)
+  next_cursor: string | null;
+  has_more: boolean;
+  // 랭킹 스냅샷 생성 시각
+  snapshot_at: string | null;
+  message?: string;
+}
+
+export interface TrendVideoPage {
+  items: TrendVideo[];
+  meta: TrendVideoPageMeta;
+}
+
+// 급등 점수 구성 요소
+export type SurgeFactor = keyof SurgeVideo['surge_components'];
+
+// 급등 영상 항목 (/api/trends/videos/surge, 점수 근거 포함)
+export type SurgeTrendVideo = TrendVideo &
+  Pick<SurgeVideo, 'surge_components'> & {
+    // 증가 집계 기간(velocity_days) 동안의 변화량
+    window_deltas: {
+      views: number;
+      likes: number;
+      comments: number;
+      // 조회수 증가율 (0.25 = 25%)
+      view_growth_rate: number;
+    };
+    // 급등 점수에 가장 크게 기여한 요소
+    primary_factor: SurgeFactor;
+  };
+
+export interface SurgeTrendVideoPage {
+  items: SurgeTrendVideo[];
+  meta: TrendVideoPageMeta;
+}
+
+// 카테고리별 추천(메뉴) 영상 타입 (/trends/menu)
+export interface MenuVideo {
+  video_id: string;
+  title: string;
+  channel_id: string;
+  channel_username?: string;
+  platform?: string;
+  category?: string | null;
+  category_id?: string | number | null;
+  view_count: number;
+  like_count?: number | null;
+  comment_count?: number | null;
+  published_at: string;
+  thumbnail_url: string;
+  is_shorts?: boolean | null;
+
+  // 성장 지표
+  view_count_change?: number;
+  like_count_change?: number;
+  growth_rate_percentage?: number;
+}
+
+export interface MenuVideoResponse {
+  items: MenuVideo[];
+}
+
 // 영상 분석 관련 타입
 export interface VideoAnalysis {
   video: {
@@ -136,12 +274,279 @@ export interface ChannelAnalytics {
   surge_video_count: number;
 }
 
+// 조회수 추이 응답 타입 (/trends/videos/{video_id}/view_history)
+// 조회수 추이 구간 단위 (/api/trends/videos/{video_id}/view_history?granularity=)
+export type ViewHistoryGranularity = 'hour' | 'day' | 'week';
+
+export interface ViewHistoryItem {
+  // 구간 시작 (tz 기준, day/week: YYYY-MM-DD, hour: YYYY-MM-DDTHH:00)
+  snapshot_date: string;
+  // 구간 시작 시각 (ISO 8601, UTC)
+  bucket_start?: string;
+  view_count: number;
+  like_count: number;
+  comment_count: number;
+}
+
+export type ViewHistoryCounts = Pick<ViewHistoryItem, 'view_count' | 'like_count' | 'comment_count'>;
+
+// 조회수 추이 구간별 파생 지표 (app/lib/trends/view-metrics.ts, 이전 구간이 없거나 조회수가 0이면 null)
+export interface ViewHistoryMetrics {
+  // 이전 구간 대비 증가량
+  view_delta: number | null;
+  like_delta: number | null;
+  comment_delta: number | null;
+  // 이전 구간 누적 조회수 대비 증가율 (0.12 = 12%)
+  view_growth_rate: number | null;
+  // 누적 조회수 대비 좋아요/댓글 비율
+  like_view_ratio: number | null;
+  comment_view_ratio: number | null;
+  // 최근 구간 증가량 이동평균 (meta.moving_average_window 구간)
+  view_delta_avg: number | null;
+  like_delta_avg: number | null;
+  // 조회수 증가량의 변화 (이번 증가량 - 이전 증가량)
+  view_acceleration: number | null;
+}
+
+export interface DerivedViewHistoryItem extends ViewHistoryItem, ViewHistoryMetrics {}
+
+// 이상 구간 사유 (조회수 급등, 수집 공백 의심, 좋아요 비율 급락)
+export type ViewHistoryAnomalyReason = 'view_spike' | 'crawl_gap' | 'like_ratio_drop';
+
+export interface ViewHistoryAnomaly {
+  snapshot_date: string;
+  bucket_start?: string;
+  reasons: ViewHistoryAnomalyReason[];
+  // 직전 구간 조회수 증가량 중앙값 (기준선)
+  view_delta_baseline: number | null;
+  // 기준선 대비 조회수 증가량의 robust z-score
+  view_delta_score: number | null;
+  // 기준선 대비 구간 좋아요 전환율(좋아요 증가량 / 조회수 증가량)의 robust z-score
+  like_rate_score: number | null;
+}
+
+export interface ViewHistoryResponse {
+  history: DerivedViewHistoryItem[];
+  // 이상 구간 (오래된 순, history의 snapshot_date와 같은 값)
+  anomalies?: ViewHistoryAnomaly[];
+  meta?: {
+    video_id: string | null;
+    platform: string;
+    limit: number;
+    requested_limit?: number;
+    granularity?: ViewHistoryGranularity;
+    time_zone?: string;
+    // 요청한 기간 (ISO 8601, 지정하지 않았으면 null)
+    from?: string | null;
+    to?: string | null;
+    latest?: boolean;
+    moving_average_window?: number;
+    anomaly_threshold?: number;
+    message?: string;
+  };
+}
+
+// 여러 영상 조회수 추이 (/api/trends/videos/view_history)
+// calendar: 같은 시각 구간끼리, publish: 게시 후 경과 시간이 같은 구간끼리 정렬
+export type ViewHistoryAlignment = 'calendar' | 'publish';
+
+export interface ViewHistoryBatchBucket {
+  // calendar: tz 기준 구간 시작 (snapshot_date와 같은 형식), publish: 게시 후 경과 (+6h, D+1, W+1)
+  label: string;
+  // calendar: 구간 시작 시각 (ISO 8601, UTC)
+  bucket_start?: string;
+  // publish: 구간 시작까지 게시 후 경과 시간
+  hours_since_publish?: number;
+}
+
+export type ViewHistoryBatchPoint = ViewHistoryCounts & ViewHistoryMetrics;
+
+export interface ViewHistorySeries {
+  video_id: string;
+  published_at: string | null;
+  // buckets와 같은 순서 (해당 구간에 스냅샷이 없으면 null)
+  points: (ViewHistoryBatchPoint | null)[];
+}
+
+export interface ViewHistoryBatchResponse {
+  buckets: ViewHistoryBatchBucket[];
+  series: ViewHistorySeries[];
+  meta: {
+    platform: string;
+    align: ViewHistoryAlignment;
+    granularity: ViewHistoryGranularity;
+    time_zone: string;
+    from: string | null;
+    to: string | null;
+    latest: boolean;
+    // 반환된 구간 수
+    limit: number;
+    requested_limit: number;
+    moving_average_window: number;
+    // 반환한 구간에 스냅샷이 하나도 없는 영상
+    missing_video_ids: string[];
+    message?: string;
+  };
+}
+
+// 채널 단위 조회수 추이 (/api/trends/channels/{channel_id}/history)
+export interface ChannelHistoryItem {
+  // 구간 시작 (tz 기준, snapshot_date와 같은 형식)
+  snapshot_date: string;
+  // 구간 시작 시각 (ISO 8601, UTC)
+  bucket_start: string;
+  // 채널 영상들의 직전 구간 대비 조회수 증가량 합계
+  views_gained: number;
+  // 구간에 수집된 영상 수
+  videos_crawled: number;
+  // 구간 증가량 기준 급등 영상 수
+  surge_videos: number;
+  // (좋아요 + 댓글) / 조회수 중앙값 (수집된 영상이 없으면 null)
+  median_engagement: number | null;
+}
+
+export interface ChannelHistoryResponse {
+  history: ChannelHistoryItem[];
+  meta: {
+    channel_id: string | null;
+    platform: string;
+    granularity: ViewHistoryGranularity;
+    time_zone: string;
+    from: string | null;
+    to: string | null;
+    latest: boolean;
+    limit: number;
+    requested_limit: number;
+    surge_score_threshold: number;
+    message?: string;
+  };
+}
+
+// 채널 성과 분석 타입 (/analysis/channel)
+export interface ChannelPerformanceVideo {
+  id: string;
+  title: string;
+  thumbnailUrl: string;
+  viewCount: number;
+  trendAvgViewCount: number;
+  publishedAt: string;
+  performance: 'above' | 'average' | 'below';
+}
+
+export interface ChannelData {
+  channelId: string;
+  channelName: string;
+  channelThumbnail: string;
+  subscriberCount: number;
+  totalVideos: number;
+  recentVideos: ChannelPerformanceVideo[];
+  overallPerformance: number;  // 트렌드 대비 성과 (%)
+}
+
+// 쇼츠 비교 분석 타입 (/analysis/shorts/compare)
+export interface CompareVideoCore {
+  id: string;
+  title: string;
+  channel_name: string;
+  thumbnail_url: string;
+  duration_sec: number;
+  format_label: string;
+  published_ago: string;
+}
+
+export interface HookProfile {
+  opening_line: string;
+  visual_cue: string;
+  caption_style: string;
+  pacing: string;
+  hook_score: number;
+}
+
+export interface FormatProfile {
+  duration_sec: number;
+  aspect_ratio: string;
+  cut_count: number;
+  text_density: string;
+  audio_style: string;
+}
+
+export interface ReactionMetrics {
+  views: number;
+  likes: number;
+  comments: number;
+  like_rate: number;
+  completion_rate: number;
+  retention_3s: number;
+  share_rate: number;
+}
+
+export interface CompareAnalysis {
+  my_video: CompareVideoCore;
+  trend_video: CompareVideoCore;
+  hook_comparison: {
+    my: HookProfile;
+    trend: HookProfile;
+    takeaways: string[];
+  };
+  format_comparison: {
+    my: FormatProfile;
+    trend: FormatProfile;
+    differences: string[];
+  };
+  reaction_comparison: {
+    my: ReactionMetrics;
+    trend: ReactionMetrics;
+    insights: string[];
+  };
+  ai_summary: {
+    headline: string;
+    action_items: string[];
+    next_experiment: string;
+  };
+  trust_signals: string[];
+}
+
+// 영상 상세 분석 타입 (/analysis/videos/{video_id})
+export interface VideoDetail {
+  id: string;
+  title: string;
+  description: string;
+  channelName: string;
+  channelId: string;
+  channelThumbnail: string;
+  thumbnailUrl: string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+  publishedAt: string;
+  duration: string;
+  categoryId: string;
+  categoryName: string;
+  tags: string[];
+  isShort: boolean;
+  trendingRank?: number;
+  trendingReason?: string;
+  // 시계열 데이터
+  viewHistory: { time: string; count: number }[];
+  likeHistory: { time: string; count: number }[];
+}
+
 // API 에러 타입
+// - HTTP: 백엔드가 2xx 이외의 상태 코드를 반환
+// - NETWORK: 네트워크 단절 등으로 응답을 받지 못함
+// - TIMEOUT: 요청별 타임아웃 초과
+// - ABORTED: 호출 측 AbortSignal로 취소됨
+// - CONFIG: NEXT_PUBLIC_API_BASE_URL 등 환경 설정 누락
+// - PARSE: 응답 본문을 JSON으로 해석할 수 없음
+// - INVALID_RESPONSE: 응답 구조가 기대한 스키마와 다름 (details.fields에 실패한 필드 목록)
+export type APIErrorCode = 'HTTP' | 'NETWORK' | 'TIMEOUT' | 'ABORTED' | 'CONFIG' | 'PARSE' | 'INVALID_RESPONSE';
+
 export class APIError extends Error {
   constructor(
     message: string,
     public statusCode: number,
-    public details?: any
+    public details?: any,
+    public code: APIErrorCode = statusCode > 0 ? 'HTTP' : 'NETWORK'
   ) {
     super(message);
     this.name = 'APIError';
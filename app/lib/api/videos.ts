@@ -1,200 +1,170 @@
 // 영상 메타데이터 및 분석 API 호출 함수
 
-import { VideoAnalysis, VideoViewHistory, APIError } from './types';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
+import {
+  VideoAnalysis,
+  VideoViewHistory,
+  ViewHistoryAlignment,
+  ViewHistoryBatchResponse,
+  ViewHistoryGranularity,
+  ViewHistoryResponse,
+} from './types';
+import { apiRequest } from './client';
+import {
+  videoAnalysisDecoder,
+  videoViewHistoryDecoder,
+  viewHistoryBatchResponseDecoder,
+  viewHistoryResponseDecoder,
+} from './decoders';
+import { parseYouTubeVideo } from '@/app/lib/youtube/url';
+import { DEFAULT_PLATFORM, getPlatformApiBaseUrl, PlatformId } from '@/app/lib/platforms';
 
 /**
  * YouTube URL에서 video_id를 추출합니다.
- * @param url - YouTube URL (watch?v=, shorts/, youtu.be 등 지원)
+ * 지원 형식과 실패 사유가 필요하면 '@/app/lib/youtube/url' 의 parseYouTubeVideo를 사용하세요.
+ * @param url - YouTube URL (watch?v=, shorts/, embed/, live/, youtu.be, m./music. 도메인 등) 또는 video_id
  * @returns video_id 또는 null
  */
 export function extractVideoId(url: string): string | null {
-  try {
-    // URL 객체로 파싱
-    const urlObj = new URL(url);
-
-    // youtube.com/watch?v=VIDEO_ID
-    if (urlObj.hostname.includes('youtube.com') && urlObj.searchParams.has('v')) {
-      return urlObj.searchParams.get('v');
-    }
-
-    // youtube.com/shorts/VIDEO_ID
-    if (urlObj.hostname.includes('youtube.com') && urlObj.pathname.startsWith('/shorts/')) {
-      return urlObj.pathname.split('/')[2];
-    }
-
-    // youtu.be/VIDEO_ID
-    if (urlObj.hostname === 'youtu.be') {
-      return urlObj.pathname.slice(1); // '/' 제거
-    }
-
-    return null;
-  } catch (error) {
-    // URL 파싱 실패 시 직접 video_id로 간주
-    // YouTube video_id는 11자리 영숫자
-    if (/^[a-zA-Z0-9_-]{11}$/.test(url.trim())) {
-      return url.trim();
-    }
-    return null;
-  }
+  const parsed = parseYouTubeVideo(url);
+  return parsed.ok ? parsed.videoId : null;
 }
 
 /**
- * YouTube 영상 데이터를 수집합니다.
- * @param videoId - YouTube 영상 ID
+ * 영상 데이터를 수집합니다.
+ * @param videoId - 플랫폼 영상 ID
+ * @param signal - 요청 취소용 AbortSignal
+ * @param options.platform - 플랫폼 (기본 youtube)
  * @returns 수집 결과
  */
-export async function ingestVideo(videoId: string): Promise<{ message: string; video_id: string }> {
-  try {
-    const response = await fetch(
-      `${API_BASE_URL}/ingestion/youtube/video/${videoId}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        // 수집은 캐시하지 않음
-        cache: 'no-store',
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new APIError(
-        errorData.detail || `영상 수집 실패: ${response.statusText}`,
-        response.status,
-        errorData
-      );
+export async function ingestVideo(
+  videoId: string,
+  signal?: AbortSignal,
+  options: { platform?: PlatformId } = {}
+): Promise<{ message: string; video_id: string }> {
+  const platform = options.platform ?? DEFAULT_PLATFORM;
+  return apiRequest<{ message: string; video_id: string }>(
+    `/ingestion/${platform}/video/${encodeURIComponent(videoId)}`,
+    {
+      method: 'POST',
+      baseUrl: getPlatformApiBaseUrl(platform),
+      signal,
+      // 수집은 크롤링을 포함하므로 타임아웃을 넉넉히 둡니다.
+      timeoutMs: 30_000,
+      errorMessage: '영상 수집 실패',
     }
-
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    if (error instanceof APIError) {
-      throw error;
-    }
-    throw new APIError(
-      '네트워크 오류가 발생했습니다. 인터넷 연결을 확인해주세요.',
-      0
-    );
-  }
+  );
 }
 
 /**
  * 영상 분석 데이터를 가져옵니다.
- * @param videoId - YouTube 영상 ID
+ * @param videoId - 플랫폼 영상 ID
+ * @param signal - 요청 취소용 AbortSignal
+ * @param options.fresh - 캐시를 사용하지 않고 항상 새로 조회 (수집 직후 폴링용)
+ * @param options.platform - 플랫폼 (기본 youtube)
  * @returns 영상 분석 데이터 (메타데이터 + 키워드 + 감정 분석)
  */
-export async function getVideoAnalysis(videoId: string): Promise<VideoAnalysis> {
-  try {
-    const response = await fetch(
-      `${API_BASE_URL}/ingestion/youtube/video/${videoId}/analysis`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        // 분석 데이터는 5분마다 재검증
-        next: { revalidate: 300 },
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-
+export async function getVideoAnalysis(
+  videoId: string,
+  signal?: AbortSignal,
+  options: { fresh?: boolean; platform?: PlatformId } = {}
+): Promise<VideoAnalysis> {
+  const platform = options.platform ?? DEFAULT_PLATFORM;
+  return apiRequest<VideoAnalysis>(
+    `/ingestion/${platform}/video/${encodeURIComponent(videoId)}/analysis`,
+    {
+      baseUrl: getPlatformApiBaseUrl(platform),
+      signal,
+      // 분석 데이터는 5분마다 재검증
+      next: options.fresh ? undefined : { revalidate: 300 },
+      errorMessage: '영상 분석 조회 실패',
       // 404는 아직 수집되지 않은 영상
-      if (response.status === 404) {
-        throw new APIError(
-          '영상 데이터가 없습니다. 먼저 수집을 진행해주세요.',
-          404,
-          errorData
-        );
-      }
-
-      throw new APIError(
-        errorData.detail || `영상 분석 조회 실패: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
-
-    const data: VideoAnalysis = await response.json();
-    return data;
-  } catch (error) {
-    if (error instanceof APIError) {
-      throw error;
+      notFoundMessage: '영상 데이터가 없습니다. 먼저 수집을 진행해주세요.',
+      decoder: videoAnalysisDecoder,
     }
-    throw new APIError(
-      '네트워크 오류가 발생했습니다. 인터넷 연결을 확인해주세요.',
-      0
-    );
-  }
+  );
 }
 
 /**
  * 영상의 조회수 히스토리를 가져옵니다.
  * @param videoId - YouTube 영상 ID
+ * @param signal - 요청 취소용 AbortSignal
  * @returns 시계열 조회수 데이터
  */
-export async function getVideoViewHistory(videoId: string): Promise<VideoViewHistory> {
-  try {
-    const response = await fetch(
-      `${API_BASE_URL}/ingestion/youtube/video/${videoId}/history`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        // 히스토리 데이터는 1시간마다 재검증
-        next: { revalidate: 3600 },
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-
+export async function getVideoViewHistory(videoId: string, signal?: AbortSignal): Promise<VideoViewHistory> {
+  return apiRequest<VideoViewHistory>(
+    `/ingestion/youtube/video/${encodeURIComponent(videoId)}/history`,
+    {
+      signal,
+      // 히스토리 데이터는 1시간마다 재검증
+      next: { revalidate: 3600 },
+      errorMessage: '히스토리 조회 실패',
       // 404는 히스토리 데이터가 아직 없는 경우
-      if (response.status === 404) {
-        throw new APIError(
-          '조회수 히스토리 데이터가 없습니다.',
-          404,
-          errorData
-        );
-      }
-
-      throw new APIError(
-        errorData.detail || `히스토리 조회 실패: ${response.statusText}`,
-        response.status,
-        errorData
-      );
+      notFoundMessage: '조회수 히스토리 데이터가 없습니다.',
+      decoder: videoViewHistoryDecoder,
     }
-
-    const data: VideoViewHistory = await response.json();
-    return data;
-  } catch (error) {
-    if (error instanceof APIError) {
-      throw error;
-    }
-    throw new APIError(
-      '네트워크 오류가 발생했습니다. 인터넷 연결을 확인해주세요.',
-      0
-    );
-  }
+  );
 }
 
 /**
- * 영상을 수집하고 분석 데이터를 가져옵니다. (편의 함수)
- * @param videoId - YouTube 영상 ID
- * @returns 영상 분석 데이터
+ * 영상의 구간별 조회수 추이를 파생 지표(증가량, 성장률, 비율, 이동평균, 가속도)와 함께 가져옵니다.
+ * (Next.js /api/trends/videos/[video_id]/view_history, 브라우저 전용)
+ * @param videoId - 플랫폼 영상 ID
+ * @param options.platform - 플랫폼 (기본 youtube)
+ * @param options.limit - 최대 구간 수 (기본 30)
+ * @param options.granularity - 구간 단위 (기본 day)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 오래된 순 구간별 추이와 meta
  */
-export async function ingestAndGetAnalysis(videoId: string): Promise<VideoAnalysis> {
-  // 먼저 수집 시도
-  await ingestVideo(videoId);
-
-  // 수집 후 약간의 지연 (백엔드 처리 시간 고려)
-  await new Promise(resolve => setTimeout(resolve, 2000));
+export async function fetchVideoViewHistory(
+  videoId: string,
+  options: { platform?: PlatformId; limit?: number; granularity?: ViewHistoryGranularity } = {},
+  signal?: AbortSignal
+): Promise<ViewHistoryResponse> {
+  return apiRequest(`/api/trends/videos/${encodeURIComponent(videoId)}/view_history`, {
+    baseUrl: '',
+    query: {
+      platform: options.platform ?? DEFAULT_PLATFORM,
+      limit: options.limit,
+      granularity: options.granularity,
+    },
+    signal,
+    errorMessage: '조회수 추이 조회 실패',
+    decoder: viewHistoryResponseDecoder,
+  });
+}
 
-  // 분석 데이터 조회
-  return await getVideoAnalysis(videoId);
+/**
+ * 여러 영상(최대 20개)의 조회수 추이를 공통 구간 축에 맞춰 한 번에 가져옵니다.
+ * (Next.js /api/trends/videos/view_history, 브라우저 전용)
+ * @param videoIds - 플랫폼 영상 ID 목록
+ * @param options.platform - 플랫폼 (기본 youtube)
+ * @param options.align - calendar(같은 시각 구간) 또는 publish(게시 후 경과 시간, 기본 calendar)
+ * @param options.limit - 최대 구간 수 (기본 30)
+ * @param options.granularity - 구간 단위 (기본 day)
+ * @param signal - 요청 취소용 AbortSignal
+ * @returns 공통 구간 축과 영상별 구간 값 (스냅샷이 없는 구간은 null)
+ */
+export async function fetchVideoViewHistoryBatch(
+  videoIds: string[],
+  options: {
+    platform?: PlatformId;
+    align?: ViewHistoryAlignment;
+    limit?: number;
+    granularity?: ViewHistoryGranularity;
+  } = {},
+  signal?: AbortSignal
+): Promise<ViewHistoryBatchResponse> {
+  return apiRequest('/api/trends/videos/view_history', {
+    baseUrl: '',
+    query: {
+      video_ids: videoIds.join(','),
+      platform: options.platform ?? DEFAULT_PLATFORM,
+      align: options.align,
+      limit: options.limit,
+      granularity: options.granularity,
+    },
+    signal,
+    errorMessage: '조회수 추이 조회 실패',
+    decoder: viewHistoryBatchResponseDecoder,
+  });
 }
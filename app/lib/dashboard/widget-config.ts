@@ -0,0 +1,112 @@
+// 대시보드 위젯 설정 스키마
+// - 위젯마다 설정 항목(종류, 라벨, 기본값, 허용 범위)을 선언하고, 저장된 설정은 스키마로 정규화해 사용합니다.
+// - 저장된 값이 없거나 잘못되면(다른 타입, 없는 선택지) 기본값을 쓰고, 숫자는 범위 안으로 맞춥니다. 스키마에 없는 키는 버립니다.
+// - 필드는 선언 순서대로 정규화하므로, 선택지가 다른 필드 값에 따라 바뀌는 select는 그 필드보다 뒤에 선언합니다.
+
+export interface SelectConfigOption {
+  value: string;
+  label: string;
+}
+
+// 정규화가 끝난 앞쪽 필드 값
+export type PartialWidgetConfig = Readonly<Record<string, WidgetConfigValue | undefined>>;
+
+export interface SelectConfigField {
+  type: 'select';
+  label: string;
+  // 앞쪽 필드 값(예: 플랫폼)에 따라 선택지가 바뀌면 함수로 선언합니다.
+  options: readonly SelectConfigOption[] | ((config: PartialWidgetConfig) => readonly SelectConfigOption[]);
+  default: string;
+}
+
+export interface NumberConfigField {
+  type: 'number';
+  label: string;
+  min: number;
+  max: number;
+  // 값 간격 (min부터, 생략하면 1)
+  step?: number;
+  default: number;
+}
+
+export interface BooleanConfigField {
+  type: 'boolean';
+  label: string;
+  default: boolean;
+}
+
+export interface TextConfigField {
+  type: 'text';
+  label: string;
+  maxLength: number;
+  placeholder?: string;
+  // 잘못된 값이면 오류 메시지 (정규화 시 기본값으로 바뀝니다)
+  validate?: (value: string) => string | null;
+  default: string;
+}
+
+export type WidgetConfigField = SelectConfigField | NumberConfigField | BooleanConfigField | TextConfigField;
+
+export type WidgetConfigSchema = Record<string, WidgetConfigField>;
+
+export type WidgetConfigValue<F extends WidgetConfigField = WidgetConfigField> = F extends NumberConfigField
+  ? number
+  : F extends BooleanConfigField
+    ? boolean
+    : string;
+
+// 스키마로 정해지는 설정 값 타입 (예: { days: { type: 'number', … } } → { days: number })
+export type WidgetConfig<S extends WidgetConfigSchema> = { [K in keyof S]: WidgetConfigValue<S[K]> };
+
+/**
+ * 스키마의 기본값으로 설정을 만듭니다.
+ * @param schema - 위젯 설정 스키마
+ */
+export function getDefaultWidgetConfig<S extends WidgetConfigSchema>(schema: S): WidgetConfig<S> {
+  return normalizeWidgetConfig(schema, undefined);
+}
+
+/**
+ * 저장된 설정을 스키마에 맞게 정규화합니다.
+ * @param schema - 위젯 설정 스키마
+ * @param raw - 저장된 설정 (형식을 알 수 없는 값)
+ */
+export function normalizeWidgetConfig<S extends WidgetConfigSchema>(schema: S, raw: unknown): WidgetConfig<S> {
+  const source = raw !== null && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const config: Record<string, WidgetConfigValue> = {};
+  for (const [key, field] of Object.entries(schema)) {
+    config[key] = normalizeFieldValue(field, source[key], config);
+  }
+  return config as WidgetConfig<S>;
+}
+
+/**
+ * select 필드의 선택지를 반환합니다.
+ * @param field - select 필드
+ * @param config - 현재 설정 (선택지가 다른 필드 값에 따라 바뀔 때 사용)
+ */
+export function getSelectConfigOptions(field: SelectConfigField, config: PartialWidgetConfig): readonly SelectConfigOption[] {
+  return typeof field.options === 'function' ? field.options(config) : field.options;
+}
+
+function normalizeFieldValue(field: WidgetConfigField, value: unknown, config: PartialWidgetConfig): WidgetConfigValue {
+  switch (field.type) {
+    case 'select': {
+      const options = getSelectConfigOptions(field, config);
+      return typeof value === 'string' && options.some((option) => option.value === value) ? value : field.default;
+    }
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return field.default;
+      const step = field.step ?? 1;
+      const stepped = field.min + Math.round((value - field.min) / step) * step;
+      return Math.min(field.max, Math.max(field.min, stepped));
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : field.default;
+    case 'text': {
+      if (typeof value !== 'string') return field.default;
+      const text = value.trim().slice(0, field.maxLength);
+      return field.validate?.(text) ? field.default : text;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+// 영상 스냅샷 구간 집계 공통 쿼리 (public.video)
+// crawled_at, published_at이 timestamp(시간대 없음)이면 DB 세션 시간대의 시각으로 해석됩니다.
+
+import type { ViewHistoryGranularity } from '@/app/lib/api/types';
+import { dbQuery } from './pool';
+
+export interface VideoBucketCounts {
+  view_count: number;
+  like_count: number;
+  comment_count: number;
+}
+
+// 영상별 구간 최대(최신) 누적값
+export interface VideoBucketRow extends VideoBucketCounts {
+  video_id: string;
+  // tz 기준 구간 시작 시각
+  bucket_start: Date;
+  published_at: Date | null;
+}
+
+export interface BucketRange {
+  granularity: ViewHistoryGranularity;
+  // date_trunc 기준 시간대 (IANA 이름)
+  timeZone: string;
+  // crawled_at 기간 (시작 포함, 끝 미포함, null이면 제한 없음)
+  from: Date | null;
+  to: Date | null;
+}
+
+// 영상 묶음을 고르는 조건 (video_id 목록, 채널, 카테고리)
+export type VideoGroupFilter =
+  | { column: 'video_id'; values: string[] }
+  | { column: 'channel_id'; value: string }
+  | { column: 'category_id'; value: string };
+
+export type RawCountsRow = {
+  view_count: string | null;
+  like_count: string | null;
+  comment_count: string | null;
+};
+
+/**
+ * int8 집계값(문자열)을 숫자로 변환합니다.
+ */
+export function toBucketCounts(row: RawCountsRow): VideoBucketCounts {
+  return {
+    view_count: Number(row.view_count) || 0,
+    like_count: Number(row.like_count) || 0,
+    comment_count: Number(row.comment_count) || 0,
+  };
+}
+
+/**
+ * 조건에 맞는 영상들의 영상별, 구간별 최대 누적값을 가져옵니다.
+ * @param filter - 영상 묶음 조건
+ * @param platform - 플랫폼 ID
+ * @param range - 구간 단위, 시간대, 기간
+ */
+export async function queryVideoGroupBuckets(
+  filter: VideoGroupFilter,
+  platform: string,
+  range: BucketRange
+): Promise<VideoBucketRow[]> {
+  const condition =
+    filter.column === 'video_id'
+      ? 'video_id = ANY($1::text[])'
+      : filter.column === 'channel_id'
+        ? 'channel_id = $1'
+        : 'category_id::text = $1';
+
+  const rows = await dbQuery<RawCountsRow & { video_id: string; bucket_start: Date; published_at: Date | null }>(
+    `
+    SELECT
+      video_id,
+      date_trunc($3, crawled_at::timestamptz, $4) AS bucket_start,
+      MIN(published_at::timestamptz) AS published_at,
+      MAX(view_count) AS view_count,
+      MAX(like_count) AS like_count,
+      MAX(comment_count) AS comment_count
+    FROM public.video
+    WHERE ${condition}
+      AND platform = $2
+      AND crawled_at IS NOT NULL
+      AND ($5::timestamptz IS NULL OR crawled_at >= $5::timestamptz)
+      AND ($6::timestamptz IS NULL OR crawled_at < $6::timestamptz)
+    GROUP BY video_id, bucket_start
+    `,
+    [
+      filter.column === 'video_id' ? filter.values : filter.value,
+      platform,
+      range.granularity,
+      range.timeZone,
+      range.from,
+      range.to,
+    ]
+  );
+
+  return rows.map((row) => ({
+    video_id: row.video_id,
+    bucket_start: row.bucket_start,
+    published_at: row.published_at,
+    ...toBucketCounts(row),
+  }));
+}
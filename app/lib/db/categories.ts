@@ -0,0 +1,18 @@
+// 카테고리 단위 집계 쿼리 (public.video)
+
+import { BucketRange, queryVideoGroupBuckets, VideoBucketRow } from './buckets';
+
+/**
+ * 카테고리 영상들의 영상별, 구간별 최대 누적값을 한 번에 가져옵니다.
+ * 구간별 합계는 채널과 같은 방식(aggregateChannelHistory)으로 계산할 수 있습니다.
+ * @param categoryId - 카테고리 ID (YouTube 카테고리 ID 등)
+ * @param platform - 플랫폼 ID
+ * @param range - 구간 단위, 시간대, 기간
+ */
+export async function queryCategoryVideoBuckets(
+  categoryId: string,
+  platform: string,
+  range: BucketRange
+): Promise<VideoBucketRow[]> {
+  return queryVideoGroupBuckets({ column: 'category_id', value: categoryId }, platform, range);
+}
@@ -0,0 +1,18 @@
+// 채널 단위 집계 쿼리 (public.video)
+
+import { BucketRange, queryVideoGroupBuckets, VideoBucketRow } from './buckets';
+
+/**
+ * 채널 영상들의 영상별, 구간별 최대 누적값을 한 번에 가져옵니다.
+ * 구간별 합계는 app/lib/trends/channel-history.ts 의 aggregateChannelHistory로 계산합니다.
+ * @param channelId - 채널 ID
+ * @param platform - 플랫폼 ID
+ * @param range - 구간 단위, 시간대, 기간
+ */
+export async function queryChannelVideoBuckets(
+  channelId: string,
+  platform: string,
+  range: BucketRange
+): Promise<VideoBucketRow[]> {
+  return queryVideoGroupBuckets({ column: 'channel_id', value: channelId }, platform, range);
+}
@@ -0,0 +1,11 @@
+// PostgreSQL 데이터 접근 모듈 (서버 전용)
+// - 라우트 핸들러는 pg를 직접 쓰지 않고 이 모듈의 타입이 붙은 쿼리 함수를 사용합니다.
+// - 풀 설정과 종료 처리는 ./pool, public.video 구간 집계는 ./buckets에 있습니다.
+
+export { closeDbPool, dbQuery, getDbPool, isDatabaseConfigured, readDbPoolConfig } from './pool';
+export type { DbPoolConfig } from './pool';
+export type { BucketRange, VideoBucketCounts, VideoBucketRow } from './buckets';
+export { queryVideoHistory, queryVideosHistory, queryVideosSincePublish } from './videos';
+export type { VideoHistoryBucket, VideoPublishBucketRow } from './videos';
+export { queryChannelVideoBuckets } from './channels';
+export { queryCategoryVideoBuckets } from './categories';
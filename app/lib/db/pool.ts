@@ -0,0 +1,127 @@
+// PostgreSQL 연결 풀 (서버 전용)
+// - 라우트 핸들러와 요청 제한 저장소가 프로세스당 하나의 풀을 공유합니다.
+// - 설정은 환경 변수로 바꿀 수 있습니다. (연결: DATABASE_URL 또는 SQL_HOST, 나머지는 DB_* 값)
+// - 문장마다 statement_timeout을 걸어 느린 쿼리가 연결을 오래 잡지 않도록 합니다.
+// - SIGTERM/SIGINT를 받으면 진행 중인 쿼리가 끝난 뒤 풀을 닫습니다.
+
+import { Pool, QueryResultRow } from 'pg';
+
+export interface DbPoolConfig {
+  connectionString: string;
+  // 최대 연결 수
+  max: number;
+  idleTimeoutMs: number;
+  connectionTimeoutMs: number;
+  // 문장 실행 제한 시간 (DB에서 취소, 0이면 제한 없음)
+  statementTimeoutMs: number;
+}
+
+const DEFAULT_CONFIG: Omit<DbPoolConfig, 'connectionString'> = {
+  max: 20,
+  idleTimeoutMs: 30_000,
+  connectionTimeoutMs: 2_000,
+  statementTimeoutMs: 10_000,
+};
+
+// 개발 서버의 모듈 재로딩 후에도 풀을 하나로 유지합니다.
+const globalForDb = globalThis as typeof globalThis & { trendixDbPool?: Pool };
+
+let shutdownRegistered = false;
+
+/**
+ * DB 연결 정보가 설정되어 있는지 확인합니다.
+ */
+export function isDatabaseConfigured(): boolean {
+  return Boolean(process.env.DATABASE_URL || process.env.SQL_HOST);
+}
+
+/**
+ * 환경 변수에서 풀 설정을 읽습니다.
+ * 숫자 값이 없거나 잘못되면 기본값을 씁니다. (DB_POOL_MAX, DB_IDLE_TIMEOUT_MS, DB_CONNECTION_TIMEOUT_MS, DB_STATEMENT_TIMEOUT_MS)
+ */
+export function readDbPoolConfig(): DbPoolConfig {
+  const connectionString = process.env.DATABASE_URL || process.env.SQL_HOST;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL or SQL_HOST environment variable is not set');
+  }
+
+  return {
+    connectionString,
+    max: readNumberEnv('DB_POOL_MAX', DEFAULT_CONFIG.max, 1),
+    idleTimeoutMs: readNumberEnv('DB_IDLE_TIMEOUT_MS', DEFAULT_CONFIG.idleTimeoutMs, 0),
+    connectionTimeoutMs: readNumberEnv('DB_CONNECTION_TIMEOUT_MS', DEFAULT_CONFIG.connectionTimeoutMs, 0),
+    statementTimeoutMs: readNumberEnv('DB_STATEMENT_TIMEOUT_MS', DEFAULT_CONFIG.statementTimeoutMs, 0),
+  };
+}
+
+/**
+ * 공유 연결 풀을 반환합니다. 처음 호출할 때 만듭니다.
+ */
+export function getDbPool(): Pool {
+  if (!globalForDb.trendixDbPool) {
+    const config = readDbPoolConfig();
+    const pool = new Pool({
+      connectionString: config.connectionString,
+      max: config.max,
+      idleTimeoutMillis: config.idleTimeoutMs,
+      connectionTimeoutMillis: config.connectionTimeoutMs,
+      statement_timeout: config.statementTimeoutMs || undefined,
+      application_name: 'trendix-web',
+    });
+    // 유휴 연결 오류(DB 재시작 등)로 프로세스가 종료되지 않도록 기록만 합니다.
+    pool.on('error', (error) => {
+      console.error('Idle PostgreSQL client error:', error);
+    });
+    globalForDb.trendixDbPool = pool;
+    registerShutdown();
+  }
+  return globalForDb.trendixDbPool;
+}
+
+/**
+ * 쿼리를 실행하고 행을 반환합니다.
+ * @param text - SQL ($1, $2 … 자리표시자)
+ * @param values - 자리표시자 값
+ */
+export async function dbQuery<TRow extends QueryResultRow>(text: string, values: unknown[] = []): Promise<TRow[]> {
+  const result = await getDbPool().query<TRow>(text, values);
+  return result.rows;
+}
+
+/**
+ * 공유 풀을 닫습니다. 진행 중인 쿼리는 끝날 때까지 기다립니다.
+ */
+export async function closeDbPool(): Promise<void> {
+  const pool = globalForDb.trendixDbPool;
+  if (!pool) return;
+  globalForDb.trendixDbPool = undefined;
+  await pool.end();
+}
+
+function registerShutdown() {
+  if (shutdownRegistered || typeof process.once !== 'function') return;
+  shutdownRegistered = true;
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      closeDbPool()
+        .catch((error) => console.error('Failed to close PostgreSQL pool:', error))
+        .finally(() => {
+          // 다른 종료 처리(Next.js 서버 등)가 없으면 기본 동작처럼 종료합니다.
+          if (process.listenerCount(signal) === 0) process.exit(0);
+        });
+    });
+  }
+}
+
+function readNumberEnv(name: string, fallback: number, min: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    console.warn(`Invalid ${name} value "${raw}", using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
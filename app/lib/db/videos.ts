@@ -0,0 +1,121 @@
+// 영상 조회수 추이 쿼리 (public.video)
+
+import { BucketRange, queryVideoGroupBuckets, RawCountsRow, toBucketCounts, VideoBucketCounts, VideoBucketRow } from './buckets';
+import { dbQuery } from './pool';
+
+export interface VideoHistoryBucket extends VideoBucketCounts {
+  bucket_start: Date;
+}
+
+export interface VideoPublishBucketRow extends VideoBucketCounts {
+  video_id: string;
+  // 게시 후 경과 시간 (구간 시작, 시간 단위)
+  hours_since_publish: number;
+  published_at: Date;
+}
+
+/**
+ * 영상 하나의 구간별 최대 누적값을 가져옵니다.
+ * @param videoId - 영상 ID
+ * @param platform - 플랫폼 ID
+ * @param range - 구간 단위, 시간대, 기간
+ * @param options.limit - 최대 구간 수
+ * @param options.latest - true이면 최근 구간부터, false이면 오래된 구간부터 limit개
+ * @returns 오래된 순 구간별 누적값
+ */
+export async function queryVideoHistory(
+  videoId: string,
+  platform: string,
+  range: BucketRange,
+  options: { limit: number; latest: boolean }
+): Promise<VideoHistoryBucket[]> {
+  const rows = await dbQuery<RawCountsRow & { bucket_start: Date }>(
+    `
+    SELECT
+      date_trunc($3, crawled_at::timestamptz, $4) AS bucket_start,
+      MAX(view_count) AS view_count,
+      MAX(like_count) AS like_count,
+      MAX(comment_count) AS comment_count
+    FROM public.video
+    WHERE video_id = $1
+      AND platform = $2
+      AND crawled_at IS NOT NULL
+      AND ($5::timestamptz IS NULL OR crawled_at >= $5::timestamptz)
+      AND ($6::timestamptz IS NULL OR crawled_at < $6::timestamptz)
+    GROUP BY bucket_start
+    ORDER BY bucket_start ${options.latest ? 'DESC' : 'ASC'}
+    LIMIT $7
+    `,
+    [videoId, platform, range.granularity, range.timeZone, range.from, range.to, options.limit]
+  );
+
+  return rows
+    .map((row) => ({ bucket_start: row.bucket_start, ...toBucketCounts(row) }))
+    .sort((a, b) => a.bucket_start.getTime() - b.bucket_start.getTime());
+}
+
+/**
+ * 여러 영상의 영상별, 구간별 최대 누적값을 한 번에 가져옵니다.
+ * @param videoIds - 영상 ID 목록
+ * @param platform - 플랫폼 ID
+ * @param range - 구간 단위, 시간대, 기간
+ */
+export async function queryVideosHistory(
+  videoIds: string[],
+  platform: string,
+  range: BucketRange
+): Promise<VideoBucketRow[]> {
+  return queryVideoGroupBuckets({ column: 'video_id', values: videoIds }, platform, range);
+}
+
+/**
+ * 여러 영상의 게시 후 경과 시간 구간별 최대 누적값을 한 번에 가져옵니다. (published_at이 없는 영상은 제외)
+ * @param videoIds - 영상 ID 목록
+ * @param platform - 플랫폼 ID
+ * @param stepHours - 구간 길이 (시간)
+ * @param maxHours - 가져올 경과 시간 상한 (미포함)
+ */
+export async function queryVideosSincePublish(
+  videoIds: string[],
+  platform: string,
+  stepHours: number,
+  maxHours: number
+): Promise<VideoPublishBucketRow[]> {
+  const rows = await dbQuery<RawCountsRow & { video_id: string; hours_since_publish: string; published_at: Date }>(
+    `
+    WITH snapshots AS (
+      SELECT
+        video_id,
+        published_at::timestamptz AS published_at,
+        FLOOR(EXTRACT(EPOCH FROM crawled_at::timestamptz - published_at::timestamptz) / 3600 / $3) * $3 AS hours_since_publish,
+        view_count,
+        like_count,
+        comment_count
+      FROM public.video
+      WHERE video_id = ANY($1::text[])
+        AND platform = $2
+        AND crawled_at IS NOT NULL
+        AND published_at IS NOT NULL
+    )
+    SELECT
+      video_id,
+      hours_since_publish,
+      MIN(published_at) AS published_at,
+      MAX(view_count) AS view_count,
+      MAX(like_count) AS like_count,
+      MAX(comment_count) AS comment_count
+    FROM snapshots
+    WHERE hours_since_publish >= 0
+      AND hours_since_publish < $4
+    GROUP BY video_id, hours_since_publish
+    `,
+    [videoIds, platform, stepHours, maxHours]
+  );
+
+  return rows.map((row) => ({
+    video_id: row.video_id,
+    hours_since_publish: Number(row.hours_since_publish),
+    published_at: row.published_at,
+    ...toBucketCounts(row),
+  }));
+}
@@ -0,0 +1,114 @@
+// 준비 상태 개별 점검 (서버 전용)
+// 각 점검은 예외를 던지지 않고 결과 객체를 반환합니다.
+
+import { isMockApiEnabled } from '@/app/lib/api/mock';
+import { getDbPool, isDatabaseConfigured } from '@/app/lib/db';
+import type { DependencyCheck } from './types';
+
+const DEFAULT_TIMEOUT_MS = 2_000;
+
+// 점검별 제한 시간 (HEALTH_CHECK_TIMEOUT_MS)
+function getCheckTimeoutMs(): number {
+  const value = Number(process.env.HEALTH_CHECK_TIMEOUT_MS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * 필요한 환경 변수가 설정되어 있는지 확인합니다.
+ * mock 모드에서는 백엔드와 DB 연결 정보가 없어도 됩니다.
+ */
+export function checkEnvironment(): DependencyCheck {
+  const started = performance.now();
+  const mock = isMockApiEnabled();
+  const missing: string[] = [];
+  const invalid: string[] = [];
+
+  if (!mock) {
+    const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
+    if (!baseUrl) missing.push('NEXT_PUBLIC_API_BASE_URL');
+    else if (!URL.canParse(baseUrl)) invalid.push('NEXT_PUBLIC_API_BASE_URL');
+    if (!isDatabaseConfigured()) missing.push('DATABASE_URL');
+  }
+
+  const problems = [
+    ...missing.map((name) => `${name} 미설정`),
+    ...invalid.map((name) => `${name} 형식 오류`),
+  ];
+  return {
+    status: problems.length ? 'error' : 'ok',
+    latency_ms: elapsed(started),
+    ...(problems.length ? { message: problems.join(', ') } : {}),
+    details: { mock, missing, invalid },
+  };
+}
+
+/**
+ * 공유 연결 풀에서 SELECT 1을 실행합니다.
+ */
+export async function checkDatabase(): Promise<DependencyCheck> {
+  if (isMockApiEnabled()) return skipped('mock 모드');
+  if (!isDatabaseConfigured()) return { status: 'error', latency_ms: 0, message: 'DATABASE_URL 미설정' };
+
+  const started = performance.now();
+  try {
+    const pool = getDbPool();
+    await withTimeout(pool.query('SELECT 1'), getCheckTimeoutMs());
+    return {
+      status: 'ok',
+      latency_ms: elapsed(started),
+      details: { total: pool.totalCount, idle: pool.idleCount, waiting: pool.waitingCount },
+    };
+  } catch (error) {
+    return { status: 'error', latency_ms: elapsed(started), message: errorMessage(error) };
+  }
+}
+
+/**
+ * 백엔드(NEXT_PUBLIC_API_BASE_URL)에 요청을 보내 응답이 오는지 확인합니다.
+ * 5xx가 아니면 도달 가능으로 봅니다. (기본 경로가 404여도 서버는 살아 있음)
+ * 확인할 경로는 HEALTH_BACKEND_PATH로 바꿀 수 있습니다. (기본 '/')
+ */
+export async function checkBackend(): Promise<DependencyCheck> {
+  if (isMockApiEnabled()) return skipped('mock 모드');
+  const baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
+  if (!baseUrl || !URL.canParse(baseUrl)) {
+    return { status: 'error', latency_ms: 0, message: 'NEXT_PUBLIC_API_BASE_URL 미설정 또는 형식 오류' };
+  }
+
+  const path = process.env.HEALTH_BACKEND_PATH || '/';
+  const url = `${baseUrl.replace(/\/+$/, '')}${path.startsWith('/') ? path : `/${path}`}`;
+  const started = performance.now();
+  try {
+    const response = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(getCheckTimeoutMs()) });
+    await response.body?.cancel().catch(() => undefined);
+    return {
+      status: response.status < 500 ? 'ok' : 'error',
+      latency_ms: elapsed(started),
+      ...(response.status < 500 ? {} : { message: `HTTP ${response.status}` }),
+      details: { url, http_status: response.status },
+    };
+  } catch (error) {
+    return { status: 'error', latency_ms: elapsed(started), message: errorMessage(error), details: { url } };
+  }
+}
+
+function skipped(message: string): DependencyCheck {
+  return { status: 'skipped', latency_ms: 0, message };
+}
+
+function elapsed(started: number): number {
+  return Math.round(performance.now() - started);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${timeoutMs}ms 안에 응답이 없습니다.`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error && error.name === 'TimeoutError') return `${getCheckTimeoutMs()}ms 안에 응답이 없습니다.`;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
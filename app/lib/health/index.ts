@@ -0,0 +1,35 @@
+// 헬스 체크 (서버 전용)
+// - 생존(/api/health): 프로세스가 요청을 처리할 수 있는지만 봅니다. 의존성은 점검하지 않습니다.
+// - 준비(/api/ready): 환경 변수, PostgreSQL 풀, 백엔드 도달 여부를 동시에 점검합니다.
+
+import { checkBackend, checkDatabase, checkEnvironment } from './checks';
+import type { LivenessResponse, ReadinessResponse } from './types';
+
+export type { DependencyCheck, DependencyStatus, LivenessResponse, ReadinessDependency, ReadinessResponse } from './types';
+
+/**
+ * 생존 상태를 반환합니다.
+ */
+export function getLiveness(): LivenessResponse {
+  return {
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime_s: Math.round(process.uptime()),
+  };
+}
+
+/**
+ * 의존성을 점검해 준비 상태를 반환합니다.
+ */
+export async function getReadiness(): Promise<ReadinessResponse> {
+  const started = performance.now();
+  const [database, backend] = await Promise.all([checkDatabase(), checkBackend()]);
+  const checks = { env: checkEnvironment(), database, backend };
+
+  return {
+    status: Object.values(checks).every((check) => check.status !== 'error') ? 'ready' : 'not_ready',
+    timestamp: new Date().toISOString(),
+    latency_ms: Math.round(performance.now() - started),
+    checks,
+  };
+}
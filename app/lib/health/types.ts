@@ -0,0 +1,30 @@
+// 헬스 체크 응답 타입
+
+// ok: 정상, error: 실패, skipped: 점검하지 않음 (mock 모드 등)
+export type DependencyStatus = 'ok' | 'error' | 'skipped';
+
+export interface DependencyCheck {
+  status: DependencyStatus;
+  // 점검에 걸린 시간 (ms)
+  latency_ms: number;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+export type ReadinessDependency = 'env' | 'database' | 'backend';
+
+export interface LivenessResponse {
+  status: 'ok';
+  timestamp: string;
+  // 프로세스 가동 시간 (초)
+  uptime_s: number;
+}
+
+export interface ReadinessResponse {
+  // 모든 점검이 ok 또는 skipped이면 ready
+  status: 'ready' | 'not_ready';
+  timestamp: string;
+  // 전체 점검 시간 (점검은 동시에 실행)
+  latency_ms: number;
+  checks: Record<ReadinessDependency, DependencyCheck>;
+}
@@ -0,0 +1,51 @@
+// 플랫폼 제공자 레지스트리
+// 플랫폼 탭, 트렌드 라우트 핸들러, 비교 분석 화면은 platform 값으로 이 모듈에서 제공자를 찾아 사용합니다.
+// 새 플랫폼은 PlatformProvider를 구현해 PLATFORM_PROVIDERS에 추가합니다.
+
+import { MOCK_API_BASE_URL } from '@/app/lib/api/mock';
+import { instagramProvider } from './instagram';
+import { tiktokProvider } from './tiktok';
+import type { PlatformId, PlatformProvider } from './types';
+import { youtubeProvider } from './youtube';
+
+export type {
+  ParsedPlatformVideo,
+  PlatformCategory,
+  PlatformDataSource,
+  PlatformId,
+  PlatformParseError,
+  PlatformProvider,
+  PlatformVideoParseResult,
+} from './types';
+
+export const DEFAULT_PLATFORM: PlatformId = 'youtube';
+
+// 탭 표시 순서
+export const PLATFORM_PROVIDERS: Record<PlatformId, PlatformProvider> = {
+  youtube: youtubeProvider as PlatformProvider,
+  instagram: instagramProvider as PlatformProvider,
+  tiktok: tiktokProvider as PlatformProvider,
+};
+
+export const PLATFORM_IDS = Object.keys(PLATFORM_PROVIDERS) as PlatformId[];
+
+export function isPlatformId(value: string | null | undefined): value is PlatformId {
+  return typeof value === 'string' && (PLATFORM_IDS as string[]).includes(value);
+}
+
+/**
+ * 플랫폼 제공자를 반환합니다. (알 수 없는 값이면 기본 플랫폼)
+ * @param platform - 플랫폼 ID
+ */
+export function getPlatformProvider(platform: string | null | undefined): PlatformProvider {
+  return PLATFORM_PROVIDERS[isPlatformId(platform) ? platform : DEFAULT_PLATFORM];
+}
+
+/**
+ * 플랫폼 백엔드 요청에 사용할 기본 URL을 반환합니다.
+ * fixture 플랫폼은 mock 모드가 꺼져 있어도 mock 라우터로 보내고, 나머지는 undefined(기본 백엔드)입니다.
+ * @param platform - 플랫폼 ID
+ */
+export function getPlatformApiBaseUrl(platform: string | null | undefined): string | undefined {
+  return getPlatformProvider(platform).source === 'fixture' ? MOCK_API_BASE_URL : undefined;
+}
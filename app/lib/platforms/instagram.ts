@@ -0,0 +1,124 @@
+// Instagram 플랫폼 제공자 (fixture)
+// 지원 형식: /reel/, /reels/, /p/, /tv/ (instagram.com, instagr.am), 단독 shortcode
+// 백엔드 수집이 아직 없어 원본 레코드는 mock 라우터의 fixture가 만듭니다.
+
+import { computeSurgeMetrics, secondsToIsoDuration } from './metrics';
+import { normalizeHost, parseFail, PLATFORM_PARSE_ERROR_MESSAGES, toPlatformUrl } from './parse';
+import type { PlatformProvider } from './types';
+
+// Instagram 미디어 레코드 (Graph API 필드명 기준)
+export interface InstagramMediaRecord {
+  shortcode: string;
+  caption: string;
+  owner_id: string;
+  owner_username: string;
+  // REELS: 릴스, FEED: 피드 동영상
+  media_product_type: 'REELS' | 'FEED';
+  // 카테고리 키 (instagramProvider.categories의 key)
+  category: string;
+  hashtags: string[];
+  video_duration: number;
+  play_count: number;
+  play_count_prev: number;
+  like_count: number;
+  like_count_prev: number;
+  comments_count: number;
+  comments_count_prev: number;
+  taken_at: string;
+  crawled_at: string;
+  thumbnail_url: string | null;
+}
+
+const SHORTCODE_PATTERN = /^[A-Za-z0-9_-]{10,40}$/;
+const INSTAGRAM_HOSTS = new Set(['instagram.com', 'instagr.am']);
+const MEDIA_PATHS = new Set(['reel', 'reels', 'p', 'tv']);
+
+const INVALID_SHORTCODE_MESSAGE = 'Instagram 게시물 코드가 올바르지 않습니다.';
+
+export const instagramProvider: PlatformProvider<InstagramMediaRecord> = {
+  id: 'instagram',
+  name: 'Instagram',
+  icon: 'mdi:instagram',
+  source: 'fixture',
+  categories: [
+    { id: '1', key: 'beauty', name: '뷰티', icon: 'mdi:lipstick' },
+    { id: '2', key: 'fashion', name: '패션', icon: 'mdi:tshirt-crew' },
+    { id: '3', key: 'food', name: '푸드', icon: 'mdi:silverware-fork-knife' },
+    { id: '4', key: 'travel', name: '여행', icon: 'mdi:airplane' },
+    { id: '5', key: 'fitness', name: '피트니스', icon: 'mdi:dumbbell' },
+    { id: '6', key: 'humor', name: '유머', icon: 'mdi:emoticon-lol' },
+  ],
+  inputPlaceholder: 'Instagram Reels URL 또는 shortcode',
+
+  parseVideoInput(input) {
+    const trimmed = input.trim();
+    if (!trimmed) return parseFail('EMPTY', PLATFORM_PARSE_ERROR_MESSAGES.EMPTY);
+
+    if (SHORTCODE_PATTERN.test(trimmed)) {
+      return { ok: true, platform: 'instagram', videoId: trimmed, isShorts: true, canonicalUrl: reelUrl(trimmed) };
+    }
+
+    const url = toPlatformUrl(trimmed);
+    if (!url) return parseFail('INVALID_URL', PLATFORM_PARSE_ERROR_MESSAGES.INVALID_URL);
+    if (!INSTAGRAM_HOSTS.has(normalizeHost(url))) return parseFail('UNSUPPORTED_HOST', 'Instagram 주소가 아닙니다.');
+
+    // /{username}/reel/{code}/ 형태도 허용합니다.
+    const segments = url.pathname.split('/').filter(Boolean);
+    const index = segments.findIndex((segment) => MEDIA_PATHS.has(segment));
+    if (index < 0) return parseFail('UNSUPPORTED_PATH', PLATFORM_PARSE_ERROR_MESSAGES.UNSUPPORTED_PATH);
+
+    const shortcode = segments[index + 1];
+    if (!shortcode || !SHORTCODE_PATTERN.test(shortcode)) return parseFail('INVALID_VIDEO_ID', INVALID_SHORTCODE_MESSAGE);
+
+    const isReel = segments[index] === 'reel' || segments[index] === 'reels';
+    return {
+      ok: true,
+      platform: 'instagram',
+      videoId: shortcode,
+      isShorts: isReel,
+      canonicalUrl: isReel ? reelUrl(shortcode) : `https://www.instagram.com/p/${shortcode}/`,
+    };
+  },
+
+  normalizeVideoId: (raw) => (SHORTCODE_PATTERN.test(raw.trim()) ? raw.trim() : null),
+
+  getVideoUrl: (videoId) => reelUrl(videoId),
+
+  getThumbnailUrl: (videoId) => `https://www.instagram.com/p/${videoId}/media/?size=l`,
+
+  toSurgeVideo(raw, now = Date.now()) {
+    const category = instagramProvider.categories.find((item) => item.key === raw.category);
+    return {
+      video_id: raw.shortcode,
+      title: raw.caption,
+      description: raw.caption,
+      tags: raw.hashtags.join(','),
+      category_id: category ? Number(category.id) : null,
+      category: raw.category,
+      duration: secondsToIsoDuration(raw.video_duration),
+      channel_id: raw.owner_id,
+      channel_username: `@${raw.owner_username}`,
+      platform: 'instagram',
+      ...computeSurgeMetrics(
+        {
+          views: raw.play_count,
+          viewsPrev: raw.play_count_prev,
+          likes: raw.like_count,
+          likesPrev: raw.like_count_prev,
+          comments: raw.comments_count,
+          commentsPrev: raw.comments_count_prev,
+          publishedAt: raw.taken_at,
+        },
+        now
+      ),
+      published_at: raw.taken_at,
+      thumbnail_url: raw.thumbnail_url ?? instagramProvider.getThumbnailUrl(raw.shortcode),
+      crawled_at: raw.crawled_at,
+      is_shorts: raw.media_product_type === 'REELS',
+    };
+  },
+};
+
+function reelUrl(shortcode: string): string {
+  return `https://www.instagram.com/reel/${shortcode}/`;
+}
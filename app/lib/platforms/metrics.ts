@@ -0,0 +1,116 @@
+// 플랫폼 공통 지표 계산
+// 백엔드가 점수를 계산해 주지 않는 플랫폼(fixture)의 원본 지표로 급등 점수와 경과 시간을 만듭니다.
+// 가중치는 백엔드 급등 점수와 같습니다. (성장률 0.4, 증가 속도 0.3, 인기도 0.2, 신선도 0.1)
+
+import type { SurgeVideo } from '@/app/lib/api/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+// 신선도가 0이 되는 경과 시간
+const FRESHNESS_WINDOW_HOURS = 24 * 14;
+
+export interface PlatformMetricSnapshot {
+  views: number;
+  viewsPrev: number;
+  likes: number;
+  likesPrev: number;
+  comments: number;
+  commentsPrev: number;
+  publishedAt: string | null;
+}
+
+export type SurgeMetrics = Pick<
+  SurgeVideo,
+  | 'view_count'
+  | 'view_count_prev'
+  | 'view_velocity'
+  | 'like_count'
+  | 'like_count_prev'
+  | 'like_velocity'
+  | 'comment_count'
+  | 'comment_count_prev'
+  | 'comment_velocity'
+  | 'total_score'
+  | 'surge_score'
+  | 'freshness_score'
+  | 'freshness_score_with_bonus'
+  | 'freshness_bonus'
+  | 'age_seconds'
+  | 'age_minutes'
+  | 'age_hours'
+  | 'age_days'
+  | 'delta_views_window'
+  | 'growth_rate_window'
+  | 'surge_components'
+>;
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 두 시점의 누적 지표로 증가량, 급등 점수 구성 요소, 경과 시간을 계산합니다.
+ * @param snapshot - 현재/이전 누적 지표와 게시 시각
+ * @param now - 기준 시각 (ms)
+ */
+export function computeSurgeMetrics(snapshot: PlatformMetricSnapshot, now = Date.now()): SurgeMetrics {
+  const { views, viewsPrev, likes, likesPrev, comments, commentsPrev } = snapshot;
+  const publishedAt = snapshot.publishedAt ? Date.parse(snapshot.publishedAt) : NaN;
+  const ageHours = Number.isNaN(publishedAt) ? null : Math.max(0, (now - publishedAt) / HOUR_MS);
+
+  const viewVelocity = Math.max(0, views - viewsPrev);
+  const growthRate = viewsPrev > 0 ? viewVelocity / viewsPrev : 0;
+
+  const components = {
+    growth_factor: round(Math.min(1, growthRate / 1.5)),
+    velocity_factor: round(Math.min(1, Math.log10(1 + viewVelocity) / 6)),
+    popularity_factor: round(Math.min(1, Math.log10(1 + views) / 7)),
+    freshness_factor: round(ageHours === null ? 0 : Math.max(0, 1 - ageHours / FRESHNESS_WINDOW_HOURS)),
+  };
+  const surgeScore = round(
+    (components.growth_factor * 0.4 +
+      components.velocity_factor * 0.3 +
+      components.popularity_factor * 0.2 +
+      components.freshness_factor * 0.1) *
+      100,
+    2
+  );
+  const engagementRate = views > 0 ? (likes + comments) / views : 0;
+  const freshnessBonus = ageHours !== null && ageHours < 24 ? 0.1 : 0;
+
+  return {
+    view_count: views,
+    view_count_prev: viewsPrev,
+    view_velocity: viewVelocity,
+    like_count: likes,
+    like_count_prev: likesPrev,
+    like_velocity: Math.max(0, likes - likesPrev),
+    comment_count: comments,
+    comment_count_prev: commentsPrev,
+    comment_velocity: Math.max(0, comments - commentsPrev),
+
+    total_score: round(surgeScore * 0.8 + Math.min(1, engagementRate * 10) * 20, 2),
+    surge_score: surgeScore,
+    freshness_score: components.freshness_factor,
+    freshness_score_with_bonus: round(components.freshness_factor + freshnessBonus),
+    freshness_bonus: freshnessBonus,
+
+    age_seconds: ageHours === null ? null : Math.floor(ageHours * 3600),
+    age_minutes: ageHours === null ? null : Math.floor(ageHours * 60),
+    age_hours: ageHours === null ? null : round(ageHours, 1),
+    age_days: ageHours === null ? null : round(ageHours / 24, 2),
+
+    delta_views_window: viewVelocity,
+    growth_rate_window: round(growthRate),
+    surge_components: components,
+  };
+}
+
+/**
+ * 초 단위 길이를 ISO 8601 기간 문자열로 변환합니다. (예: 75 → 'PT1M15S')
+ */
+export function secondsToIsoDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  return `PT${minutes ? `${minutes}M` : ''}${total % 60}S`;
+}
@@ -0,0 +1,34 @@
+// 플랫폼 URL 파싱 공통 처리
+
+import type { PlatformParseError } from './types';
+
+export const PLATFORM_PARSE_ERROR_MESSAGES = {
+  EMPTY: 'URL 또는 ID를 입력해주세요.',
+  INVALID_URL: 'URL 형식이 올바르지 않습니다.',
+  UNSUPPORTED_PATH: '영상 주소가 아닙니다.',
+} as const;
+
+export function parseFail(reason: string, message: string): PlatformParseError {
+  return { ok: false, reason, message };
+}
+
+/**
+ * 스킴 없이 붙여넣은 주소도 URL로 해석합니다.
+ * @returns URL (호스트가 없거나 형식이 잘못되면 null)
+ */
+export function toPlatformUrl(input: string): URL | null {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`;
+  try {
+    const url = new URL(withScheme);
+    return url.hostname.includes('.') ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 호스트 이름을 비교용으로 정규화합니다. (소문자, www./m. 제거)
+ */
+export function normalizeHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+}
@@ -0,0 +1,142 @@
+// TikTok 플랫폼 제공자 (fixture)
+// 지원 형식: /@user/video/{id}, /@user/photo/{id}, m.tiktok.com/v/{id}.html, /embed/v2/{id}, 단독 숫자 ID
+// 단축 링크(vm./vt.tiktok.com)는 리디렉션을 따라가야 하므로 원본 주소 입력을 안내합니다.
+// 백엔드 수집이 아직 없어 원본 레코드는 mock 라우터의 fixture가 만듭니다.
+
+import { computeSurgeMetrics, secondsToIsoDuration } from './metrics';
+import { normalizeHost, parseFail, PLATFORM_PARSE_ERROR_MESSAGES, toPlatformUrl } from './parse';
+import type { PlatformProvider } from './types';
+
+interface TikTokStats {
+  play_count: number;
+  digg_count: number;
+  comment_count: number;
+  share_count: number;
+}
+
+// TikTok 영상 레코드 (TikTok API 필드명 기준)
+export interface TikTokVideoRecord {
+  aweme_id: string;
+  desc: string;
+  author: { uid: string; unique_id: string };
+  // 카테고리 키 (tiktokProvider.categories의 key)
+  category: string;
+  hashtags: string[];
+  // 초
+  duration: number;
+  stats: TikTokStats;
+  // 이전 수집 시점 지표
+  stats_prev: TikTokStats;
+  // 게시 시각 (Unix 초)
+  create_time: number;
+  crawled_at: string;
+  cover_url: string | null;
+}
+
+const VIDEO_ID_PATTERN = /^\d{15,21}$/;
+const TIKTOK_HOSTS = new Set(['tiktok.com']);
+const SHORT_LINK_HOSTS = new Set(['vm.tiktok.com', 'vt.tiktok.com']);
+
+const INVALID_VIDEO_ID_MESSAGE = 'TikTok 영상 ID가 올바르지 않습니다. (15~21자리 숫자)';
+
+export const tiktokProvider: PlatformProvider<TikTokVideoRecord> = {
+  id: 'tiktok',
+  name: 'TikTok',
+  icon: 'ic:baseline-tiktok',
+  source: 'fixture',
+  categories: [
+    { id: '1', key: 'dance', name: '댄스', icon: 'mdi:human-female-dance' },
+    { id: '2', key: 'comedy', name: '코미디', icon: 'mdi:emoticon-lol' },
+    { id: '3', key: 'challenge', name: '챌린지', icon: 'mdi:trophy' },
+    { id: '4', key: 'food', name: '푸드', icon: 'mdi:silverware-fork-knife' },
+    { id: '5', key: 'beauty', name: '뷰티', icon: 'mdi:lipstick' },
+    { id: '6', key: 'gaming', name: '게임', icon: 'mdi:gamepad-variant' },
+  ],
+  inputPlaceholder: 'TikTok 영상 URL 또는 영상 ID',
+
+  parseVideoInput(input) {
+    const trimmed = input.trim();
+    if (!trimmed) return parseFail('EMPTY', PLATFORM_PARSE_ERROR_MESSAGES.EMPTY);
+    if (VIDEO_ID_PATTERN.test(trimmed)) return videoResult(trimmed);
+
+    const url = toPlatformUrl(trimmed);
+    if (!url) return parseFail('INVALID_URL', PLATFORM_PARSE_ERROR_MESSAGES.INVALID_URL);
+
+    if (SHORT_LINK_HOSTS.has(url.hostname.toLowerCase())) {
+      return parseFail('UNSUPPORTED_PATH', '단축 링크는 지원하지 않습니다. 앱에서 연 영상의 전체 주소를 붙여넣어주세요.');
+    }
+    if (!TIKTOK_HOSTS.has(normalizeHost(url))) return parseFail('UNSUPPORTED_HOST', 'TikTok 주소가 아닙니다.');
+
+    const segments = url.pathname.split('/').filter(Boolean);
+    const [first, second, third] = segments;
+
+    // /@user/video/{id}
+    if (first?.startsWith('@') && (second === 'video' || second === 'photo')) {
+      return third ? videoResult(third, decodeURIComponent(first.slice(1))) : parseFail('INVALID_VIDEO_ID', INVALID_VIDEO_ID_MESSAGE);
+    }
+    // /v/{id}.html (모바일 공유 주소)
+    if (first === 'v' && second) return videoResult(second.replace(/\.html$/, ''));
+    // /embed/{id}, /embed/v2/{id}
+    if (first === 'embed') {
+      const id = second === 'v2' ? third : second;
+      return id ? videoResult(id) : parseFail('INVALID_VIDEO_ID', INVALID_VIDEO_ID_MESSAGE);
+    }
+
+    return parseFail('UNSUPPORTED_PATH', PLATFORM_PARSE_ERROR_MESSAGES.UNSUPPORTED_PATH);
+  },
+
+  normalizeVideoId: (raw) => (VIDEO_ID_PATTERN.test(raw.trim()) ? raw.trim() : null),
+
+  getVideoUrl: (videoId) => `https://m.tiktok.com/v/${videoId}.html`,
+
+  // ID만으로 만들 수 있는 공개 썸네일 주소가 없어 대체 이미지를 사용합니다.
+  getThumbnailUrl: (videoId) => `https://picsum.photos/seed/tiktok-${videoId}/270/480`,
+
+  toSurgeVideo(raw, now = Date.now()) {
+    const category = tiktokProvider.categories.find((item) => item.key === raw.category);
+    const publishedAt = new Date(raw.create_time * 1000).toISOString();
+    return {
+      video_id: raw.aweme_id,
+      title: raw.desc,
+      description: raw.desc,
+      tags: raw.hashtags.join(','),
+      category_id: category ? Number(category.id) : null,
+      category: raw.category,
+      duration: secondsToIsoDuration(raw.duration),
+      channel_id: raw.author.uid,
+      channel_username: `@${raw.author.unique_id}`,
+      platform: 'tiktok',
+      // TikTok 좋아요는 digg_count
+      ...computeSurgeMetrics(
+        {
+          views: raw.stats.play_count,
+          viewsPrev: raw.stats_prev.play_count,
+          likes: raw.stats.digg_count,
+          likesPrev: raw.stats_prev.digg_count,
+          comments: raw.stats.comment_count,
+          commentsPrev: raw.stats_prev.comment_count,
+          publishedAt,
+        },
+        now
+      ),
+      published_at: publishedAt,
+      thumbnail_url: raw.cover_url ?? tiktokProvider.getThumbnailUrl(raw.aweme_id),
+      crawled_at: raw.crawled_at,
+      // TikTok은 모두 세로형 숏폼으로 봅니다.
+      is_shorts: true,
+    };
+  },
+};
+
+function videoResult(videoId: string, username?: string) {
+  if (!VIDEO_ID_PATTERN.test(videoId)) return parseFail('INVALID_VIDEO_ID', INVALID_VIDEO_ID_MESSAGE);
+  return {
+    ok: true as const,
+    platform: 'tiktok' as const,
+    videoId,
+    isShorts: true,
+    canonicalUrl: username
+      ? `https://www.tiktok.com/@${username}/video/${videoId}`
+      : tiktokProvider.getVideoUrl(videoId),
+  };
+}
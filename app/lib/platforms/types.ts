@@ -0,0 +1,72 @@
+// 플랫폼 제공자(provider) 타입 정의
+// 플랫폼마다 다른 URL 형식, ID 규칙, 지표 이름, 썸네일 주소, 카테고리 체계를 같은 인터페이스로 다룹니다.
+
+import type { SurgeVideo } from '@/app/lib/api/types';
+
+export type PlatformId = 'youtube' | 'instagram' | 'tiktok';
+
+// 데이터 출처
+// - backend: 백엔드 API (NEXT_PUBLIC_API_BASE_URL)
+// - fixture: 백엔드가 아직 지원하지 않아 mock 라우터의 fixture 데이터를 사용
+export type PlatformDataSource = 'backend' | 'fixture';
+
+// 플랫폼별 카테고리 (id는 트렌드 필터 category_id로 쓰는 번호 문자열)
+export interface PlatformCategory {
+  id: string;
+  // 플랫폼 원본 데이터의 카테고리 키
+  key: string;
+  name: string;
+  icon: string;
+}
+
+export interface ParsedPlatformVideo {
+  ok: true;
+  platform: PlatformId;
+  videoId: string;
+  // 세로형 숏폼 (YouTube Shorts, Instagram Reels, TikTok)
+  isShorts: boolean;
+  canonicalUrl: string;
+}
+
+export interface PlatformParseError {
+  ok: false;
+  reason: string;
+  message: string;
+}
+
+export type PlatformVideoParseResult = ParsedPlatformVideo | PlatformParseError;
+
+export interface PlatformProvider<TRaw = unknown> {
+  id: PlatformId;
+  name: string;
+  icon: string;
+  source: PlatformDataSource;
+  categories: PlatformCategory[];
+  // 입력창 안내 문구
+  inputPlaceholder: string;
+
+  /**
+   * 붙여넣은 URL 또는 ID에서 영상을 찾아 정규화합니다.
+   * @param input - 플랫폼 영상 URL 또는 ID
+   */
+  parseVideoInput(input: string): PlatformVideoParseResult;
+
+  /**
+   * 영상 ID 형식을 검사하고 정규화된 ID를 반환합니다.
+   * @returns 정규화된 ID (형식이 맞지 않으면 null)
+   */
+  normalizeVideoId(raw: string): string | null;
+
+  // 영상 시청 페이지 주소
+  getVideoUrl(videoId: string): string;
+
+  // 원본 데이터에 썸네일이 없을 때 사용할 주소
+  getThumbnailUrl(videoId: string): string;
+
+  /**
+   * 플랫폼 원본 지표를 공통 급등 영상 구조로 변환합니다.
+   * @param raw - 플랫폼 원본 레코드
+   * @param now - 경과 시간 계산 기준 시각 (ms)
+   */
+  toSurgeVideo(raw: TRaw, now?: number): SurgeVideo;
+}
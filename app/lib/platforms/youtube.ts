@@ -0,0 +1,52 @@
+// YouTube 플랫폼 제공자
+// URL 파싱은 '@/app/lib/youtube/url' 을 사용하고, 백엔드가 공통 구조(SurgeVideo)로 응답하므로 지표는 그대로 씁니다.
+
+import type { SurgeVideo } from '@/app/lib/api/types';
+import { parseYouTubeInput, parseYouTubeVideo } from '@/app/lib/youtube/url';
+import type { PlatformProvider } from './types';
+
+export const youtubeProvider: PlatformProvider<SurgeVideo> = {
+  id: 'youtube',
+  name: 'YouTube',
+  icon: 'mdi:youtube',
+  source: 'backend',
+  // YouTube 공식 카테고리 ID 기반
+  categories: [
+    { id: '10', key: 'music', name: '음악', icon: 'mdi:music' },
+    { id: '20', key: 'gaming', name: '게임', icon: 'mdi:gamepad-variant' },
+    { id: '24', key: 'entertainment', name: '엔터테인먼트', icon: 'mdi:television-play' },
+    { id: '17', key: 'sports', name: '스포츠', icon: 'mdi:soccer' },
+    { id: '25', key: 'news', name: '뉴스', icon: 'mdi:newspaper' },
+    { id: '22', key: 'vlog', name: '브이로그', icon: 'mdi:account-voice' },
+    { id: '26', key: 'howto', name: '노하우/스타일', icon: 'mdi:lightbulb' },
+    { id: '28', key: 'tech', name: '과학기술', icon: 'mdi:atom' },
+  ],
+  inputPlaceholder: 'YouTube Shorts URL 또는 video_id',
+
+  parseVideoInput(input) {
+    const parsed = parseYouTubeVideo(input);
+    if (!parsed.ok) return parsed;
+    return {
+      ok: true,
+      platform: 'youtube',
+      videoId: parsed.videoId,
+      isShorts: parsed.isShorts,
+      canonicalUrl: parsed.canonicalUrl,
+    };
+  },
+
+  normalizeVideoId(raw) {
+    const parsed = parseYouTubeInput(raw);
+    return parsed.ok && parsed.kind === 'video' ? parsed.videoId : null;
+  },
+
+  getVideoUrl: (videoId) => `https://www.youtube.com/watch?v=${videoId}`,
+
+  getThumbnailUrl: (videoId) => `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+
+  toSurgeVideo: (raw) => ({
+    ...raw,
+    platform: 'youtube',
+    thumbnail_url: raw.thumbnail_url ?? youtubeProvider.getThumbnailUrl(raw.video_id),
+  }),
+};
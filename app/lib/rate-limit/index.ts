@@ -0,0 +1,175 @@
+// 라우트 핸들러 요청 제한 (서버 전용)
+// - withRateLimit으로 핸들러를 감싸면 정책에 따라 로그인 계정 또는 IP 기준 슬라이딩 윈도우로 제한합니다.
+// - 제한을 넘으면 핸들러를 호출하지 않고 429와 Retry-After를 반환합니다.
+// - 저장소는 기본 메모리이며, RATE_LIMIT_STORE=postgres 이면 DATABASE_URL의 DB를 사용해 인스턴스 간에 공유합니다.
+// - 저장소 오류 시에는 요청을 막지 않고 통과시킵니다. (fail open)
+// - 클라이언트 IP는 신뢰하는 프록시가 X-Forwarded-For 끝에 덧붙인 값을 사용합니다. (RATE_LIMIT_TRUSTED_PROXIES)
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRequest } from '@/app/lib/api/client';
+import { getDbPool, isDatabaseConfigured } from '@/app/lib/db';
+import { createSwrCache } from '@/app/lib/trends/cache';
+import { consumeRateLimit } from './limiter';
+import { createMemoryRateLimitStore } from './memory';
+import { getRateLimitPolicy, RateLimitPolicyName } from './policies';
+import { createPostgresRateLimitStore } from './postgres';
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+export type { RateLimitPolicyName } from './policies';
+
+// 쿠키별 로그인 계정 확인 결과 캐시 (요청마다 인증 상태를 조회하지 않도록)
+const accountCache = createSwrCache<string | null>({
+  ttlMs: 60_000,
+  staleMs: 0,
+  maxEntries: 5_000,
+  label: 'rate limit account',
+});
+
+const ACCOUNT_LOOKUP_TIMEOUT_MS = 3_000;
+
+// 앞단 리버스 프록시 수 (X-Forwarded-For 오른쪽에서 이만큼 떨어진 값이 클라이언트 IP)
+const DEFAULT_TRUSTED_PROXIES = 1;
+
+let store: RateLimitStore | null = null;
+
+function getStore(): RateLimitStore {
+  if (!store) {
+    if (process.env.RATE_LIMIT_STORE === 'postgres' && isDatabaseConfigured()) {
+      store = createPostgresRateLimitStore(getDbPool());
+    } else {
+      if (process.env.RATE_LIMIT_STORE === 'postgres') {
+        console.warn('RATE_LIMIT_STORE=postgres requires DATABASE_URL; falling back to in-memory rate limit store');
+      }
+      store = createMemoryRateLimitStore();
+    }
+  }
+  return store;
+}
+
+/**
+ * 라우트 핸들러에 요청 제한을 적용합니다.
+ * 허용된 응답에는 X-RateLimit-Limit, X-RateLimit-Remaining 헤더를 붙입니다.
+ * @param policyName - 적용할 정책 이름 (./policies)
+ * @param handler - 라우트 핸들러
+ */
+export function withRateLimit<TArgs extends [NextRequest, ...unknown[]]>(
+  policyName: RateLimitPolicyName,
+  handler: (...args: TArgs) => Promise<Response>
+): (...args: TArgs) => Promise<Response> {
+  return async (...args: TArgs) => {
+    if (process.env.RATE_LIMIT_DISABLED === 'true') return handler(...args);
+
+    const [request] = args;
+    const result = await checkRateLimit(request, policyName);
+    if (!result) return handler(...args);
+
+    if (!result.allowed) {
+      return NextResponse.json(
+        { detail: `요청이 너무 많습니다. ${result.retryAfterSeconds}초 후 다시 시도해주세요.` },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': String(result.retryAfterSeconds),
+            'X-RateLimit-Limit': String(result.limit),
+            'X-RateLimit-Remaining': '0',
+            'Cache-Control': 'no-store',
+          },
+        }
+      );
+    }
+
+    const response = await handler(...args);
+    response.headers.set('X-RateLimit-Limit', String(result.limit));
+    response.headers.set('X-RateLimit-Remaining', String(result.remaining));
+    return response;
+  };
+}
+
+// 적용할 규칙이 없거나 저장소 오류면 null (제한하지 않음)
+async function checkRateLimit(request: NextRequest, policyName: RateLimitPolicyName): Promise<RateLimitResult | null> {
+  const policy = getRateLimitPolicy(policyName);
+  const ip = getClientIp(request);
+  const accountId =
+    policy.account && policy.resolveAccount ? await resolveAccountId(request, `${policyName}:lookup:${ip}`, policy.ip) : null;
+
+  const [scope, subject, rule] = accountId && policy.account ? ['account', accountId, policy.account] : ['ip', ip, policy.ip];
+  if (!rule) return null;
+
+  try {
+    return await consumeRateLimit(getStore(), `${policyName}:${scope}:${subject}`, rule);
+  } catch (error) {
+    console.error('Rate limit store failed, allowing request:', error);
+    return null;
+  }
+}
+
+/**
+ * 요청 IP를 반환합니다.
+ * X-Forwarded-For의 앞쪽 값은 클라이언트가 마음대로 보낼 수 있으므로, 신뢰하는 프록시 수(RATE_LIMIT_TRUSTED_PROXIES, 기본 1)만큼
+ * 오른쪽에서 센 값을 사용합니다. 0이면 X-Forwarded-For를 무시하고 프록시가 설정한 X-Real-IP를 사용합니다.
+ */
+export function getClientIp(request: NextRequest): string {
+  const trustedProxies = readTrustedProxies();
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  // 값이 프록시 수보다 적으면 프록시를 거치지 않은 요청이므로 가장 앞(직접 연결한 쪽) 값을 씁니다.
+  const forwarded = trustedProxies > 0 ? forwardedFor[Math.max(0, forwardedFor.length - trustedProxies)] : undefined;
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+function readTrustedProxies(): number {
+  const raw = process.env.RATE_LIMIT_TRUSTED_PROXIES;
+  if (!raw) return DEFAULT_TRUSTED_PROXIES;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    console.warn(`Invalid RATE_LIMIT_TRUSTED_PROXIES value "${raw}", using ${DEFAULT_TRUSTED_PROXIES}`);
+    return DEFAULT_TRUSTED_PROXIES;
+  }
+  return value;
+}
+
+/**
+ * 요청 쿠키로 로그인 계정을 확인합니다. 비로그인이거나 확인에 실패하면 null (IP 기준으로 제한)
+ * 캐시에 없는 쿠키만 백엔드에 확인하며, 이때 IP별 확인 예산(lookupRule)을 먼저 씁니다.
+ * 쿠키를 바꿔 가며 보내 백엔드 인증 조회를 늘리는 요청은 예산을 넘으면 비로그인으로 처리됩니다.
+ * @param lookupKey - 확인 예산 키 (정책 + IP)
+ * @param lookupRule - 확인 예산 (정책의 IP 규칙, 없으면 제한 없음)
+ */
+async function resolveAccountId(request: NextRequest, lookupKey: string, lookupRule?: RateLimitRule): Promise<string | null> {
+  const cookie = request.headers.get('cookie');
+  if (!cookie) return null;
+
+  const cacheKey = createHash('sha256').update(cookie).digest('base64url');
+  try {
+    const { value } = await accountCache.get(cacheKey, async () => {
+      if (lookupRule && !(await consumeAccountLookup(lookupKey, lookupRule))) {
+        // 거부는 캐시하지 않으므로 예산이 회복되면 다시 확인합니다.
+        throw new Error('Account lookup limit exceeded');
+      }
+      const status = await apiRequest<{ logged_in: boolean; user_id?: string }>('/authentication/status', {
+        headers: { Cookie: cookie },
+        retries: 0,
+        timeoutMs: ACCOUNT_LOOKUP_TIMEOUT_MS,
+        errorMessage: 'Auth status check failed',
+      });
+      return status.logged_in && status.user_id ? status.user_id : null;
+    });
+    return value;
+  } catch {
+    return null;
+  }
+}
+
+// 계정 확인 예산을 1 씁니다. 저장소 오류 시에는 확인을 허용합니다. (fail open)
+async function consumeAccountLookup(key: string, rule: RateLimitRule): Promise<boolean> {
+  try {
+    return (await consumeRateLimit(getStore(), key, rule)).allowed;
+  } catch (error) {
+    console.error('Rate limit store failed, allowing account lookup:', error);
+    return true;
+  }
+}
@@ -0,0 +1,60 @@
+// 슬라이딩 윈도우 요청 제한
+// 고정 윈도우 두 개(현재, 직전)의 카운트로 최근 windowMs 동안의 요청 수를 추정합니다.
+//   추정 요청 수 = 직전 윈도우 수 × (직전 윈도우가 겹치는 비율) + 현재 윈도우 수
+// 키마다 카운터 두 개만 있으면 되므로 메모리/DB 저장소 모두 가볍게 동작합니다.
+// 거부된 요청도 횟수에 포함되므로, 제한을 넘긴 뒤 계속 요청하면 대기 시간이 늘어납니다.
+
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+/**
+ * 요청 한 건을 기록하고 허용 여부를 반환합니다.
+ * @param store - 카운트 저장소
+ * @param key - 제한 대상 키
+ * @param rule - 윈도우당 허용 요청 수
+ * @param now - 현재 시각 (ms)
+ */
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = rule;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const { current, previous } = await store.increment(key, windowStart, windowMs);
+
+  const previousWeight = 1 - (now - windowStart) / windowMs;
+  const estimated = previous * previousWeight + current;
+  const allowed = estimated <= limit;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - estimated)),
+    retryAfterSeconds: allowed
+      ? 0
+      : Math.max(1, Math.ceil(msUntilAllowed(current, previous, rule, windowStart, now) / 1000)),
+  };
+}
+
+// 다음 요청(+1)이 허용될 때까지 남은 시간 (ms)
+function msUntilAllowed(
+  current: number,
+  previous: number,
+  rule: RateLimitRule,
+  windowStart: number,
+  now: number
+): number {
+  const { limit, windowMs } = rule;
+  const windowEnd = windowStart + windowMs;
+
+  // 현재 윈도우 안에서 직전 윈도우 가중치가 줄어들어 허용되는 시점
+  if (current + 1 <= limit && previous > 0) {
+    const allowedAt = windowStart + windowMs * (1 - (limit - current - 1) / previous);
+    if (allowedAt < windowEnd) return Math.max(0, allowedAt - now);
+  }
+
+  // 다음 윈도우에서 지금의 현재 윈도우 수가 직전 윈도우로 넘어간 뒤 허용되는 시점
+  const offset = current > 0 ? Math.max(0, windowMs * (1 - (limit - 1) / current)) : 0;
+  return windowEnd + offset - now;
+}
@@ -0,0 +1,58 @@
+// 프로세스 메모리 요청 제한 저장소 (기본값)
+// 인스턴스마다 카운트를 따로 가지므로 여러 인스턴스로 운영하면 ./postgres 저장소를 사용하세요.
+
+import type { RateLimitStore, RateLimitWindowCounts } from './types';
+
+interface WindowEntry {
+  windowStart: number;
+  windowMs: number;
+  current: number;
+  previous: number;
+}
+
+const DEFAULT_MAX_KEYS = 10_000;
+// 지정한 횟수만큼 증가할 때마다 만료된 키를 정리합니다.
+const SWEEP_INTERVAL = 1_000;
+
+/**
+ * 메모리 저장소를 만듭니다.
+ * @param maxKeys - 최대 키 수 (넘으면 가장 오래된 키부터 제거)
+ */
+export function createMemoryRateLimitStore(maxKeys: number = DEFAULT_MAX_KEYS): RateLimitStore {
+  const entries = new Map<string, WindowEntry>();
+  let operations = 0;
+
+  const sweep = (now: number) => {
+    for (const [key, entry] of entries) {
+      // 직전 윈도우로도 쓰이지 않는 키는 제거
+      if (entry.windowStart + 2 * entry.windowMs <= now) entries.delete(key);
+    }
+  };
+
+  return {
+    async increment(key, windowStart, windowMs): Promise<RateLimitWindowCounts> {
+      if (++operations % SWEEP_INTERVAL === 0) sweep(Date.now());
+
+      const entry = entries.get(key);
+      let next: WindowEntry;
+      if (entry && entry.windowStart === windowStart) {
+        next = { ...entry, current: entry.current + 1 };
+      } else if (entry && entry.windowStart === windowStart - windowMs) {
+        next = { windowStart, windowMs, current: 1, previous: entry.current };
+      } else {
+        next = { windowStart, windowMs, current: 1, previous: 0 };
+      }
+
+      // 최근 사용한 키가 뒤로 가도록 다시 넣고, 가장 오래된 것부터 제거 (Map은 삽입 순서 유지)
+      entries.delete(key);
+      entries.set(key, next);
+      while (entries.size > maxKeys) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+
+      return { current: next.current, previous: next.previous };
+    },
+  };
+}
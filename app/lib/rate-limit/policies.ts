@@ -0,0 +1,55 @@
+// 라우트별 요청 제한 정책
+// 기본값은 코드에 두고, 환경 변수 RATE_LIMIT_{정책}_{IP|ACCOUNT}="요청 수/초"로 바꿀 수 있습니다.
+// 예: RATE_LIMIT_CHAT_ACCOUNT=20/60 (계정당 60초에 20회), 0/60 이면 해당 규칙을 끕니다.
+
+import type { RateLimitPolicy, RateLimitRule } from './types';
+
+export type RateLimitPolicyName = 'chat' | 'trends' | 'viewHistory' | 'viewHistoryBatch';
+
+const minute = (limit: number): RateLimitRule => ({ limit, windowMs: 60_000 });
+
+const DEFAULT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // LLM 백엔드로 바로 전달되므로 가장 엄격하게 제한합니다.
+  chat: { ip: minute(10), account: minute(20), resolveAccount: true },
+  // 응답은 캐시되지만 필터/정렬 조합마다 랭킹을 다시 계산합니다.
+  trends: { ip: minute(120), account: minute(240), resolveAccount: true },
+  // DB를 직접 조회합니다. 상세 모달을 열 때마다 호출되므로 계정 확인 없이 IP로만 제한합니다.
+  viewHistory: { ip: minute(60) },
+  // 한 번에 최대 20개 영상을 조회하므로 단일 조회보다 낮게 둡니다.
+  viewHistoryBatch: { ip: minute(20) },
+};
+
+const ENV_PREFIXES: Record<RateLimitPolicyName, string> = {
+  chat: 'RATE_LIMIT_CHAT',
+  trends: 'RATE_LIMIT_TRENDS',
+  viewHistory: 'RATE_LIMIT_VIEW_HISTORY',
+  viewHistoryBatch: 'RATE_LIMIT_VIEW_HISTORY_BATCH',
+};
+
+/**
+ * 환경 변수를 반영한 정책을 반환합니다.
+ * @param name - 정책 이름
+ */
+export function getRateLimitPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  const defaults = DEFAULT_POLICIES[name];
+  const prefix = ENV_PREFIXES[name];
+  return {
+    ...defaults,
+    ip: readRuleEnv(`${prefix}_IP`, defaults.ip),
+    account: readRuleEnv(`${prefix}_ACCOUNT`, defaults.account),
+  };
+}
+
+// "요청 수/초" 형식 (값이 없거나 잘못되면 기본값, 요청 수가 0이면 규칙 끔)
+function readRuleEnv(name: string, fallback?: RateLimitRule): RateLimitRule | undefined {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(raw);
+  if (!match || Number(match[2]) <= 0) {
+    console.warn(`Invalid ${name} value "${raw}", expected "<requests>/<seconds>"`);
+    return fallback;
+  }
+  const limit = Number(match[1]);
+  return limit === 0 ? undefined : { limit, windowMs: Number(match[2]) * 1000 };
+}
@@ -0,0 +1,75 @@
+// PostgreSQL 요청 제한 저장소 (서버 전용)
+// standalone 인스턴스 여러 대가 같은 카운트를 공유하도록 (키, 윈도우 시작) 단위 카운터를 DB에 둡니다.
+// 테이블은 첫 요청 시 없으면 만들고, 만료된 행은 가끔 정리합니다.
+
+import type { Pool } from 'pg';
+import type { RateLimitStore, RateLimitWindowCounts } from './types';
+
+const TABLE_NAME = 'rate_limit_counters';
+// 증가 요청 중 이 비율만큼 만료된 행을 정리합니다.
+const CLEANUP_PROBABILITY = 0.01;
+
+const CREATE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS ${TABLE_NAME} (
+    key TEXT NOT NULL,
+    window_start BIGINT NOT NULL,
+    count INTEGER NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (key, window_start)
+  )
+`;
+
+// 현재 윈도우 카운트를 올리고 직전 윈도우 카운트와 함께 반환 (한 번의 왕복)
+const INCREMENT_SQL = `
+  WITH upsert AS (
+    INSERT INTO ${TABLE_NAME} (key, window_start, count, expires_at)
+    VALUES ($1, $2, 1, to_timestamp($4 / 1000.0))
+    ON CONFLICT (key, window_start) DO UPDATE SET count = ${TABLE_NAME}.count + 1
+    RETURNING count
+  )
+  SELECT
+    (SELECT count FROM upsert) AS current,
+    COALESCE((SELECT count FROM ${TABLE_NAME} WHERE key = $1 AND window_start = $3), 0) AS previous
+`;
+
+const CLEANUP_SQL = `DELETE FROM ${TABLE_NAME} WHERE expires_at < now()`;
+
+/**
+ * PostgreSQL 저장소를 만듭니다.
+ * @param pool - 연결 풀 (app/lib/db 의 공유 풀)
+ */
+export function createPostgresRateLimitStore(pool: Pool): RateLimitStore {
+  let ready: Promise<unknown> | null = null;
+
+  const ensureTable = () => {
+    // 실패하면 다음 요청에서 다시 시도합니다.
+    ready ??= pool.query(CREATE_TABLE_SQL).catch((error) => {
+      ready = null;
+      throw error;
+    });
+    return ready;
+  };
+
+  return {
+    async increment(key, windowStart, windowMs): Promise<RateLimitWindowCounts> {
+      await ensureTable();
+
+      const expiresAt = windowStart + 2 * windowMs;
+      const result = await pool.query<{ current: number; previous: number }>(INCREMENT_SQL, [
+        key,
+        windowStart,
+        windowStart - windowMs,
+        expiresAt,
+      ]);
+
+      if (Math.random() < CLEANUP_PROBABILITY) {
+        pool.query(CLEANUP_SQL).catch((error) => {
+          console.error('Failed to clean up rate limit counters:', error);
+        });
+      }
+
+      const row = result.rows[0];
+      return { current: Number(row?.current) || 1, previous: Number(row?.previous) || 0 };
+    },
+  };
+}
@@ -0,0 +1,41 @@
+// 라우트 핸들러 요청 제한(rate limit) 공통 타입
+
+// 한 윈도우 동안 허용하는 요청 수
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+// 라우트별 제한. 로그인 사용자는 account, 비로그인 요청은 ip 규칙을 적용합니다. (생략한 규칙은 제한하지 않음)
+export interface RateLimitPolicy {
+  ip?: RateLimitRule;
+  account?: RateLimitRule;
+  // 로그인 계정 확인 여부 (account 규칙이 있을 때만 의미가 있습니다)
+  resolveAccount?: boolean;
+}
+
+export interface RateLimitWindowCounts {
+  // 현재 고정 윈도우의 요청 수 (이번 요청 포함)
+  current: number;
+  // 직전 고정 윈도우의 요청 수
+  previous: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * 키의 현재 윈도우 카운트를 1 올리고 현재/직전 윈도우 카운트를 반환합니다.
+   * @param key - 제한 대상 키 (정책 이름 + IP 또는 계정)
+   * @param windowStart - 현재 고정 윈도우 시작 시각 (ms)
+   * @param windowMs - 윈도우 길이 (ms)
+   */
+  increment(key: string, windowStart: number, windowMs: number): Promise<RateLimitWindowCounts>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  // 이번 요청 이후 남은 요청 수 (추정치)
+  remaining: number;
+  // 다음 요청이 허용될 때까지 기다려야 하는 시간 (초, 허용된 경우 0)
+  retryAfterSeconds: number;
+}
@@ -0,0 +1,112 @@
+// 트렌드 라우트 핸들러용 프로세스 내 캐시 (서버 전용)
+// - 정규화된 조회 조건 키별로 값을 TTL 동안 보관합니다.
+// - TTL이 지난 뒤 stale 구간에서는 이전 값을 바로 반환하고 백그라운드에서 새로 불러옵니다. (stale-while-revalidate)
+// - 같은 키를 동시에 요청하면 한 번만 불러와 결과를 공유합니다. (request coalescing)
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheResult<T> {
+  value: T;
+  // 값을 불러온 시각 (ms). 같은 값이면 같은 시각이므로 버전으로 사용할 수 있습니다.
+  storedAt: number;
+  status: CacheStatus;
+}
+
+export interface SwrCacheOptions {
+  // 신선한 것으로 보는 시간 (ms). 0이면 캐시하지 않고 동시 요청만 합칩니다.
+  ttlMs: number;
+  // TTL 이후 이전 값을 반환하며 재검증하는 시간 (ms)
+  staleMs: number;
+  maxEntries?: number;
+  // 백그라운드 재검증 실패 로그에 남길 이름
+  label?: string;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 200;
+
+export interface SwrCache<T> {
+  /**
+   * 키에 해당하는 값을 반환합니다. 없거나 만료되었으면 load로 불러옵니다.
+   * @param key - 정규화된 조회 조건 키
+   * @param load - 값을 불러오는 함수 (여러 요청이 결과를 공유하므로 요청별 AbortSignal을 넘기지 마세요)
+   */
+  get(key: string, load: () => Promise<T>): Promise<CacheResult<T>>;
+  clear(): void;
+}
+
+/**
+ * stale-while-revalidate 캐시를 만듭니다.
+ * @param options - TTL, stale 구간, 최대 항목 수
+ */
+export function createSwrCache<T>(options: SwrCacheOptions): SwrCache<T> {
+  const { ttlMs, staleMs, maxEntries = DEFAULT_MAX_ENTRIES, label = 'cache' } = options;
+  const entries = new Map<string, CacheEntry<T>>();
+  const inflight = new Map<string, Promise<CacheEntry<T>>>();
+
+  const store = (key: string, entry: CacheEntry<T>) => {
+    if (ttlMs <= 0) return;
+    // 최근 저장한 키가 뒤로 가도록 다시 넣고, 가장 오래된 것부터 제거 (Map은 삽입 순서 유지)
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > maxEntries) {
+      const oldestKey = entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      entries.delete(oldestKey);
+    }
+  };
+
+  const refresh = (key: string, load: () => Promise<T>): Promise<CacheEntry<T>> => {
+    const pending = inflight.get(key);
+    if (pending) return pending;
+
+    const promise = load()
+      .then((value) => {
+        const entry = { value, storedAt: Date.now() };
+        store(key, entry);
+        return entry;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async get(key, load) {
+      const entry = entries.get(key);
+      const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+      if (entry && age <= ttlMs) {
+        return { ...entry, status: 'HIT' };
+      }
+
+      if (entry && age <= ttlMs + staleMs) {
+        refresh(key, load).catch((error) => {
+          console.error(`Failed to revalidate ${label}:`, error);
+        });
+        return { ...entry, status: 'STALE' };
+      }
+
+      entries.delete(key);
+      return { ...(await refresh(key, load)), status: 'MISS' };
+    },
+
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * 초 단위 환경 변수를 읽습니다. (값이 없거나 잘못되면 기본값)
+ */
+export function readSecondsEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
@@ -0,0 +1,83 @@
+// 채널 단위 조회수 추이 집계
+// - 채널 영상들의 구간별 누적값(public.video)을 구간마다 합산합니다.
+// - 조회수 증가량은 영상별로 직전 구간 대비 증가량(감소는 0)을 더한 값입니다. 직전 구간이 없는 영상은 더하지 않습니다.
+// - 급등 영상은 구간 증가량으로 계산한 급등 점수(app/lib/platforms/metrics.ts)가 기준 이상인 영상입니다.
+// - 참여율은 (좋아요 + 댓글) / 조회수이며, 구간에 수집된 영상들의 중앙값입니다.
+
+import type { ChannelHistoryItem } from '@/app/lib/api/types';
+import { computeSurgeMetrics } from '@/app/lib/platforms/metrics';
+import type { ViewHistoryAxisBucket, ViewHistorySnapshotRow } from './view-history-batch';
+
+// 급등 영상 기준 급등 점수 (0-100, 인기 영상은 성장이 없어도 40점대가 나오므로 성장률이 함께 높아야 넘는 값)
+export const CHANNEL_SURGE_SCORE_THRESHOLD = 60;
+
+/**
+ * 채널 영상들의 구간별 누적값을 구간마다 집계합니다.
+ * 축이 limit보다 길면 앞쪽 구간은 증가량 비교 기준으로만 쓰고 결과에서 뺍니다.
+ * @param axis - 구간 축 (오래된 순, buildViewHistoryAxis의 calendar 축)
+ * @param rows - 영상별 구간 누적값
+ * @param limit - 반환할 구간 수
+ */
+export function aggregateChannelHistory(
+  axis: ViewHistoryAxisBucket[],
+  rows: ViewHistorySnapshotRow[],
+  limit: number
+): ChannelHistoryItem[] {
+  const axisIndex = new Map(axis.map((bucket, index) => [bucket.key, index]));
+  const buckets = axis.map(() => ({ viewsGained: 0, videos: 0, surgeVideos: 0, engagements: [] as number[] }));
+
+  // 영상별로 구간 순서대로 정렬해 직전 구간과 비교합니다.
+  const byVideo = new Map<string, { row: ViewHistorySnapshotRow; index: number }[]>();
+  for (const row of rows) {
+    const index = axisIndex.get(row.key);
+    if (index === undefined) continue;
+    const videoRows = byVideo.get(row.video_id) ?? [];
+    videoRows.push({ row, index });
+    byVideo.set(row.video_id, videoRows);
+  }
+
+  for (const videoRows of byVideo.values()) {
+    videoRows.sort((a, b) => a.index - b.index);
+    videoRows.forEach(({ row, index: position }, order) => {
+      const bucket = buckets[position];
+      const previous = order > 0 ? videoRows[order - 1].row : null;
+      bucket.videos += 1;
+      if (row.view_count > 0) bucket.engagements.push((row.like_count + row.comment_count) / row.view_count);
+      if (!previous) return;
+
+      const metrics = computeSurgeMetrics(
+        {
+          views: row.view_count,
+          viewsPrev: previous.view_count,
+          likes: row.like_count,
+          likesPrev: previous.like_count,
+          comments: row.comment_count,
+          commentsPrev: previous.comment_count,
+          publishedAt: row.published_at?.toISOString() ?? null,
+        },
+        row.key
+      );
+      bucket.viewsGained += metrics.view_velocity;
+      if (metrics.surge_score >= CHANNEL_SURGE_SCORE_THRESHOLD) bucket.surgeVideos += 1;
+    });
+  }
+
+  return axis
+    .map((bucket, index) => ({
+      snapshot_date: bucket.label,
+      bucket_start: bucket.bucket_start ?? new Date(bucket.key).toISOString(),
+      views_gained: buckets[index].viewsGained,
+      videos_crawled: buckets[index].videos,
+      surge_videos: buckets[index].surgeVideos,
+      median_engagement: median(buckets[index].engagements),
+    }))
+    .slice(Math.max(0, axis.length - limit));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Math.round(value * 10_000) / 10_000;
+}
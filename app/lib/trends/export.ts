@@ -0,0 +1,163 @@
+// 트렌드 영상 목록 내보내기 (CSV, JSON, XLSX)
+// 필터와 정렬이 적용된 랭킹 전체를 SurgeVideo 지표와 함께 파일로 만듭니다.
+// - CSV는 Excel에서 한글 제목이 깨지지 않도록 UTF-8 BOM을 붙이고, 수식으로 해석될 수 있는 문자열은 ' 로 시작하게 합니다.
+// - JSON은 SurgeVideo 원본 구조를 그대로 담습니다.
+
+import type { SurgeVideo, TrendExportFormat, TrendFilters, TrendRegion, TrendSortKey } from '@/app/lib/api/types';
+import { getPlatformProvider } from '@/app/lib/platforms';
+import { buildXlsx, XlsxCellValue } from './xlsx';
+
+export const TREND_EXPORT_FORMATS: readonly TrendExportFormat[] = ['csv', 'json', 'xlsx'];
+
+export const DEFAULT_TREND_EXPORT_FORMAT: TrendExportFormat = 'csv';
+
+export const TREND_EXPORT_FORMAT_LABELS: Record<TrendExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel (XLSX)',
+};
+
+const CONTENT_TYPES: Record<TrendExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const UTF8_BOM = '\uFEFF';
+
+// 순위가 매겨진 내보내기 항목
+export type RankedSurgeVideo = SurgeVideo & { trending_rank: number };
+
+export interface TrendExportMeta {
+  platform: string;
+  region: TrendRegion;
+  sort: TrendSortKey;
+  filters: TrendFilters;
+  days: number;
+  velocity_days: number;
+  // 랭킹 원본을 불러온 시각
+  snapshot_at: string;
+  exported_at: string;
+}
+
+export interface TrendExportFile {
+  body: string | Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+type ExportCell = XlsxCellValue;
+
+interface ExportColumn {
+  header: string;
+  value: (item: RankedSurgeVideo) => ExportCell;
+}
+
+type SurgeComponentKey = keyof SurgeVideo['surge_components'];
+
+const field = (key: Exclude<keyof RankedSurgeVideo, 'surge_components'>): ExportColumn => ({
+  header: key,
+  value: (item) => item[key],
+});
+
+const component = (key: SurgeComponentKey): ExportColumn => ({
+  header: key,
+  value: (item) => item.surge_components[key],
+});
+
+// CSV/XLSX 열 순서 (설명처럼 긴 본문은 제외)
+const EXPORT_COLUMNS: ExportColumn[] = [
+  field('trending_rank'),
+  field('video_id'),
+  { header: 'video_url', value: (item) => getPlatformProvider(item.platform).getVideoUrl(item.video_id) },
+  field('platform'),
+  field('title'),
+  field('channel_id'),
+  field('channel_username'),
+  field('category'),
+  field('category_id'),
+  field('duration'),
+  field('is_shorts'),
+  field('published_at'),
+  field('crawled_at'),
+  field('age_hours'),
+  field('view_count'),
+  field('view_count_prev'),
+  field('view_velocity'),
+  field('like_count'),
+  field('like_count_prev'),
+  field('like_velocity'),
+  field('comment_count'),
+  field('comment_count_prev'),
+  field('comment_velocity'),
+  field('delta_views_window'),
+  field('growth_rate_window'),
+  field('surge_score'),
+  field('total_score'),
+  field('freshness_score'),
+  field('freshness_score_with_bonus'),
+  field('freshness_bonus'),
+  component('growth_factor'),
+  component('velocity_factor'),
+  component('popularity_factor'),
+  component('freshness_factor'),
+  field('tags'),
+  field('thumbnail_url'),
+];
+
+/**
+ * 쿼리 값이 지원하는 내보내기 형식인지 확인합니다.
+ */
+export function isTrendExportFormat(value: unknown): value is TrendExportFormat {
+  return typeof value === 'string' && (TREND_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * 랭킹 항목을 내보내기 파일로 만듭니다.
+ * @param format - 파일 형식
+ * @param items - 순위가 매겨진 랭킹 전체
+ * @param meta - 조회 조건과 내보낸 시각
+ */
+export function buildTrendExport(
+  format: TrendExportFormat,
+  items: RankedSurgeVideo[],
+  meta: TrendExportMeta
+): TrendExportFile {
+  const filename = `trendix-${meta.platform}-${meta.region}-${meta.sort}-${formatFileTimestamp(meta.exported_at)}.${format}`;
+  const contentType = CONTENT_TYPES[format];
+
+  if (format === 'json') {
+    return {
+      body: JSON.stringify({ meta: { ...meta, count: items.length }, items }, null, 2),
+      contentType,
+      filename,
+    };
+  }
+
+  const header = EXPORT_COLUMNS.map((column) => column.header);
+  const rows = items.map((item) => EXPORT_COLUMNS.map((column) => column.value(item)));
+
+  if (format === 'xlsx') {
+    return {
+      body: buildXlsx({ name: `${meta.platform} ${meta.region} ${meta.sort}`, header, rows }, new Date(meta.exported_at)),
+      contentType,
+      filename,
+    };
+  }
+
+  const lines = [header, ...rows].map((row) => row.map(toCsvCell).join(','));
+  return { body: UTF8_BOM + lines.join('\r\n') + '\r\n', contentType, filename };
+}
+
+function toCsvCell(value: ExportCell): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // 스프레드시트에서 수식으로 실행되지 않도록 막습니다. (숫자 값의 음수 부호, @채널 핸들은 제외)
+  if (typeof value === 'string' && /^(?:[=+\-\t\r]|@(?![\w.]+$))/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 2026-01-02T09:05:00.000Z → 20260102-0905 (UTC)
+function formatFileTimestamp(iso: string): string {
+  return iso.slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+}
@@ -0,0 +1,193 @@
+// 급등 영상 RSS 2.0 / Atom 피드 렌더링
+// 각 항목은 썸네일, 급등 점수, 기간 내 조회수 증가량과 영상 상세 페이지(/video/[id]) 링크를 담습니다.
+// 다른 도구에서 값을 바로 읽을 수 있도록 순위와 지표는 trendix 네임스페이스 요소로도 넣습니다.
+
+import type { SurgeVideo } from '@/app/lib/api/types';
+import { getPlatformProvider } from '@/app/lib/platforms';
+import { escapeXml } from './xml';
+
+export type TrendFeedFormat = 'atom' | 'rss';
+
+export const TREND_FEED_FORMATS: readonly TrendFeedFormat[] = ['atom', 'rss'];
+
+export const DEFAULT_TREND_FEED_FORMAT: TrendFeedFormat = 'atom';
+
+const CONTENT_TYPES: Record<TrendFeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+};
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const MEDIA_NS = 'http://search.yahoo.com/mrss/';
+const TRENDIX_NS = 'urn:trendix:feed:1';
+
+export interface TrendFeed {
+  title: string;
+  description: string;
+  // 피드 자신의 URL (쿼리 포함)
+  selfUrl: string;
+  // 사이트 기본 URL (끝의 '/' 제외)
+  siteUrl: string;
+  // 랭킹 원본을 불러온 시각 (ISO)
+  updatedAt: string;
+  // 순위 순서대로 정렬된 영상
+  items: SurgeVideo[];
+}
+
+export interface RenderedTrendFeed {
+  body: string;
+  contentType: string;
+}
+
+interface FeedEntry {
+  rank: number;
+  video: SurgeVideo;
+  link: string;
+  thumbnailUrl: string;
+  channelName: string;
+  summary: string;
+  html: string;
+  publishedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 쿼리 값이 지원하는 피드 형식인지 확인합니다.
+ */
+export function isTrendFeedFormat(value: unknown): value is TrendFeedFormat {
+  return typeof value === 'string' && (TREND_FEED_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * 급등 영상 피드를 XML 문서로 만듭니다.
+ * @param format - atom 또는 rss
+ * @param feed - 피드 정보와 영상 목록
+ */
+export function renderTrendFeed(format: TrendFeedFormat, feed: TrendFeed): RenderedTrendFeed {
+  const entries = feed.items.map((video, index) => toFeedEntry(video, index + 1, feed));
+  const body = format === 'rss' ? renderRss(feed, entries) : renderAtom(feed, entries);
+  return { body, contentType: CONTENT_TYPES[format] };
+}
+
+function toFeedEntry(video: SurgeVideo, rank: number, feed: TrendFeed): FeedEntry {
+  const provider = getPlatformProvider(video.platform);
+  const link = `${feed.siteUrl}/video/${encodeURIComponent(video.video_id)}`;
+  const thumbnailUrl = video.thumbnail_url || provider.getThumbnailUrl(video.video_id);
+  const channelName = video.channel_username || video.channel_id;
+  const growthPercent = Math.round(video.growth_rate_window * 100);
+  const summary =
+    `${rank}위 · 급등 점수 ${video.surge_score.toFixed(1)} · ` +
+    `조회수 +${video.delta_views_window.toLocaleString('ko-KR')} (${growthPercent}%) · ` +
+    `누적 ${video.view_count.toLocaleString('ko-KR')}회`;
+  const html =
+    `<p><a href="${escapeXml(link)}"><img src="${escapeXml(thumbnailUrl)}" alt="${escapeXml(video.title)}" width="320"/></a></p>` +
+    `<p>${escapeXml(summary)}</p>` +
+    `<p>${escapeXml(provider.name)} · ${escapeXml(channelName)}</p>`;
+
+  return {
+    rank,
+    video,
+    link,
+    thumbnailUrl,
+    channelName,
+    summary,
+    html,
+    publishedAt: video.published_at ?? feed.updatedAt,
+    updatedAt: video.crawled_at ?? feed.updatedAt,
+  };
+}
+
+// 순위와 지표 (trendix 네임스페이스)
+function metricElements(entry: FeedEntry): string {
+  return (
+    `<trendix:rank>${entry.rank}</trendix:rank>` +
+    `<trendix:surge_score>${entry.video.surge_score}</trendix:surge_score>` +
+    `<trendix:delta_views_window>${entry.video.delta_views_window}</trendix:delta_views_window>` +
+    `<trendix:growth_rate_window>${entry.video.growth_rate_window}</trendix:growth_rate_window>` +
+    `<trendix:view_count>${entry.video.view_count}</trendix:view_count>`
+  );
+}
+
+function renderAtom(feed: TrendFeed, entries: FeedEntry[]): string {
+  const items = entries.map((entry) => {
+    const category = entry.video.category ? `<category term="${escapeXml(entry.video.category)}"/>` : '';
+    return (
+      '<entry>' +
+      `<id>${escapeXml(entry.link)}</id>` +
+      `<title>${escapeXml(entry.video.title)}</title>` +
+      `<link rel="alternate" type="text/html" href="${escapeXml(entry.link)}"/>` +
+      `<published>${toIsoDate(entry.publishedAt)}</published>` +
+      `<updated>${toIsoDate(entry.updatedAt)}</updated>` +
+      `<author><name>${escapeXml(entry.channelName)}</name></author>` +
+      category +
+      `<summary type="text">${escapeXml(entry.summary)}</summary>` +
+      `<content type="html">${escapeXml(entry.html)}</content>` +
+      `<media:thumbnail url="${escapeXml(entry.thumbnailUrl)}"/>` +
+      metricElements(entry) +
+      '</entry>'
+    );
+  });
+
+  return (
+    '<?xml version="1.0" encoding="utf-8"?>\n' +
+    `<feed xmlns="${ATOM_NS}" xmlns:media="${MEDIA_NS}" xmlns:trendix="${TRENDIX_NS}" xml:lang="ko">` +
+    `<id>${escapeXml(feed.selfUrl)}</id>` +
+    `<title>${escapeXml(feed.title)}</title>` +
+    `<subtitle>${escapeXml(feed.description)}</subtitle>` +
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>` +
+    `<link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}/"/>` +
+    `<updated>${toIsoDate(feed.updatedAt)}</updated>` +
+    '<generator>Trendix</generator>' +
+    items.join('') +
+    '</feed>\n'
+  );
+}
+
+function renderRss(feed: TrendFeed, entries: FeedEntry[]): string {
+  const items = entries.map((entry) => {
+    const category = entry.video.category ? `<category>${escapeXml(entry.video.category)}</category>` : '';
+    return (
+      '<item>' +
+      `<title>${escapeXml(entry.video.title)}</title>` +
+      `<link>${escapeXml(entry.link)}</link>` +
+      `<guid isPermaLink="true">${escapeXml(entry.link)}</guid>` +
+      `<pubDate>${toRfc822Date(entry.publishedAt)}</pubDate>` +
+      category +
+      `<description>${escapeXml(entry.html)}</description>` +
+      `<media:thumbnail url="${escapeXml(entry.thumbnailUrl)}"/>` +
+      metricElements(entry) +
+      '</item>'
+    );
+  });
+
+  return (
+    '<?xml version="1.0" encoding="utf-8"?>\n' +
+    `<rss version="2.0" xmlns:atom="${ATOM_NS}" xmlns:media="${MEDIA_NS}" xmlns:trendix="${TRENDIX_NS}">` +
+    '<channel>' +
+    `<title>${escapeXml(feed.title)}</title>` +
+    `<link>${escapeXml(feed.siteUrl)}/</link>` +
+    `<description>${escapeXml(feed.description)}</description>` +
+    '<language>ko</language>' +
+    `<lastBuildDate>${toRfc822Date(feed.updatedAt)}</lastBuildDate>` +
+    `<atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>` +
+    '<generator>Trendix</generator>' +
+    items.join('') +
+    '</channel>' +
+    '</rss>\n'
+  );
+}
+
+// 잘못된 날짜 문자열은 현재 시각으로 대체합니다.
+function toDate(value: string): Date {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
+function toIsoDate(value: string): string {
+  return toDate(value).toISOString();
+}
+
+// Mon, 19 Oct 2026 09:00:00 GMT
+function toRfc822Date(value: string): string {
+  return toDate(value).toUTCString();
+}
@@ -0,0 +1,152 @@
+// 트렌드 영상 목록 필터
+// 쿼리 파라미터를 TrendFilters로 해석하고, 랭킹 계산 전에 백엔드 목록에 적용합니다.
+// - is_shorts: true(쇼츠만) / false(롱폼만)
+// - category_id: 플랫폼 카테고리 번호 (YouTube는 공식 카테고리 ID, 그 외는 플랫폼 제공자의 categories)
+// - min_views, max_views: 누적 조회수 범위
+// - published_within_hours: 최근 N시간 이내 게시
+// - channel_id: 채널 ID
+// - duration: short,medium,long 중 하나 이상 (쉼표 구분)
+
+import type { DurationBucket, SurgeVideo, TrendFilters } from '@/app/lib/api/types';
+
+export const DURATION_BUCKETS: readonly DurationBucket[] = ['short', 'medium', 'long'];
+
+const SHORT_MAX_SECONDS = 4 * 60;
+const MEDIUM_MAX_SECONDS = 20 * 60;
+const MAX_PUBLISHED_WITHIN_HOURS = 24 * 30;
+
+export type ParseTrendFiltersResult = { filters: TrendFilters; error?: undefined } | { filters?: undefined; error: string };
+
+/**
+ * 쿼리 파라미터에서 필터를 해석합니다.
+ * @param searchParams - 요청 쿼리
+ * @returns 지정된 필터만 담은 객체, 또는 잘못된 값에 대한 오류 메시지
+ */
+export function parseTrendFilters(searchParams: URLSearchParams): ParseTrendFiltersResult {
+  const filters: TrendFilters = {};
+  const get = (key: string) => searchParams.get(key)?.trim() || null;
+
+  const isShorts = get('is_shorts');
+  if (isShorts !== null) {
+    if (isShorts !== 'true' && isShorts !== 'false') {
+      return { error: 'is_shorts는 true 또는 false만 사용할 수 있습니다.' };
+    }
+    filters.is_shorts = isShorts === 'true';
+  }
+
+  const categoryId = get('category_id');
+  if (categoryId !== null) {
+    const value = Number(categoryId);
+    if (!Number.isInteger(value) || value < 0) return { error: 'category_id는 플랫폼 카테고리 번호여야 합니다.' };
+    filters.category_id = value;
+  }
+
+  for (const key of ['min_views', 'max_views'] as const) {
+    const raw = get(key);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) return { error: `${key}는 0 이상의 숫자여야 합니다.` };
+    filters[key] = Math.floor(value);
+  }
+  if (filters.min_views !== undefined && filters.max_views !== undefined && filters.min_views > filters.max_views) {
+    return { error: 'min_views는 max_views보다 클 수 없습니다.' };
+  }
+
+  const publishedWithin = get('published_within_hours');
+  if (publishedWithin !== null) {
+    const value = Number(publishedWithin);
+    if (!Number.isFinite(value) || value <= 0 || value > MAX_PUBLISHED_WITHIN_HOURS) {
+      return { error: `published_within_hours는 1~${MAX_PUBLISHED_WITHIN_HOURS} 사이여야 합니다.` };
+    }
+    filters.published_within_hours = value;
+  }
+
+  const channelId = get('channel_id');
+  if (channelId !== null) filters.channel_id = channelId;
+
+  const duration = get('duration');
+  if (duration !== null) {
+    const buckets = Array.from(new Set(duration.split(',').map((bucket) => bucket.trim()).filter(Boolean)));
+    const invalid = buckets.filter((bucket) => !(DURATION_BUCKETS as readonly string[]).includes(bucket));
+    if (buckets.length === 0 || invalid.length > 0) {
+      return { error: `duration은 ${DURATION_BUCKETS.join(', ')} 중에서 선택해야 합니다.` };
+    }
+    // 커서 조회 조건 키가 순서에 영향받지 않도록 정렬
+    filters.duration = DURATION_BUCKETS.filter((bucket) => buckets.includes(bucket));
+  }
+
+  return { filters };
+}
+
+/**
+ * 필터를 쿼리 파라미터 값으로 변환합니다. (클라이언트 요청용)
+ */
+export function trendFiltersToQuery(filters: TrendFilters = {}): Record<string, string | number | boolean | undefined> {
+  return {
+    is_shorts: filters.is_shorts,
+    category_id: filters.category_id,
+    min_views: filters.min_views,
+    max_views: filters.max_views,
+    published_within_hours: filters.published_within_hours,
+    channel_id: filters.channel_id,
+    duration: filters.duration?.length ? filters.duration.join(',') : undefined,
+  };
+}
+
+/**
+ * 영상이 필터 조건을 모두 만족하는지 확인합니다.
+ * 필터에 필요한 값이 없는 영상(예: 게시 시각, 길이 미수집)은 해당 필터가 있을 때 제외합니다.
+ * @param item - 백엔드 급등 영상
+ * @param filters - 적용할 필터
+ * @param now - 기준 시각 (ms)
+ */
+export function matchesTrendFilters(item: SurgeVideo, filters: TrendFilters, now = Date.now()): boolean {
+  if (filters.is_shorts !== undefined && Boolean(item.is_shorts) !== filters.is_shorts) return false;
+  if (filters.category_id !== undefined && item.category_id !== filters.category_id) return false;
+  if (filters.min_views !== undefined && item.view_count < filters.min_views) return false;
+  if (filters.max_views !== undefined && item.view_count > filters.max_views) return false;
+  if (filters.channel_id !== undefined && item.channel_id !== filters.channel_id) return false;
+
+  if (filters.published_within_hours !== undefined) {
+    const publishedAt = item.published_at ? Date.parse(item.published_at) : NaN;
+    if (Number.isNaN(publishedAt)) return false;
+    if (now - publishedAt > filters.published_within_hours * 3_600_000) return false;
+  }
+
+  if (filters.duration !== undefined) {
+    const bucket = getDurationBucket(item.duration);
+    if (bucket === null || !filters.duration.includes(bucket)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * 영상 길이 문자열을 구간으로 분류합니다.
+ * @param duration - 'PT4M13S'(ISO 8601) 또는 '4:13', '1:02:03' 형식
+ * @returns 길이 구간 (해석할 수 없으면 null)
+ */
+export function getDurationBucket(duration: string | null): DurationBucket | null {
+  const seconds = parseDurationSeconds(duration);
+  if (seconds === null) return null;
+  if (seconds < SHORT_MAX_SECONDS) return 'short';
+  if (seconds <= MEDIUM_MAX_SECONDS) return 'medium';
+  return 'long';
+}
+
+function parseDurationSeconds(duration: string | null): number | null {
+  if (!duration) return null;
+  const value = duration.trim();
+
+  const iso = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i.exec(value);
+  if (iso && iso.slice(1).some((part) => part !== undefined)) {
+    const [, d, h, m, s] = iso;
+    return Number(d ?? 0) * 86_400 + Number(h ?? 0) * 3_600 + Number(m ?? 0) * 60 + Number(s ?? 0);
+  }
+
+  if (/^\d+(?::\d{1,2}){0,2}$/.test(value)) {
+    return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  }
+
+  return null;
+}
@@ -0,0 +1,440 @@
+// 트렌드 영상 목록 라우트 핸들러 공통 처리 (서버 전용)
+// /api/trends/videos 와 /api/trends/videos/surge 가 파라미터 해석, 필터, 정렬, 커서 페이지네이션,
+// 에러 응답 형식을 공유하고 백엔드 경로와 항목 변환만 다르게 둡니다.
+// 내보내기(/export)와 RSS/Atom 피드(/feeds) 핸들러도 같은 조회 조건과 캐시를 사용합니다.
+// 백엔드 랭킹 원본은 프로세스 내 캐시(stale-while-revalidate)를 거치고, 응답에는 ETag와 Cache-Control을 붙여
+// 브라우저가 If-None-Match로 재검증하면 304를 반환합니다.
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRequest } from '@/app/lib/api/client';
+import { surgeVideoResponseDecoder } from '@/app/lib/api/decoders';
+import { APIError, SurgeVideo, TrendFilters, TrendRegion, TrendSortKey, TrendVideoPageMeta } from '@/app/lib/api/types';
+import {
+  DEFAULT_PLATFORM,
+  getPlatformApiBaseUrl,
+  getPlatformProvider,
+  isPlatformId,
+  PLATFORM_IDS,
+  PlatformId,
+} from '@/app/lib/platforms';
+import { CacheResult, CacheStatus, createSwrCache, readSecondsEnv } from './cache';
+import { buildTrendExport, DEFAULT_TREND_EXPORT_FORMAT, isTrendExportFormat, TREND_EXPORT_FORMATS } from './export';
+import { DEFAULT_TREND_FEED_FORMAT, isTrendFeedFormat, renderTrendFeed, TREND_FEED_FORMATS } from './feed';
+import { matchesTrendFilters, parseTrendFilters } from './filters';
+import { compareRankingKeys, decodeCursor, paginateRanking, RankingKey } from './pagination';
+import { DEFAULT_TREND_REGION, isTrendRegion, TREND_REGION_INFO, TREND_REGIONS, trendRegionToBackendQuery } from './region';
+import { DEFAULT_TREND_SORT, getSortValue, isTrendSortKey, TREND_SORT_KEYS } from './sort';
+
+// 커서 페이지네이션용 랭킹 스냅샷 크기 (백엔드에서 한 번에 가져오는 최대 개수)
+const RANKING_SNAPSHOT_SIZE = 200;
+
+// 백엔드 랭킹 원본 캐시 시간 (초). TTL이 0이면 캐시하지 않고 동시 요청만 합칩니다.
+const CACHE_TTL_SECONDS = readSecondsEnv('TRENDS_CACHE_TTL_SECONDS', 60);
+const CACHE_SWR_SECONDS = readSecondsEnv('TRENDS_CACHE_SWR_SECONDS', 300);
+
+const rankingSourceCache = createSwrCache<SurgeVideo[]>({
+  ttlMs: CACHE_TTL_SECONDS * 1000,
+  staleMs: CACHE_SWR_SECONDS * 1000,
+  label: 'trend ranking source',
+});
+
+export interface TrendListHandlerOptions<T> {
+  // 랭킹 원본을 가져올 백엔드 경로
+  backendPath: string;
+  // 지정하면 sort 파라미터 대신 이 기준으로만 정렬합니다.
+  fixedSort?: TrendSortKey;
+  // 응답 항목 변환 (rank는 1부터)
+  toItem: (item: SurgeVideo, rank: number) => T;
+  // 예기치 못한 오류 로그에 남길 이름
+  logLabel: string;
+}
+
+export type TrendExportHandlerOptions = Omit<TrendListHandlerOptions<never>, 'toItem'>;
+
+export type TrendFeedHandlerOptions = Omit<TrendListHandlerOptions<never>, 'toItem' | 'fixedSort'>;
+
+export interface TrendFeedRequestOptions {
+  // /feeds/category/[id].xml 경로의 [id].xml 부분 (없으면 전체 피드)
+  categoryPath?: string;
+}
+
+// 목록 항목 수와 조회 기간(일)의 기본값과 최대값
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const DEFAULT_DAYS = 3;
+const MAX_DAYS = 30;
+
+// 피드 항목 수 기본값 (limit 파라미터로 변경, 최대 50)
+const FEED_DEFAULT_LIMIT = 20;
+
+// 요청 쿼리에서 읽은 조회 조건
+interface TrendListParams {
+  platform: string;
+  region: TrendRegion;
+  limit: number;
+  days: number;
+  velocityDays: number;
+  rawCursor: string | null;
+  sort: TrendSortKey;
+  filters: TrendFilters;
+}
+
+type ParsedTrendListParams =
+  | { params: TrendListParams; error: string }
+  | { params: TrendListParams & { platform: PlatformId }; error?: undefined };
+
+interface TrendErrorResult {
+  status: number;
+  message: string;
+  extra?: Record<string, unknown>;
+}
+
+const rankingKeyOf = (sort: TrendSortKey) => (item: SurgeVideo): RankingKey => ({
+  score: getSortValue(item, sort),
+  videoId: item.video_id,
+});
+
+/**
+ * 트렌드 영상 목록 GET 핸들러를 만듭니다.
+ * @param options - 백엔드 경로, 고정 정렬 기준, 항목 변환 함수
+ */
+export function createTrendListHandler<T>(options: TrendListHandlerOptions<T>) {
+  const { backendPath, fixedSort, toItem, logLabel } = options;
+
+  return async function GET(request: NextRequest) {
+    const parsed = parseTrendListParams(new URL(request.url).searchParams, fixedSort);
+    const { platform, region, limit, days, velocityDays, rawCursor, sort, filters } = parsed.params;
+
+    const errorResponse = (status: number, message: string, extra?: Record<string, unknown>) => {
+      const meta: TrendVideoPageMeta = {
+        platform,
+        region,
+        sort,
+        filters,
+        limit: 0,
+        requested_limit: limit,
+        days,
+        velocity_days: velocityDays,
+        next_cursor: null,
+        has_more: false,
+        snapshot_at: null,
+        message,
+      };
+      return NextResponse.json(
+        { items: [], meta: { ...meta, ...extra } },
+        { status, headers: { 'Cache-Control': 'no-store' } }
+      );
+    };
+
+    if (parsed.error !== undefined) {
+      return errorResponse(400, parsed.error);
+    }
+
+    // 조회 조건이 다른 커서는 같은 랭킹의 다음 페이지가 아니므로 거부합니다.
+    const queryKey = JSON.stringify([backendPath, platform, region, days, velocityDays, sort, filters]);
+    const keyOf = rankingKeyOf(sort);
+    const cursor = rawCursor ? decodeCursor(rawCursor, queryKey) : null;
+    if (rawCursor && !cursor) {
+      return errorResponse(400, '유효하지 않은 cursor입니다. 첫 페이지부터 다시 조회해주세요.');
+    }
+
+    try {
+      // 커서의 스냅샷이 살아 있으면 원본을 다시 불러오지 않으므로 HIT
+      let cacheStatus: CacheStatus = 'HIT';
+      const page = await paginateRanking({
+        queryKey,
+        cursor,
+        limit,
+        keyOf,
+        loadRanking: async () => {
+          const ranking = await loadFilteredRanking(backendPath, parsed.params);
+          cacheStatus = ranking.status;
+          return { items: ranking.value, version: ranking.storedAt };
+        },
+      });
+
+      const items = page.items.map((item, index) => toItem(item, page.offset + index + 1));
+      const meta: TrendVideoPageMeta = {
+        platform,
+        region,
+        sort,
+        filters,
+        limit: items.length,
+        requested_limit: limit,
+        days,
+        velocity_days: velocityDays,
+        next_cursor: page.nextCursor,
+        has_more: page.nextCursor !== null,
+        snapshot_at: page.snapshotAt,
+      };
+
+      return cachedResponse(request, JSON.stringify({ items, meta }), 'application/json', cacheStatus);
+    } catch (error) {
+      const failure = describeTrendError(error, logLabel);
+      return errorResponse(failure.status, failure.message, failure.extra);
+    }
+  };
+}
+
+/**
+ * 트렌드 영상 목록 내보내기 GET 핸들러를 만듭니다.
+ * 목록과 같은 조회 조건으로 필터/정렬된 랭킹 전체를 format(csv, json, xlsx) 파일로 내려줍니다. (limit, cursor는 무시)
+ * @param options - 백엔드 경로, 고정 정렬 기준
+ */
+export function createTrendExportHandler(options: TrendExportHandlerOptions) {
+  const { backendPath, fixedSort, logLabel } = options;
+
+  return async function GET(request: NextRequest) {
+    const searchParams = new URL(request.url).searchParams;
+    const parsed = parseTrendListParams(searchParams, fixedSort);
+    const format = (searchParams.get('format') || DEFAULT_TREND_EXPORT_FORMAT).toLowerCase();
+
+    // 다운로드 요청이므로 apiFetch가 메시지를 읽을 수 있게 detail로 응답합니다.
+    const errorResponse = (status: number, message: string, extra?: Record<string, unknown>) =>
+      NextResponse.json({ detail: message, ...extra }, { status, headers: { 'Cache-Control': 'no-store' } });
+
+    if (!isTrendExportFormat(format)) {
+      return errorResponse(400, `지원하지 않는 내보내기 형식입니다. (${TREND_EXPORT_FORMATS.join(', ')})`);
+    }
+
+    if (parsed.error !== undefined) {
+      return errorResponse(400, parsed.error);
+    }
+
+    try {
+      const { platform, region, days, velocityDays, sort, filters } = parsed.params;
+      const ranking = await loadFilteredRanking(backendPath, parsed.params);
+      const file = buildTrendExport(
+        format,
+        ranking.value.map((item, index) => ({ ...item, trending_rank: index + 1 })),
+        {
+          platform,
+          region,
+          sort,
+          filters,
+          days,
+          velocity_days: velocityDays,
+          snapshot_at: new Date(ranking.storedAt).toISOString(),
+          exported_at: new Date().toISOString(),
+        }
+      );
+
+      return new NextResponse(file.body, {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename="${file.filename}"`,
+          'Cache-Control': 'no-store',
+          'X-Cache': ranking.status,
+        },
+      });
+    } catch (error) {
+      const failure = describeTrendError(error, logLabel);
+      return errorResponse(failure.status, failure.message, failure.extra);
+    }
+  };
+}
+
+/**
+ * 급등 영상 RSS/Atom 피드 핸들러를 만듭니다.
+ * 목록과 같은 조회 조건(format=atom|rss 추가)으로 랭킹 상위 항목을 피드로 내려줍니다.
+ * 카테고리 피드는 경로의 카테고리 ID를 category_id 필터로 사용하며, 플랫폼 카테고리에 없으면 404입니다.
+ * @param options - 백엔드 경로
+ */
+export function createTrendFeedHandler(options: TrendFeedHandlerOptions) {
+  const { backendPath, logLabel } = options;
+
+  return async function handleFeed(request: NextRequest, feedOptions: TrendFeedRequestOptions = {}) {
+    const url = new URL(request.url);
+    const searchParams = new URLSearchParams(url.searchParams);
+    const format = (searchParams.get('format') || DEFAULT_TREND_FEED_FORMAT).toLowerCase();
+    if (!Number(searchParams.get('limit'))) searchParams.set('limit', String(FEED_DEFAULT_LIMIT));
+    searchParams.delete('category_id');
+    searchParams.delete('cursor');
+
+    // 피드 리더가 그대로 보여주도록 오류는 일반 텍스트로 응답합니다.
+    const errorResponse = (status: number, message: string) =>
+      new NextResponse(message, {
+        status,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+      });
+
+    if (!isTrendFeedFormat(format)) {
+      return errorResponse(400, `지원하지 않는 피드 형식입니다. (${TREND_FEED_FORMATS.join(', ')})`);
+    }
+
+    const parsed = parseTrendListParams(searchParams);
+    if (parsed.error !== undefined) {
+      return errorResponse(400, parsed.error);
+    }
+
+    const provider = getPlatformProvider(parsed.params.platform);
+    const categoryId = feedOptions.categoryPath?.match(/^(.+)\.xml$/)?.[1];
+    const category = provider.categories.find((item) => item.id === categoryId);
+    if (feedOptions.categoryPath !== undefined && !category) {
+      return errorResponse(404, `${provider.name}에 없는 카테고리입니다.`);
+    }
+
+    const params = category
+      ? { ...parsed.params, filters: { ...parsed.params.filters, category_id: Number(category.id) } }
+      : parsed.params;
+
+    try {
+      const ranking = await loadFilteredRanking(backendPath, params);
+      const siteUrl = (process.env.NEXT_PUBLIC_SITE_URL || url.origin).replace(/\/+$/, '');
+      const regionName = TREND_REGION_INFO[params.region].name;
+      const scope = category ? `${regionName} ${provider.name} ${category.name}` : `${regionName} ${provider.name}`;
+      const feed = renderTrendFeed(format, {
+        title: `Trendix ${scope} 급등 영상`,
+        description: `최근 ${params.days}일 ${scope} 급등 영상 랭킹 (${params.sort} 기준 상위 ${params.limit}개)`,
+        selfUrl: `${siteUrl}${url.pathname}${url.search}`,
+        siteUrl,
+        updatedAt: new Date(ranking.storedAt).toISOString(),
+        items: ranking.value.slice(0, params.limit),
+      });
+
+      return cachedResponse(request, feed.body, feed.contentType, ranking.status);
+    } catch (error) {
+      const failure = describeTrendError(error, logLabel);
+      return errorResponse(failure.status, failure.message);
+    }
+  };
+}
+
+/**
+ * 요청 쿼리에서 조회 조건을 읽고 검증합니다.
+ * 검증에 실패해도 에러 응답 meta에 쓸 수 있도록 params는 항상 채워 반환합니다.
+ */
+function parseTrendListParams(searchParams: URLSearchParams, fixedSort?: TrendSortKey): ParsedTrendListParams {
+  const platform = (searchParams.get('platform') || DEFAULT_PLATFORM).toLowerCase();
+  const rawRegion = (searchParams.get('region') || DEFAULT_TREND_REGION).toLowerCase();
+  const region = isTrendRegion(rawRegion) ? rawRegion : DEFAULT_TREND_REGION;
+  // 숫자가 아닌 값(limit=abc)은 기본값으로 처리합니다.
+  const limit = Math.max(1, Math.min(Number(searchParams.get('limit') || DEFAULT_LIMIT) || DEFAULT_LIMIT, MAX_LIMIT));
+  const days = Math.max(1, Math.min(Number(searchParams.get('days') || DEFAULT_DAYS) || DEFAULT_DAYS, MAX_DAYS));
+  const velocityDaysRaw = Number(searchParams.get('velocity_days') || '1');
+  const velocityDays = velocityDaysRaw === 3 ? 3 : 1;
+  const rawCursor = searchParams.get('cursor');
+  const rawSort = searchParams.get('sort') || fixedSort || DEFAULT_TREND_SORT;
+  const sort = fixedSort ?? (isTrendSortKey(rawSort) ? rawSort : DEFAULT_TREND_SORT);
+  const parsedFilters = parseTrendFilters(searchParams);
+  const filters: TrendFilters = parsedFilters.filters ?? {};
+  const params = { platform, region, limit, days, velocityDays, rawCursor, sort, filters };
+
+  if (!isPlatformId(platform)) {
+    return { params, error: `지원하지 않는 플랫폼입니다. (${PLATFORM_IDS.join(', ')})` };
+  }
+
+  if (!isTrendRegion(rawRegion)) {
+    return { params, error: `지원하지 않는 지역입니다. (${TREND_REGIONS.join(', ')})` };
+  }
+
+  if (fixedSort && rawSort !== fixedSort) {
+    return { params, error: `이 목록은 ${fixedSort} 기준으로만 정렬됩니다.` };
+  }
+
+  if (!isTrendSortKey(rawSort)) {
+    return { params, error: `지원하지 않는 정렬 기준입니다. (${TREND_SORT_KEYS.join(', ')})` };
+  }
+
+  if (parsedFilters.error) {
+    return { params, error: parsedFilters.error };
+  }
+
+  return { params: { ...params, platform } };
+}
+
+/**
+ * 캐시된 백엔드 랭킹 원본에 필터를 적용하고 정렬 기준으로 다시 정렬합니다.
+ * (같은 값은 video_id 순으로 고정)
+ */
+async function loadFilteredRanking(
+  backendPath: string,
+  params: TrendListParams & { platform: PlatformId }
+): Promise<CacheResult<SurgeVideo[]>> {
+  const { platform, region, days, velocityDays, sort, filters } = params;
+
+  // 정렬/필터와 무관한 백엔드 조회 조건만 캐시 키로 사용합니다.
+  // 동시 요청이 결과를 공유하므로 요청별 signal 대신 클라이언트 타임아웃에 맡깁니다.
+  const sourceKey = JSON.stringify([backendPath, platform, region, days, velocityDays]);
+  const source = await rankingSourceCache.get(sourceKey, async () => {
+    const backendData = await apiRequest(backendPath, {
+      // fixture 플랫폼은 백엔드 대신 mock 라우터의 fixture 랭킹을 사용합니다.
+      baseUrl: getPlatformApiBaseUrl(platform),
+      query: {
+        platform,
+        ...trendRegionToBackendQuery(region),
+        limit: RANKING_SNAPSHOT_SIZE,
+        days,
+        velocity_days: velocityDays,
+      },
+      errorMessage: '백엔드 요청 실패',
+      decoder: surgeVideoResponseDecoder,
+    });
+    return backendData.items;
+  });
+
+  const keyOf = rankingKeyOf(sort);
+  const now = Date.now();
+  const items = source.value
+    .filter((item) => matchesTrendFilters(item, filters, now))
+    .sort((a, b) => compareRankingKeys(keyOf(a), keyOf(b)));
+  return { ...source, value: items };
+}
+
+/**
+ * 랭킹 조회 중 발생한 오류를 응답 상태 코드와 메시지로 변환합니다.
+ */
+function describeTrendError(error: unknown, logLabel: string): TrendErrorResult {
+  if (error instanceof APIError && error.code === 'CONFIG') {
+    return { status: 500, message: '백엔드 API BASE URL(NEXT_PUBLIC_API_BASE_URL)이 설정되지 않았습니다.' };
+  }
+
+  if (error instanceof APIError && (error.code === 'HTTP' || error.code === 'TIMEOUT')) {
+    return {
+      status: error.code === 'TIMEOUT' ? 504 : 502,
+      message: error.code === 'TIMEOUT' ? error.message : `백엔드 요청 실패: ${error.statusCode}`,
+      extra: { backend_error: error.details },
+    };
+  }
+
+  if (error instanceof APIError && error.code === 'INVALID_RESPONSE') {
+    return { status: 502, message: error.message, extra: { backend_error: error.details } };
+  }
+
+  console.error(`Failed to fetch ${logLabel} from backend:`, error);
+
+  return { status: 500, message: '백엔드 트렌드 영상 데이터를 가져오는 중 오류가 발생했습니다.' };
+}
+
+/**
+ * 본문 해시로 ETag를 붙인 응답을 만듭니다.
+ * If-None-Match가 일치하면 본문 없이 304를 반환합니다.
+ */
+function cachedResponse(
+  request: NextRequest,
+  body: string,
+  contentType: string,
+  cacheStatus: CacheStatus
+): NextResponse {
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+  const headers = {
+    ETag: etag,
+    'Cache-Control': `public, max-age=${CACHE_TTL_SECONDS}, stale-while-revalidate=${CACHE_SWR_SECONDS}`,
+    'X-Cache': cacheStatus,
+  };
+
+  if (matchesIfNoneMatch(request.headers.get('if-none-match'), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(body, { headers: { ...headers, 'Content-Type': contentType } });
+}
+
+// If-None-Match 비교 (약한 비교: W/ 접두사 무시, 쉼표로 여러 값, * 허용)
+function matchesIfNoneMatch(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header
+    .split(',')
+    .map((value) => value.trim().replace(/^W\//, ''))
+    .some((value) => value === '*' || value === etag);
+}
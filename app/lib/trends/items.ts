@@ -0,0 +1,80 @@
+// 트렌드 영상 응답 항목 변환
+// 백엔드 SurgeVideo에서 목록 표시에 필요한 필드만 남기고, 급등 뷰에는 점수 근거를 덧붙입니다.
+
+import type { SurgeFactor, SurgeTrendVideo, SurgeVideo, TrendVideo } from '@/app/lib/api/types';
+
+/**
+ * 목록 표시용 항목으로 변환합니다. (/api/trends/videos)
+ * @param item - 백엔드 급등 영상
+ * @param rank - 랭킹 순위 (1부터)
+ */
+export function toTrendVideo(item: SurgeVideo, rank: number): TrendVideo {
+  return {
+    video_id: item.video_id,
+    title: item.title,
+    channel_id: item.channel_id,
+    channel_username: item.channel_username,
+    platform: item.platform,
+    category: item.category,
+    category_id: item.category_id,
+    duration: item.duration,
+    view_count: item.view_count,
+    like_count: item.like_count,
+    like_count_prev: item.like_count_prev,
+    comment_count: item.comment_count,
+    published_at: item.published_at,
+    thumbnail_url: item.thumbnail_url,
+    crawled_at: item.crawled_at,
+    is_shorts: item.is_shorts,
+    surge_score: item.surge_score,
+    total_score: item.total_score,
+    freshness_score: item.freshness_score,
+    delta_views_window: item.delta_views_window,
+    growth_rate_window: item.growth_rate_window,
+    view_velocity: item.view_velocity,
+    like_velocity: item.like_velocity,
+    comment_velocity: item.comment_velocity,
+    age_hours: item.age_hours,
+    trending_rank: rank,
+  };
+}
+
+/**
+ * 점수 구성 요소와 기간 내 변화량을 포함한 항목으로 변환합니다. (/api/trends/videos/surge)
+ * @param item - 백엔드 급등 영상
+ * @param rank - 랭킹 순위 (1부터)
+ */
+export function toSurgeTrendVideo(item: SurgeVideo, rank: number): SurgeTrendVideo {
+  return {
+    ...toTrendVideo(item, rank),
+    surge_components: item.surge_components,
+    window_deltas: {
+      views: item.delta_views_window,
+      likes: item.like_count - item.like_count_prev,
+      comments: item.comment_count - item.comment_count_prev,
+      view_growth_rate: item.growth_rate_window,
+    },
+    primary_factor: getPrimaryFactor(item.surge_components),
+  };
+}
+
+/**
+ * 현재 시각 기준 게시 후 경과 시간(시간)을 반환합니다.
+ * age_hours는 수집 시각(crawled_at) 기준이므로 수집 이후 지난 시간을 더합니다. 경과 시간이 없으면 null
+ * @param item - 트렌드 영상 항목
+ * @param now - 기준 시각 (ms)
+ */
+export function getCurrentAgeHours(item: Pick<TrendVideo, 'age_hours' | 'crawled_at'>, now = Date.now()): number | null {
+  if (item.age_hours === null) return null;
+  const crawledAt = item.crawled_at ? Date.parse(item.crawled_at) : NaN;
+  const sinceCrawl = Number.isNaN(crawledAt) ? 0 : Math.max(0, now - crawledAt) / 3_600_000;
+  return item.age_hours + sinceCrawl;
+}
+
+/**
+ * 급등 점수에 가장 크게 기여한 요소를 반환합니다. (같으면 growth → velocity → popularity → freshness 순)
+ */
+export function getPrimaryFactor(components: SurgeVideo['surge_components']): SurgeFactor {
+  const factors: SurgeFactor[] = ['growth_factor', 'velocity_factor', 'popularity_factor', 'freshness_factor'];
+  return factors.reduce((best, factor) => (components[factor] > components[best] ? factor : best));
+}
@@ -0,0 +1,198 @@
+// 트렌드 영상 랭킹 커서 페이지네이션 (서버 전용)
+// - 첫 페이지 요청 시 정렬된 랭킹 전체를 스냅샷으로 저장하고, 이후 페이지는 같은 스냅샷에서 잘라 반환합니다.
+//   수집 주기마다 surge_score가 바뀌어도 페이지 사이에 영상이 중복되거나 누락되지 않습니다.
+// - 스냅샷이 만료되었거나 다른 서버 인스턴스로 요청이 간 경우, 커서에 담긴 마지막 항목의
+//   (점수, video_id) 다음 위치부터 새 랭킹을 이어서 반환합니다.
+// - 커서는 클라이언트가 해석하지 않는 불투명 문자열(base64url JSON)입니다.
+// - 첫 페이지 요청이라도 같은 조회 조건, 같은 원본 버전의 스냅샷이 살아 있으면 재사용해
+//   같은 데이터에는 같은 응답(커서 포함)을 돌려줍니다. (ETag 재검증용)
+
+import { randomUUID } from 'crypto';
+
+const SNAPSHOT_TTL_MS = 10 * 60_000;
+const MAX_SNAPSHOTS = 100;
+const CURSOR_VERSION = 1;
+
+// 정렬 기준 값. 점수 내림차순, 같은 점수는 video_id 오름차순으로 순서를 고정합니다.
+export interface RankingKey {
+  score: number;
+  videoId: string;
+}
+
+export interface TrendCursor {
+  v: number;
+  // 스냅샷 ID
+  s: string;
+  // 조회 조건 키 (조건이 바뀐 커서는 거부)
+  q: string;
+  // 다음 페이지 시작 위치
+  o: number;
+  // 이전 페이지 마지막 항목의 정렬 기준 값 [score, video_id] (값이 없는 점수는 null)
+  k: [number | null, string];
+}
+
+interface RankingSnapshot<T> {
+  id: string;
+  queryKey: string;
+  items: T[];
+  // 랭킹 원본 버전 (없으면 재사용하지 않음)
+  version?: string | number;
+  createdAt: number;
+}
+
+export interface RankingSource<T> {
+  // 정렬된 랭킹 전체
+  items: T[];
+  // 원본 데이터 버전 (예: 캐시 저장 시각)
+  version?: string | number;
+}
+
+export interface RankingPage<T> {
+  items: T[];
+  // 스냅샷 내 첫 항목의 위치 (0부터). 순위 = offset + index + 1
+  offset: number;
+  nextCursor: string | null;
+  snapshotAt: string;
+}
+
+export interface PaginateRankingOptions<T> {
+  // 조회 조건을 직렬화한 키 (플랫폼, 기간 등)
+  queryKey: string;
+  // decodeCursor로 해석한 커서 (첫 페이지는 null)
+  cursor: TrendCursor | null;
+  limit: number;
+  // 정렬된 랭킹 전체를 불러옵니다. 첫 페이지이거나 커서의 스냅샷이 없을 때만 호출됩니다.
+  loadRanking: () => Promise<RankingSource<T>>;
+  keyOf: (item: T) => RankingKey;
+}
+
+const snapshots = new Map<string, RankingSnapshot<unknown>>();
+
+/**
+ * 랭킹 정렬 비교 함수 (점수 내림차순, video_id 오름차순)
+ */
+export function compareRankingKeys(a: RankingKey, b: RankingKey): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.videoId === b.videoId) return 0;
+  return a.videoId < b.videoId ? -1 : 1;
+}
+
+/**
+ * 요청의 cursor 파라미터를 해석합니다.
+ * @param raw - cursor 쿼리 값
+ * @param queryKey - 현재 요청의 조회 조건 키
+ * @returns 해석된 커서. 형식이 잘못되었거나 조회 조건이 다르면 null
+ */
+export function decodeCursor(raw: string, queryKey: string): TrendCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as TrendCursor;
+    const isValid =
+      cursor?.v === CURSOR_VERSION &&
+      typeof cursor.s === 'string' &&
+      cursor.q === queryKey &&
+      Number.isInteger(cursor.o) &&
+      cursor.o >= 0 &&
+      Array.isArray(cursor.k) &&
+      (typeof cursor.k[0] === 'number' || cursor.k[0] === null) &&
+      typeof cursor.k[1] === 'string';
+    return isValid ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 스냅샷 기준으로 랭킹의 한 페이지를 반환합니다.
+ * @returns 페이지 항목과 다음 페이지 커서 (마지막 페이지면 null)
+ */
+export async function paginateRanking<T>(options: PaginateRankingOptions<T>): Promise<RankingPage<T>> {
+  const { queryKey, cursor, limit, loadRanking, keyOf } = options;
+
+  let snapshot = cursor ? getSnapshot<T>(cursor.s, queryKey) : null;
+  let offset = 0;
+
+  if (snapshot && cursor) {
+    offset = cursor.o;
+  } else {
+    const source = await loadRanking();
+    snapshot = (!cursor && findSnapshotByVersion<T>(queryKey, source.version)) || saveSnapshot(queryKey, source);
+    if (cursor) {
+      // 스냅샷이 사라졌으면 마지막으로 내려준 항목 다음부터 이어서 반환합니다.
+      const last: RankingKey = { score: cursor.k[0] ?? -Infinity, videoId: cursor.k[1] };
+      const index = snapshot.items.findIndex((item) => compareRankingKeys(keyOf(item), last) > 0);
+      offset = index === -1 ? snapshot.items.length : index;
+    }
+  }
+
+  const items = snapshot.items.slice(offset, offset + limit);
+  const end = offset + items.length;
+  const lastItem = items[items.length - 1];
+
+  let nextCursor: string | null = null;
+  if (lastItem !== undefined && end < snapshot.items.length) {
+    const lastKey = keyOf(lastItem);
+    nextCursor = encodeCursor({
+      v: CURSOR_VERSION,
+      s: snapshot.id,
+      q: queryKey,
+      o: end,
+      k: [Number.isFinite(lastKey.score) ? lastKey.score : null, lastKey.videoId],
+    });
+  }
+
+  return {
+    items,
+    offset,
+    nextCursor,
+    snapshotAt: new Date(snapshot.createdAt).toISOString(),
+  };
+}
+
+function encodeCursor(cursor: TrendCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function getSnapshot<T>(id: string, queryKey: string): RankingSnapshot<T> | null {
+  const snapshot = snapshots.get(id);
+  if (!snapshot) return null;
+  if (Date.now() - snapshot.createdAt > SNAPSHOT_TTL_MS || snapshot.queryKey !== queryKey) {
+    snapshots.delete(id);
+    return null;
+  }
+  return snapshot as RankingSnapshot<T>;
+}
+
+function findSnapshotByVersion<T>(queryKey: string, version: RankingSource<T>['version']): RankingSnapshot<T> | null {
+  if (version === undefined) return null;
+  const now = Date.now();
+  for (const snapshot of snapshots.values()) {
+    if (snapshot.queryKey === queryKey && snapshot.version === version && now - snapshot.createdAt <= SNAPSHOT_TTL_MS) {
+      return snapshot as RankingSnapshot<T>;
+    }
+  }
+  return null;
+}
+
+function saveSnapshot<T>(queryKey: string, source: RankingSource<T>): RankingSnapshot<T> {
+  const now = Date.now();
+
+  // 만료된 스냅샷 정리 후, 그래도 많으면 가장 오래된 것부터 제거 (Map은 삽입 순서 유지)
+  for (const [id, snapshot] of snapshots) {
+    if (now - snapshot.createdAt > SNAPSHOT_TTL_MS) snapshots.delete(id);
+  }
+  while (snapshots.size >= MAX_SNAPSHOTS) {
+    const oldestId = snapshots.keys().next().value;
+    if (oldestId === undefined) break;
+    snapshots.delete(oldestId);
+  }
+
+  const snapshot: RankingSnapshot<T> = {
+    id: randomUUID(),
+    queryKey,
+    items: source.items,
+    version: source.version,
+    createdAt: now,
+  };
+  snapshots.set(snapshot.id, snapshot);
+  return snapshot;
+}
@@ -0,0 +1,47 @@
+// 트렌드 조회 지역
+// 지역마다 백엔드 조회 조건(ISO 3166 지역 코드, 언어 코드)이 정해져 있고, global은 두 조건 없이 전체를 조회합니다.
+// 화면 URL과 Next.js 라우트 핸들러는 region=kr 처럼 지역 ID를 쓰고, 백엔드에는 region=KR&language=ko 로 전달합니다.
+
+import type { TrendRegion } from '@/app/lib/api/types';
+
+export interface TrendRegionInfo {
+  id: TrendRegion;
+  name: string;
+  flag: string;
+  // ISO 3166-1 alpha-2 (global은 null)
+  regionCode: string | null;
+  // ISO 639-1 (global은 null)
+  language: string | null;
+}
+
+export const TREND_REGIONS: readonly TrendRegion[] = ['kr', 'jp', 'us', 'global'];
+
+export const DEFAULT_TREND_REGION: TrendRegion = 'kr';
+
+export const TREND_REGION_INFO: Record<TrendRegion, TrendRegionInfo> = {
+  kr: { id: 'kr', name: '한국', flag: '🇰🇷', regionCode: 'KR', language: 'ko' },
+  jp: { id: 'jp', name: '일본', flag: '🇯🇵', regionCode: 'JP', language: 'ja' },
+  us: { id: 'us', name: '미국', flag: '🇺🇸', regionCode: 'US', language: 'en' },
+  global: { id: 'global', name: '글로벌', flag: '🌐', regionCode: null, language: null },
+};
+
+// 선택한 지역을 기억하는 쿠키 (서버 컴포넌트에서도 읽을 수 있도록 localStorage 대신 사용)
+export const TREND_REGION_COOKIE = 'trendix_region';
+
+/**
+ * 쿼리 값이 지원하는 지역인지 확인합니다.
+ */
+export function isTrendRegion(value: unknown): value is TrendRegion {
+  return typeof value === 'string' && (TREND_REGIONS as readonly string[]).includes(value);
+}
+
+/**
+ * 지역 ID를 백엔드 조회 파라미터로 변환합니다. (global은 조건 없음, 지원하지 않는 값은 기본 지역)
+ */
+export function trendRegionToBackendQuery(region?: TrendRegion): {
+  region?: string;
+  language?: string;
+} {
+  const { regionCode, language } = TREND_REGION_INFO[isTrendRegion(region) ? region : DEFAULT_TREND_REGION];
+  return { region: regionCode ?? undefined, language: language ?? undefined };
+}
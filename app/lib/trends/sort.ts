@@ -0,0 +1,31 @@
+// 트렌드 영상 목록 정렬 기준
+// 모든 정렬은 지표 내림차순이며, 같은 값은 video_id 오름차순으로 순서를 고정합니다. (./pagination 의 compareRankingKeys)
+
+import type { SurgeVideo, TrendSortKey } from '@/app/lib/api/types';
+
+export const TREND_SORT_KEYS: readonly TrendSortKey[] = [
+  'surge_score',
+  'view_velocity',
+  'growth_rate_window',
+  'freshness_score',
+  'like_velocity',
+  'comment_velocity',
+  'total_score',
+];
+
+export const DEFAULT_TREND_SORT: TrendSortKey = 'surge_score';
+
+/**
+ * 쿼리 값이 지원하는 정렬 기준인지 확인합니다.
+ */
+export function isTrendSortKey(value: unknown): value is TrendSortKey {
+  return typeof value === 'string' && (TREND_SORT_KEYS as readonly string[]).includes(value);
+}
+
+/**
+ * 정렬 기준 지표 값을 반환합니다. 값이 없거나 숫자가 아니면 맨 뒤로 보냅니다.
+ */
+export function getSortValue(item: SurgeVideo, sort: TrendSortKey): number {
+  const value = item[sort];
+  return Number.isFinite(value) ? value : -Infinity;
+}
@@ -0,0 +1,128 @@
+// 조회수 추이 이상 구간 탐지
+// - 구간 증가량을 직전 구간들의 중앙값(기준선)과 비교하고, 기준선과의 차이를 robust z-score(중앙값, MAD)로 점수화합니다.
+//   기준선이 추이를 따라 올라가므로 꾸준히 커지는 영상은 급등으로 잡지 않습니다.
+// - 조회수 급등: 조회수 증가량 점수가 기준 이상이고 기준선의 2배 이상 (외부 공유, 알고리즘 추천 등)
+// - 수집 공백: 기준선은 늘고 있는데 조회수, 좋아요, 댓글 증가량이 모두 0 (크롤링 누락 의심)
+// - 좋아요 비율 급락: 구간 좋아요 전환율(좋아요 증가량 / 조회수 증가량) 점수가 -기준 이하이고 기준선의 절반 이하
+
+import type { DerivedViewHistoryItem, ViewHistoryAnomaly, ViewHistoryAnomalyReason } from '@/app/lib/api/types';
+
+// 이상 구간 점수 기준 (|robust z-score|)
+export const VIEW_HISTORY_ANOMALY_THRESHOLD = 3.5;
+
+export const VIEW_HISTORY_ANOMALY_LABELS: Record<ViewHistoryAnomalyReason, string> = {
+  view_spike: '조회수 급등',
+  crawl_gap: '수집 공백 의심',
+  like_ratio_drop: '좋아요 비율 급락',
+};
+
+// 기준선으로 쓸 직전 구간 수
+const BASELINE_WINDOW = 7;
+// 기준선을 계산할 최소 직전 구간 수
+const MIN_BASELINE_SAMPLES = 3;
+// 점수를 매길 최소 구간 수 (이보다 적으면 탐지하지 않음)
+const MIN_SCORED_BUCKETS = 5;
+// MAD를 정규분포 표준편차 단위로 바꾸는 계수
+const MAD_SCALE = 0.6745;
+// MAD가 0일 때 평균 절대 편차로 대신하는 계수
+const MEAN_AD_SCALE = 1.2533;
+
+/**
+ * 파생 지표가 붙은 추이에서 이상 구간을 찾습니다.
+ * @param history - 구간별 누적값과 파생 지표 (오래된 순, deriveViewHistoryMetrics 결과)
+ * @returns 이상 구간 (오래된 순, 사유가 하나 이상인 구간만)
+ */
+export function detectViewHistoryAnomalies(history: DerivedViewHistoryItem[]): ViewHistoryAnomaly[] {
+  const viewDeltas = history.map((item) => item.view_delta);
+  const likeRates = history.map((item) =>
+    item.view_delta !== null && item.view_delta > 0 && item.like_delta !== null ? item.like_delta / item.view_delta : null
+  );
+
+  const viewBaselines = trailingMedians(viewDeltas);
+  const likeRateBaselines = trailingMedians(likeRates);
+  const viewScores = robustScores(viewDeltas, viewBaselines);
+  const likeRateScores = robustScores(likeRates, likeRateBaselines);
+
+  return history.flatMap((item, index): ViewHistoryAnomaly[] => {
+    const viewDelta = viewDeltas[index];
+    const viewBaseline = viewBaselines[index];
+    const viewScore = viewScores[index];
+    const likeRate = likeRates[index];
+    const likeRateBaseline = likeRateBaselines[index];
+    const likeRateScore = likeRateScores[index];
+    const reasons: ViewHistoryAnomalyReason[] = [];
+
+    if (
+      viewDelta !== null &&
+      viewBaseline !== null &&
+      viewScore !== null &&
+      viewDelta > 0 &&
+      viewScore >= VIEW_HISTORY_ANOMALY_THRESHOLD &&
+      viewDelta >= viewBaseline * 2
+    ) {
+      reasons.push('view_spike');
+    }
+
+    if (viewDelta === 0 && !item.like_delta && !item.comment_delta && viewBaseline !== null && viewBaseline > 0) {
+      reasons.push('crawl_gap');
+    }
+
+    if (
+      likeRate !== null &&
+      likeRateBaseline !== null &&
+      likeRateScore !== null &&
+      likeRateScore <= -VIEW_HISTORY_ANOMALY_THRESHOLD &&
+      likeRate <= likeRateBaseline / 2
+    ) {
+      reasons.push('like_ratio_drop');
+    }
+
+    if (reasons.length === 0) return [];
+    return [
+      {
+        snapshot_date: item.snapshot_date,
+        bucket_start: item.bucket_start,
+        reasons,
+        view_delta_baseline: viewBaseline === null ? null : Math.round(viewBaseline),
+        view_delta_score: viewScore,
+        like_rate_score: likeRateScore,
+      },
+    ];
+  });
+}
+
+// 구간마다 직전 구간들(값이 있는 최근 BASELINE_WINDOW개)의 중앙값
+function trailingMedians(values: (number | null)[]): (number | null)[] {
+  return values.map((_, index) => {
+    const previous = values
+      .slice(0, index)
+      .filter((value): value is number => value !== null)
+      .slice(-BASELINE_WINDOW);
+    return previous.length >= MIN_BASELINE_SAMPLES ? median(previous) : null;
+  });
+}
+
+// 기준선과의 차이를 robust z-score로 (값이나 기준선이 없는 구간은 null)
+function robustScores(values: (number | null)[], baselines: (number | null)[]): (number | null)[] {
+  const residuals = values.map((value, index) => {
+    const baseline = baselines[index];
+    return value !== null && baseline !== null ? value - baseline : null;
+  });
+  const present = residuals.filter((value): value is number => value !== null);
+  if (present.length < MIN_SCORED_BUCKETS) return residuals.map(() => null);
+
+  const center = median(present);
+  const deviations = present.map((value) => Math.abs(value - center));
+  const mad = median(deviations);
+  const scale =
+    mad > 0 ? mad / MAD_SCALE : (deviations.reduce((sum, value) => sum + value, 0) / deviations.length) * MEAN_AD_SCALE;
+  if (scale === 0) return residuals.map(() => null);
+
+  return residuals.map((value) => (value === null ? null : Math.round(((value - center) / scale) * 100) / 100));
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,184 @@
+// 급등 영상 조회수 예측
+// - 일별 조회수 증가량이 게시 후 경과 일수의 거듭제곱으로 줄어든다고 보고(증가량 = a · 경과일^b),
+//   log(증가량)과 log(경과일)의 최소제곱 직선으로 a, b를 구한 뒤 앞으로의 일별 증가량을 더해 누적 조회수를 예측합니다.
+// - 아직 증가량이 커지고 있으면(b > 0) 앞으로는 유지된다고 보고 b를 0으로 둡니다. (급등이 계속 빨라진다고 가정하지 않음)
+// - 맞출 구간이 모자라면 현재 일일 증가량(SurgeVideo.view_velocity)에서 경과일에 반비례해 줄어든다고 가정합니다.
+// - 범위는 log 잔차로 구한 예측 구간(80%)이며, 멀리 갈수록 넓어집니다.
+
+import type { DerivedViewHistoryItem, SurgeVideo } from '@/app/lib/api/types';
+
+export type ViewForecastModel = 'power_decay' | 'velocity_decay';
+export type ViewForecastReliability = 'high' | 'medium' | 'low';
+
+export interface ViewForecastPoint {
+  // 예측 날짜 (YYYY-MM-DD, 마지막 구간 다음 날부터)
+  date: string;
+  // 해당 날짜 끝의 예상 누적 조회수와 범위
+  view_count: number;
+  view_count_low: number;
+  view_count_high: number;
+  // 해당 날짜의 예상 증가량과 범위
+  view_delta: number;
+  view_delta_low: number;
+  view_delta_high: number;
+}
+
+export interface ViewForecast {
+  model: ViewForecastModel;
+  // 경과일에 대한 증가량 지수 b (0이면 유지, -1이면 경과일에 반비례)
+  decay_exponent: number;
+  // log 공간 결정계수 (velocity_decay는 null)
+  r_squared: number | null;
+  // 맞추는 데 쓴 구간 수
+  samples: number;
+  reliability: ViewForecastReliability;
+  // 범위 신뢰 수준
+  confidence: number;
+  points: ViewForecastPoint[];
+}
+
+export const VIEW_FORECAST_DAYS = 7;
+export const VIEW_FORECAST_CONFIDENCE = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 80% 예측 구간의 정규분포 분위수
+const CONFIDENCE_Z = 1.2816;
+// 맞출 최근 구간 수와 최소 구간 수
+const MAX_FIT_SAMPLES = 14;
+const MIN_FIT_SAMPLES = 3;
+// 지수 하한 (급격히 꺾여도 이보다 빨리 줄어든다고 보지 않음)
+const MIN_DECAY_EXPONENT = -3;
+// velocity_decay 가정 (경과일에 반비례, log 표준편차)
+const FALLBACK_DECAY_EXPONENT = -1;
+const FALLBACK_LOG_SIGMA = 0.6;
+
+/**
+ * 일별 추이와 급등 지표로 앞으로의 누적 조회수를 예측합니다.
+ * 아직 끝나지 않은 구간(오늘)은 증가량이 덜 쌓였으므로 맞추는 데 쓰지 않습니다.
+ * @param history - 일별 누적값과 파생 지표 (오래된 순, granularity=day)
+ * @param video - 현재 경과 시간과 일일 증가량 (SurgeVideo의 age_hours, view_velocity)
+ * @param days - 예측 일수
+ * @param now - 기준 시각 (ms)
+ * @returns 예측할 수 없으면 (경과 시간이나 증가량 정보가 없으면) null
+ */
+export function forecastViewTrajectory(
+  history: DerivedViewHistoryItem[],
+  video: { age_hours: SurgeVideo['age_hours']; view_velocity: SurgeVideo['view_velocity'] | null },
+  days = VIEW_FORECAST_DAYS,
+  now = Date.now()
+): ViewForecast | null {
+  const latest = history[history.length - 1];
+  if (!latest || video.age_hours === null || video.age_hours <= 0) return null;
+
+  const publishedAt = now - video.age_hours * 60 * 60 * 1000;
+  const ageNowDays = video.age_hours / 24;
+
+  // 끝난 구간의 (log 경과일, log 증가량), 경과일은 구간 가운데 기준
+  const samples = history
+    .filter((item) => item.bucket_start && item.view_delta !== null && item.view_delta > 0)
+    .map((item) => ({ start: Date.parse(item.bucket_start as string), delta: item.view_delta as number }))
+    .filter(({ start }) => start + DAY_MS <= now && start + DAY_MS / 2 > publishedAt)
+    .slice(-MAX_FIT_SAMPLES)
+    .map(({ start, delta }) => ({ x: Math.log((start + DAY_MS / 2 - publishedAt) / DAY_MS), y: Math.log(delta) }));
+
+  const fit = samples.length >= MIN_FIT_SAMPLES ? fitLine(samples) : null;
+  let model: ViewForecastModel;
+  let intercept: number;
+  let exponent: number;
+  let sigma: number;
+  // 예측 지점의 불확실성 배수 (x는 log 경과일)
+  let spread: (x: number) => number;
+
+  if (fit) {
+    model = 'power_decay';
+    exponent = Math.min(0, Math.max(MIN_DECAY_EXPONENT, fit.slope));
+    // 지수를 고정했으면 평균점을 지나도록 절편을 다시 맞춥니다.
+    intercept = fit.meanY - exponent * fit.meanX;
+    sigma = fit.residualSigma;
+    spread = (x) => Math.sqrt(1 + 1 / samples.length + (fit.sxx > 0 ? (x - fit.meanX) ** 2 / fit.sxx : 0));
+  } else {
+    if (!video.view_velocity || video.view_velocity <= 0) return null;
+    model = 'velocity_decay';
+    exponent = FALLBACK_DECAY_EXPONENT;
+    // 현재 경과일에서 일일 증가량이 view_velocity가 되도록
+    intercept = Math.log(video.view_velocity) - exponent * Math.log(Math.max(ageNowDays, 0.5));
+    sigma = FALLBACK_LOG_SIGMA;
+    spread = () => 1;
+  }
+
+  const points: ViewForecastPoint[] = [];
+  let count = latest.view_count;
+  let low = count;
+  let high = count;
+  for (let day = 1; day <= days; day++) {
+    const x = Math.log(ageNowDays + day - 0.5);
+    const rate = Math.exp(intercept + exponent * x);
+    const width = CONFIDENCE_Z * sigma * spread(x);
+    const rateLow = rate * Math.exp(-width);
+    const rateHigh = rate * Math.exp(width);
+    count += rate;
+    low += rateLow;
+    high += rateHigh;
+    points.push({
+      date: addDays(latest.snapshot_date, day),
+      view_count: Math.round(count),
+      view_count_low: Math.round(low),
+      view_count_high: Math.round(high),
+      view_delta: Math.round(rate),
+      view_delta_low: Math.round(rateLow),
+      view_delta_high: Math.round(rateHigh),
+    });
+  }
+
+  const rSquared = fit ? round(fit.rSquared, 2) : null;
+  return {
+    model,
+    decay_exponent: round(exponent, 2),
+    r_squared: rSquared,
+    samples: samples.length,
+    reliability: rateReliability(model, samples.length, rSquared, fit !== null && fit.slope !== exponent),
+    confidence: VIEW_FORECAST_CONFIDENCE,
+    points,
+  };
+}
+
+function fitLine(points: { x: number; y: number }[]) {
+  const n = points.length;
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / n;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / n;
+  const sxx = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const syy = points.reduce((sum, point) => sum + (point.y - meanY) ** 2, 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const ssr = points.reduce((sum, point) => sum + (point.y - meanY - slope * (point.x - meanX)) ** 2, 0);
+
+  return {
+    slope,
+    meanX,
+    meanY,
+    sxx,
+    rSquared: syy > 0 ? 1 - ssr / syy : 1,
+    residualSigma: n > 2 ? Math.sqrt(ssr / (n - 2)) : FALLBACK_LOG_SIGMA,
+  };
+}
+
+// 구간 수와 설명력으로 신뢰도 판단 (지수를 잘라냈으면 한 단계 낮춤)
+function rateReliability(
+  model: ViewForecastModel,
+  samples: number,
+  rSquared: number | null,
+  clamped: boolean
+): ViewForecastReliability {
+  if (model === 'velocity_decay' || rSquared === null) return 'low';
+  const level = samples >= 7 && rSquared >= 0.7 ? 2 : samples >= 4 && rSquared >= 0.4 ? 1 : 0;
+  return (['low', 'medium', 'high'] as const)[Math.max(0, level - (clamped ? 1 : 0))];
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
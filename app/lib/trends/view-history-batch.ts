@@ -0,0 +1,168 @@
+// 여러 영상 조회수 추이를 같은 구간 축에 맞춰 정렬
+// - calendar: 단일 영상 조회와 같은 tz 기준 시각 구간을 공통 축으로 씁니다. (latest이면 최근 limit개 구간)
+// - publish: 게시 시각부터 경과한 시간(granularity 단위)을 축으로 써서 게시 시점이 다른 영상을 겹쳐 볼 수 있습니다.
+//   from/to/latest는 적용되지 않고 게시 후 limit개 구간을 반환합니다.
+// - 영상마다 스냅샷이 없는 구간은 null이며, 파생 지표는 스냅샷이 있는 구간끼리 계산합니다.
+
+import type {
+  ViewHistoryAlignment,
+  ViewHistoryBatchBucket,
+  ViewHistoryBatchPoint,
+  ViewHistoryCounts,
+  ViewHistoryGranularity,
+  ViewHistorySeries,
+} from '@/app/lib/api/types';
+import {
+  getViewHistoryFetchLimit,
+  parseViewHistoryQuery,
+  selectViewHistoryBuckets,
+  ViewHistoryQuery,
+} from './view-history';
+import { deriveViewHistoryMetrics } from './view-metrics';
+
+export const VIEW_HISTORY_ALIGNMENTS: readonly ViewHistoryAlignment[] = ['calendar', 'publish'];
+
+// 한 번에 조회할 수 있는 최대 영상 수
+export const MAX_VIEW_HISTORY_BATCH_SIZE = 20;
+
+// publish 정렬 구간 길이 (시간)
+export const VIEW_HISTORY_STEP_HOURS: Record<ViewHistoryGranularity, number> = { hour: 1, day: 24, week: 24 * 7 };
+
+export interface ViewHistoryBatchQuery extends ViewHistoryQuery {
+  videoIds: string[];
+  align: ViewHistoryAlignment;
+}
+
+export type ParseViewHistoryBatchQueryResult =
+  | { query: ViewHistoryBatchQuery; error?: undefined }
+  | { query: ViewHistoryBatchQuery; error: string };
+
+// 공통 축의 구간 (key: calendar는 구간 시작 시각(ms), publish는 게시 후 경과 시간)
+export interface ViewHistoryAxisBucket extends ViewHistoryBatchBucket {
+  key: number;
+}
+
+// 영상별 구간 누적값 (DB 조회 결과 또는 mock 데이터)
+export interface ViewHistorySnapshotRow extends ViewHistoryCounts {
+  video_id: string;
+  // ViewHistoryAxisBucket.key와 같은 값
+  key: number;
+  published_at: Date | null;
+}
+
+/**
+ * 요청 쿼리에서 여러 영상 조회 조건을 읽고 검증합니다.
+ * video_ids는 쉼표로 구분하며 중복은 한 번만 조회합니다.
+ */
+export function parseViewHistoryBatchQuery(searchParams: URLSearchParams): ParseViewHistoryBatchQueryResult {
+  const parsed = parseViewHistoryQuery(searchParams);
+  const rawAlign = searchParams.get('align')?.trim() || 'calendar';
+  const videoIds = Array.from(
+    new Set(
+      (searchParams.get('video_ids') ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    )
+  );
+  const query: ViewHistoryBatchQuery = {
+    ...parsed.query,
+    videoIds,
+    align: isViewHistoryAlignment(rawAlign) ? rawAlign : 'calendar',
+  };
+
+  if (parsed.error !== undefined) return { query, error: parsed.error };
+  if (videoIds.length === 0) return { query, error: 'video_ids가 필요합니다. (쉼표로 구분)' };
+  if (videoIds.length > MAX_VIEW_HISTORY_BATCH_SIZE) {
+    return { query, error: `video_ids는 최대 ${MAX_VIEW_HISTORY_BATCH_SIZE}개까지 조회할 수 있습니다.` };
+  }
+  if (!isViewHistoryAlignment(rawAlign)) {
+    return { query, error: `align은 ${VIEW_HISTORY_ALIGNMENTS.join(', ')} 중 하나여야 합니다.` };
+  }
+  if (query.align === 'publish' && (query.from || query.to)) {
+    return { query, error: 'align=publish에서는 from, to를 사용할 수 없습니다.' };
+  }
+
+  return { query };
+}
+
+/**
+ * 쿼리 값이 지원하는 정렬 기준인지 확인합니다.
+ */
+export function isViewHistoryAlignment(value: unknown): value is ViewHistoryAlignment {
+  return typeof value === 'string' && (VIEW_HISTORY_ALIGNMENTS as readonly string[]).includes(value);
+}
+
+/**
+ * 조회할 공통 구간 축을 오래된 순으로 만듭니다.
+ * calendar + latest이면 첫 구간 증가량 계산용으로 앞에 1개 구간이 더 붙습니다. (alignViewHistorySeries에서 제외)
+ * @param query - 조회 조건
+ * @param now - 기준 시각
+ */
+export function buildViewHistoryAxis(query: ViewHistoryBatchQuery, now: Date = new Date()): ViewHistoryAxisBucket[] {
+  if (query.align === 'publish') {
+    const step = VIEW_HISTORY_STEP_HOURS[query.granularity];
+    return Array.from({ length: query.limit }, (_, index) => ({
+      key: index * step,
+      label: formatSincePublishLabel(index, query.granularity),
+      hours_since_publish: index * step,
+    }));
+  }
+
+  return selectViewHistoryBuckets({ ...query, limit: getViewHistoryFetchLimit(query) }, now).map((bucket) => ({
+    key: bucket.start.getTime(),
+    label: bucket.label,
+    bucket_start: bucket.start.toISOString(),
+  }));
+}
+
+/**
+ * 영상별 구간 누적값을 공통 축에 맞추고 파생 지표를 붙입니다.
+ * @param query - 조회 조건 (video_ids 순서대로 series를 만듭니다)
+ * @param axis - buildViewHistoryAxis로 만든 축
+ * @param rows - 영상별 구간 누적값 (축에 없는 구간은 무시)
+ */
+export function alignViewHistorySeries(
+  query: ViewHistoryBatchQuery,
+  axis: ViewHistoryAxisBucket[],
+  rows: ViewHistorySnapshotRow[]
+): { buckets: ViewHistoryBatchBucket[]; series: ViewHistorySeries[]; missingVideoIds: string[] } {
+  const axisIndex = new Map(axis.map((bucket, index) => [bucket.key, index]));
+  // 앞에 붙은 비교 기준 구간은 응답에서 뺍니다.
+  const skip = Math.max(0, axis.length - query.limit);
+  const missingVideoIds: string[] = [];
+
+  const series = query.videoIds.map((videoId): ViewHistorySeries => {
+    const cells: (ViewHistorySnapshotRow | null)[] = axis.map(() => null);
+    let publishedAt: Date | null = null;
+    for (const row of rows) {
+      if (row.video_id !== videoId) continue;
+      publishedAt = publishedAt ?? row.published_at;
+      const index = axisIndex.get(row.key);
+      if (index !== undefined) cells[index] = row;
+    }
+
+    const present = cells.filter((cell): cell is ViewHistorySnapshotRow => cell !== null);
+    if (present.length === 0) missingVideoIds.push(videoId);
+    const derived = deriveViewHistoryMetrics(
+      present.map(({ view_count, like_count, comment_count }) => ({ view_count, like_count, comment_count }))
+    );
+    const pointByKey = new Map<number, ViewHistoryBatchPoint>(present.map((cell, index) => [cell.key, derived[index]]));
+
+    return {
+      video_id: videoId,
+      published_at: publishedAt?.toISOString() ?? null,
+      points: cells.slice(skip).map((cell) => (cell ? pointByKey.get(cell.key) ?? null : null)),
+    };
+  });
+
+  const buckets = axis
+    .slice(skip)
+    .map(({ label, bucket_start, hours_since_publish }) => ({ label, bucket_start, hours_since_publish }));
+  return { buckets, series, missingVideoIds };
+}
+
+function formatSincePublishLabel(index: number, granularity: ViewHistoryGranularity): string {
+  if (granularity === 'hour') return `+${index}h`;
+  return `${granularity === 'day' ? 'D' : 'W'}+${index}`;
+}
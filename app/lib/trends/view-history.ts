@@ -0,0 +1,255 @@
+// 영상 조회수 추이 조회 조건과 시간 구간(bucket)
+// - granularity(hour, day, week) 단위로 스냅샷을 묶고, 구간 경계는 tz 시간대(기본 KST) 기준입니다. (week는 월요일 시작)
+// - from/to로 기간을 정하고, latest=true(기본)이면 기간 안의 최근 limit개 구간, false이면 가장 오래된 limit개 구간을 반환합니다.
+// - from/to는 날짜(2026-01-01) 또는 시각(2026-01-01T09:00, 2026-01-01T00:00:00Z)이며, 시간대가 없으면 tz 기준입니다.
+//   날짜만 준 to는 그날 끝까지 포함합니다.
+
+import type { ViewHistoryGranularity } from '@/app/lib/api/types';
+
+export const VIEW_HISTORY_GRANULARITIES: readonly ViewHistoryGranularity[] = ['hour', 'day', 'week'];
+
+export const DEFAULT_VIEW_HISTORY_GRANULARITY: ViewHistoryGranularity = 'day';
+
+export const DEFAULT_VIEW_HISTORY_TIME_ZONE = 'Asia/Seoul';
+
+const DEFAULT_LIMIT = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 구간 단위별 최대 개수 (2주 치 시간, 1년 치 일, 2년 치 주)
+const MAX_LIMIT: Record<ViewHistoryGranularity, number> = { hour: 24 * 14, day: 365, week: 104 };
+
+export interface ViewHistoryQuery {
+  platform: string;
+  granularity: ViewHistoryGranularity;
+  limit: number;
+  // 기간 시작 (포함), 끝 (미포함)
+  from: Date | null;
+  to: Date | null;
+  latest: boolean;
+  timeZone: string;
+}
+
+export type ParseViewHistoryQueryResult =
+  | { query: ViewHistoryQuery; error?: undefined }
+  | { query: ViewHistoryQuery; error: string };
+
+export interface ViewHistoryBucket {
+  start: Date;
+  // tz 기준 구간 시작 (day/week: YYYY-MM-DD, hour: YYYY-MM-DDTHH:00)
+  label: string;
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * 요청 쿼리에서 조회 조건을 읽고 검증합니다.
+ * 검증에 실패해도 에러 응답 meta에 쓸 수 있도록 query는 항상 채워 반환합니다.
+ */
+export function parseViewHistoryQuery(searchParams: URLSearchParams): ParseViewHistoryQueryResult {
+  const get = (key: string) => searchParams.get(key)?.trim() || null;
+
+  const platform = get('platform') || 'youtube';
+  const rawGranularity = get('granularity') || DEFAULT_VIEW_HISTORY_GRANULARITY;
+  const granularity = isViewHistoryGranularity(rawGranularity) ? rawGranularity : DEFAULT_VIEW_HISTORY_GRANULARITY;
+  // SQL LIMIT에 그대로 들어가므로 정수로 내립니다. (limit=2.5 → 2)
+  const limit = Math.floor(Math.max(1, Math.min(Number(get('limit') || DEFAULT_LIMIT) || DEFAULT_LIMIT, MAX_LIMIT[granularity])));
+  const rawTimeZone = get('tz') || DEFAULT_VIEW_HISTORY_TIME_ZONE;
+  const timeZone = isValidTimeZone(rawTimeZone) ? rawTimeZone : DEFAULT_VIEW_HISTORY_TIME_ZONE;
+  const rawLatest = get('latest');
+  const query: ViewHistoryQuery = {
+    platform,
+    granularity,
+    limit,
+    from: null,
+    to: null,
+    latest: rawLatest !== 'false',
+    timeZone,
+  };
+
+  if (!isViewHistoryGranularity(rawGranularity)) {
+    return { query, error: `granularity는 ${VIEW_HISTORY_GRANULARITIES.join(', ')} 중 하나여야 합니다.` };
+  }
+  if (!isValidTimeZone(rawTimeZone)) {
+    return { query, error: `지원하지 않는 시간대입니다: ${rawTimeZone} (예: Asia/Seoul, UTC)` };
+  }
+  if (rawLatest !== null && rawLatest !== 'true' && rawLatest !== 'false') {
+    return { query, error: 'latest는 true 또는 false만 사용할 수 있습니다.' };
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const raw = get(key);
+    if (raw === null) continue;
+    const value = parseBoundary(raw, timeZone, key === 'to');
+    if (!value) return { query, error: `${key}는 YYYY-MM-DD 또는 ISO 8601 시각이어야 합니다.` };
+    query[key] = value;
+  }
+  if (query.from && query.to && query.from >= query.to) {
+    return { query, error: 'from은 to보다 앞선 시각이어야 합니다.' };
+  }
+
+  return { query };
+}
+
+/**
+ * 쿼리 값이 지원하는 구간 단위인지 확인합니다.
+ */
+export function isViewHistoryGranularity(value: unknown): value is ViewHistoryGranularity {
+  return typeof value === 'string' && (VIEW_HISTORY_GRANULARITIES as readonly string[]).includes(value);
+}
+
+/**
+ * 조회할 구간 수를 반환합니다. 첫 구간의 증가량을 계산할 수 있도록 비교 기준 구간을 1개 더 가져옵니다.
+ * latest=false는 기간의 첫 구간부터 가져오므로 이전 구간이 없어 limit 그대로입니다.
+ */
+export function getViewHistoryFetchLimit(query: ViewHistoryQuery): number {
+  return query.latest ? query.limit + 1 : query.limit;
+}
+
+/**
+ * 시각이 속한 구간의 tz 기준 라벨을 반환합니다.
+ */
+export function formatViewHistoryBucket(instant: Date, granularity: ViewHistoryGranularity, timeZone: string): string {
+  const clock = truncateWallClock(toWallClock(instant.getTime(), timeZone), granularity);
+  const date = `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`;
+  return granularity === 'hour' ? `${date}T${pad(clock.hour)}:00` : date;
+}
+
+/**
+ * 조회 조건이 반환할 구간을 오래된 순으로 만듭니다. (모든 구간에 스냅샷이 있다고 가정, mock 데이터와 빈 구간 확인용)
+ * @param query - 조회 조건
+ * @param now - 기준 시각 (to가 없거나 미래면 이 시각까지)
+ */
+export function selectViewHistoryBuckets(query: ViewHistoryQuery, now: Date = new Date()): ViewHistoryBucket[] {
+  const { granularity, timeZone, limit, from, latest } = query;
+  const end = query.to && query.to < now ? query.to : now;
+  const forward = !latest && from !== null;
+  const origin = truncateWallClock(toWallClock(forward ? from.getTime() : end.getTime() - 1, timeZone), granularity);
+  const originStart = wallClockToInstant(origin, timeZone);
+
+  // 시간 단위는 서머타임 경계에서도 1시간 간격이 되도록 절대 시각으로, 일/주 단위는 tz 달력으로 이동합니다.
+  const bucketStart = (offset: number) =>
+    granularity === 'hour'
+      ? originStart + offset * HOUR_MS
+      : wallClockToInstant(shiftWallClock(origin, granularity, offset), timeZone);
+  const toBucket = (start: number): ViewHistoryBucket => ({
+    start: new Date(start),
+    label: formatViewHistoryBucket(new Date(start), granularity, timeZone),
+  });
+  const buckets: ViewHistoryBucket[] = [];
+
+  if (!forward) {
+    // end 직전 구간부터 거슬러 올라감 (구간 끝이 from 이전이면 기간 밖)
+    for (let index = 0; index < limit; index++) {
+      if (from && bucketStart(1 - index) <= from.getTime()) break;
+      buckets.push(toBucket(bucketStart(-index)));
+    }
+    return buckets.reverse();
+  }
+
+  for (let index = 0; index < limit; index++) {
+    const start = bucketStart(index);
+    if (start >= end.getTime()) break;
+    buckets.push(toBucket(start));
+  }
+  return buckets;
+}
+
+function parseBoundary(raw: string, timeZone: string, isEnd: boolean): Date | null {
+  const local = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(raw);
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local.map(Number);
+    const dateOnly = local[4] === undefined;
+    const clock = { year, month, day, hour: hour || 0, minute: minute || 0, second: second || 0 };
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    // 날짜만 준 to는 다음 날 0시 (그날 전체 포함)
+    const instant = wallClockToInstant(dateOnly && isEnd ? shiftWallClock(clock, 'day', 1) : clock, timeZone);
+    return Number.isNaN(instant) ? null : new Date(instant);
+  }
+
+  // 시간대가 있는 ISO 8601 시각
+  if (!/(?:Z|[+-]\d{2}:?\d{2})$/i.test(raw)) return null;
+  const instant = Date.parse(raw);
+  return Number.isNaN(instant) ? null : new Date(instant);
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toWallClock(instant: number, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// tz 기준 벽시계 시각을 UTC 시각(ms)으로 변환 (서머타임 경계는 변환 후 오프셋으로 한 번 더 보정)
+function wallClockToInstant(clock: WallClock, timeZone: string): number {
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  const first = asUtc - offsetMs(asUtc, timeZone);
+  return asUtc - offsetMs(first, timeZone);
+}
+
+function offsetMs(instant: number, timeZone: string): number {
+  const clock = toWallClock(instant, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function truncateWallClock(clock: WallClock, granularity: ViewHistoryGranularity): WallClock {
+  const truncated = { ...clock, minute: 0, second: 0 };
+  if (granularity === 'hour') return truncated;
+  const day = { ...truncated, hour: 0 };
+  if (granularity === 'day') return day;
+  // 월요일 시작 (PostgreSQL date_trunc('week')와 같음)
+  const weekday = new Date(Date.UTC(clock.year, clock.month - 1, clock.day)).getUTCDay();
+  return shiftWallClock(day, 'day', -((weekday + 6) % 7));
+}
+
+function shiftWallClock(clock: WallClock, granularity: ViewHistoryGranularity, amount: number): WallClock {
+  const hours = granularity === 'hour' ? amount : 0;
+  const days = granularity === 'day' ? amount : granularity === 'week' ? amount * 7 : 0;
+  const shifted = new Date(
+    Date.UTC(clock.year, clock.month - 1, clock.day + days, clock.hour + hours, clock.minute, clock.second)
+  );
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    second: shifted.getUTCSeconds(),
+  };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
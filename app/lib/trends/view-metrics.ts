@@ -0,0 +1,63 @@
+// 조회수 추이 파생 지표
+// - 구간별 누적값(오래된 순)에서 증가량, 성장률, 조회수 대비 좋아요/댓글 비율, 증가량 이동평균, 가속도를 계산합니다.
+// - 비교할 이전 구간은 같은 조회 결과 안에서만 찾습니다. 이전 구간이 없으면 해당 지표는 null입니다.
+
+import type { ViewHistoryCounts, ViewHistoryMetrics } from '@/app/lib/api/types';
+
+// 증가량 이동평균 구간 수 (현재 구간 포함)
+export const VIEW_HISTORY_MOVING_AVERAGE_WINDOW = 3;
+
+/**
+ * 누적 추이에 구간별 파생 지표를 붙입니다.
+ * history가 limit보다 많으면 가장 오래된 구간은 첫 구간의 비교 기준으로만 쓰고 결과에서 뺍니다.
+ * (조회 시 limit + 1개를 가져오면 첫 구간의 증가량도 계산됩니다.)
+ * @param history - 구간별 누적값 (오래된 순)
+ * @param limit - 반환할 최대 구간 수
+ */
+export function deriveViewHistoryMetrics<T extends ViewHistoryCounts>(
+  history: T[],
+  limit = history.length
+): (T & ViewHistoryMetrics)[] {
+  const deltas = history.map((item, index) => {
+    const previous = index > 0 ? history[index - 1] : null;
+    return {
+      view: previous ? item.view_count - previous.view_count : null,
+      like: previous ? item.like_count - previous.like_count : null,
+      comment: previous ? item.comment_count - previous.comment_count : null,
+    };
+  });
+
+  const derived = history.map((item, index): T & ViewHistoryMetrics => {
+    const delta = deltas[index];
+    const previousViewCount = index > 0 ? history[index - 1].view_count : 0;
+    const previousViewDelta = index > 0 ? deltas[index - 1].view : null;
+    const recent = deltas.slice(Math.max(0, index - VIEW_HISTORY_MOVING_AVERAGE_WINDOW + 1), index + 1);
+
+    return {
+      ...item,
+      view_delta: delta.view,
+      like_delta: delta.like,
+      comment_delta: delta.comment,
+      view_growth_rate: delta.view !== null && previousViewCount > 0 ? round(delta.view / previousViewCount, 4) : null,
+      like_view_ratio: item.view_count > 0 ? round(item.like_count / item.view_count, 4) : null,
+      comment_view_ratio: item.view_count > 0 ? round(item.comment_count / item.view_count, 4) : null,
+      view_delta_avg: movingAverage(recent.map((value) => value.view)),
+      like_delta_avg: movingAverage(recent.map((value) => value.like)),
+      view_acceleration: delta.view !== null && previousViewDelta !== null ? delta.view - previousViewDelta : null,
+    };
+  });
+
+  return derived.slice(Math.max(0, derived.length - limit));
+}
+
+// 값이 있는 구간만 평균 (추이 앞쪽은 구간 수가 모자라도 있는 만큼으로 계산)
+function movingAverage(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return null;
+  return round(present.reduce((sum, value) => sum + value, 0) / present.length, 1);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,231 @@
+// 최소 XLSX(Office Open XML 스프레드시트) 작성기
+// - 시트 하나짜리 통합 문서를 만들고, 첫 행은 굵은 머리글로 고정합니다.
+// - 문자열은 inline string으로 넣어 공유 문자열 테이블 없이 작성합니다.
+// - ZIP 컨테이너는 압축 없이(stored) 묶습니다. 수백 행 규모의 내보내기 용도입니다.
+
+import { escapeXml } from './xml';
+
+export type XlsxCellValue = string | number | boolean | null | undefined;
+
+export interface XlsxSheet {
+  // 시트 이름 (최대 31자, []:*?/\ 문자는 제거됩니다)
+  name: string;
+  header: string[];
+  rows: XlsxCellValue[][];
+}
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES_XML =
+  XML_DECLARATION +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML =
+  XML_DECLARATION +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+const WORKBOOK_RELS_XML =
+  XML_DECLARATION +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+// 스타일 0: 기본, 스타일 1: 굵게 (머리글)
+const STYLES_XML =
+  XML_DECLARATION +
+  `<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+const HEADER_STYLE = 1;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * 시트 하나짜리 XLSX 파일을 만듭니다.
+ * @param sheet - 시트 이름, 머리글, 행 데이터
+ * @param now - 파일 수정 시각 (ZIP 항목에 기록)
+ * @returns XLSX 파일 바이트
+ */
+export function buildXlsx(sheet: XlsxSheet, now: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = [
+    { path: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+    { path: '_rels/.rels', content: ROOT_RELS_XML },
+    { path: 'xl/workbook.xml', content: workbookXml(sheet.name) },
+    { path: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS_XML },
+    { path: 'xl/styles.xml', content: STYLES_XML },
+    { path: 'xl/worksheets/sheet1.xml', content: worksheetXml(sheet) },
+  ];
+  return zipStored(
+    files.map((file) => ({ path: file.path, data: encoder.encode(file.content) })),
+    now
+  );
+}
+
+function workbookXml(name: string): string {
+  const sheetName = name.replace(/[[\]:*?/\\]/g, '').slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet1';
+  return (
+    XML_DECLARATION +
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>'
+  );
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+  const rows = [sheet.header, ...sheet.rows].map((values, rowIndex) => {
+    const rowNumber = rowIndex + 1;
+    const style = rowIndex === 0 ? HEADER_STYLE : undefined;
+    const cells = values.map((value, columnIndex) => cellXml(`${columnName(columnIndex)}${rowNumber}`, value, style));
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+  });
+
+  return (
+    XML_DECLARATION +
+    `<worksheet xmlns="${SPREADSHEET_NS}">` +
+    // 머리글 행 고정
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+}
+
+function cellXml(ref: string, value: XlsxCellValue, style?: number): string {
+  const styleAttr = style === undefined ? '' : ` s="${style}"`;
+  if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) {
+    return style === undefined ? '' : `<c r="${ref}"${styleAttr}/>`;
+  }
+  if (typeof value === 'number') {
+    return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+// 0 → A, 25 → Z, 26 → AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+// 압축 없는(stored) ZIP 아카이브를 만듭니다.
+function zipStored(entries: ZipEntry[], now: Date): Uint8Array {
+  const encoder = new TextEncoder();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    // 파일 이름 UTF-8
+    localView.setUint16(6, 0x0800, true);
+    localView.setUint16(8, 0, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, entry.data);
+    centralParts.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return concatBytes([...localParts, ...centralParts, end]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
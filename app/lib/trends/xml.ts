@@ -0,0 +1,14 @@
+// XML 문서 작성용 공통 함수 (XLSX, RSS/Atom 피드)
+
+/**
+ * 텍스트와 속성 값에 넣을 수 있도록 XML 특수 문자를 이스케이프합니다.
+ * XML에서 허용하지 않는 제어 문자는 제거합니다.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[^\t\n\r\u0020-\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,282 @@
+// YouTube 입력 파서
+// 사용자가 붙여넣은 URL 또는 ID를 영상 / 채널 / 재생목록으로 분류하고 정규화된 ID를 반환합니다.
+// 지원 형식
+// - 영상: watch?v=, /shorts/, /embed/, /live/, /v/, youtu.be/, m.youtube.com, music.youtube.com,
+//         youtube-nocookie.com/embed/, 11자리 video_id
+// - 채널: /@handle, /channel/UC…, /c/이름, /user/이름, youtube.com/이름(레거시), @handle, UC…
+// - 재생목록: /playlist?list=, watch?list= (v 없음), PL… 등 재생목록 ID
+
+export type YouTubeInputKind = 'video' | 'channel' | 'playlist';
+
+// 채널 식별 방식: id(UC…), handle(@…), custom(/c/…, 레거시 /이름), user(/user/…)
+export type YouTubeChannelRefType = 'id' | 'handle' | 'custom' | 'user';
+
+export type YouTubeParseErrorReason =
+  | 'EMPTY'
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_HOST'
+  | 'UNSUPPORTED_PATH'
+  | 'INVALID_VIDEO_ID'
+  | 'INVALID_CHANNEL'
+  | 'INVALID_PLAYLIST_ID'
+  | 'WRONG_KIND';
+
+export interface ParsedYouTubeVideo {
+  ok: true;
+  kind: 'video';
+  videoId: string;
+  isShorts: boolean;
+  isLive: boolean;
+  // 재생목록 안에서 재생 중인 영상이면 재생목록 ID
+  playlistId?: string;
+  // t= / start= 파라미터 (초)
+  startSeconds?: number;
+  canonicalUrl: string;
+}
+
+export interface ParsedYouTubeChannel {
+  ok: true;
+  kind: 'channel';
+  refType: YouTubeChannelRefType;
+  // id는 UC…, handle은 '@' 제외, custom/user는 경로 이름
+  value: string;
+  canonicalUrl: string;
+}
+
+export interface ParsedYouTubePlaylist {
+  ok: true;
+  kind: 'playlist';
+  playlistId: string;
+  canonicalUrl: string;
+}
+
+export interface YouTubeParseError {
+  ok: false;
+  reason: YouTubeParseErrorReason;
+  message: string;
+}
+
+export type ParsedYouTubeInput = ParsedYouTubeVideo | ParsedYouTubeChannel | ParsedYouTubePlaylist;
+export type YouTubeParseResult = ParsedYouTubeInput | YouTubeParseError;
+
+const ERROR_MESSAGES: Record<YouTubeParseErrorReason, string> = {
+  EMPTY: 'URL 또는 ID를 입력해주세요.',
+  INVALID_URL: 'URL 형식이 올바르지 않습니다.',
+  UNSUPPORTED_HOST: 'YouTube 주소가 아닙니다.',
+  UNSUPPORTED_PATH: '영상, 채널, 재생목록 주소가 아닙니다.',
+  INVALID_VIDEO_ID: '영상 ID가 올바르지 않습니다. (11자리 영문/숫자/-/_)',
+  INVALID_CHANNEL: '채널 주소가 올바르지 않습니다.',
+  INVALID_PLAYLIST_ID: '재생목록 ID가 올바르지 않습니다.',
+  WRONG_KIND: '지원하지 않는 주소 유형입니다.',
+};
+
+const KIND_LABELS: Record<YouTubeInputKind, string> = {
+  video: '영상',
+  channel: '채널',
+  playlist: '재생목록',
+};
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const CHANNEL_ID_PATTERN = /^UC[A-Za-z0-9_-]{22}$/;
+// 핸들은 한글 등 유니코드 문자를 허용합니다.
+const HANDLE_PATTERN = /^[\p{L}\p{N}._-]{3,30}$/u;
+const CUSTOM_NAME_PATTERN = /^[\p{L}\p{N}._-]{1,100}$/u;
+const PLAYLIST_ID_PATTERN = /^(PL|UU|LL|FL|RD|OL|UL|OLAK5uy_)[A-Za-z0-9_-]{10,}$/;
+
+const YOUTUBE_HOSTS = new Set(['youtube.com', 'm.youtube.com', 'music.youtube.com', 'gaming.youtube.com']);
+const NOCOOKIE_HOSTS = new Set(['youtube-nocookie.com']);
+const SHORT_HOSTS = new Set(['youtu.be']);
+
+// youtube.com/{이름} 형태의 레거시 커스텀 URL로 보면 안 되는 최상위 경로
+const RESERVED_PATHS = new Set([
+  'watch', 'shorts', 'embed', 'live', 'v', 'e', 'playlist', 'channel', 'c', 'user', 'feed', 'results',
+  'hashtag', 'premium', 'kids', 'music', 'gaming', 'account', 'about', 't', 'redirect', 'signin', 'logout',
+  'upload', 'studio', 'post', 'source', 'attribution_link', 'browse', 'search',
+]);
+
+function fail(reason: YouTubeParseErrorReason, message = ERROR_MESSAGES[reason]): YouTubeParseError {
+  return { ok: false, reason, message };
+}
+
+function videoResult(
+  videoId: string,
+  extra: { isShorts?: boolean; isLive?: boolean; playlistId?: string | null; startSeconds?: number } = {}
+): ParsedYouTubeVideo | YouTubeParseError {
+  if (!VIDEO_ID_PATTERN.test(videoId)) return fail('INVALID_VIDEO_ID');
+  const playlistId = extra.playlistId && PLAYLIST_ID_PATTERN.test(extra.playlistId) ? extra.playlistId : undefined;
+  return {
+    ok: true,
+    kind: 'video',
+    videoId,
+    isShorts: Boolean(extra.isShorts),
+    isLive: Boolean(extra.isLive),
+    playlistId,
+    startSeconds: extra.startSeconds,
+    canonicalUrl: extra.isShorts
+      ? `https://www.youtube.com/shorts/${videoId}`
+      : `https://www.youtube.com/watch?v=${videoId}`,
+  };
+}
+
+function channelResult(refType: YouTubeChannelRefType, rawValue: string): ParsedYouTubeChannel | YouTubeParseError {
+  const value = refType === 'handle' ? rawValue.replace(/^@/, '') : rawValue;
+  const valid =
+    refType === 'id'
+      ? CHANNEL_ID_PATTERN.test(value)
+      : refType === 'handle'
+        ? HANDLE_PATTERN.test(value)
+        : CUSTOM_NAME_PATTERN.test(value);
+  if (!valid) return fail('INVALID_CHANNEL');
+
+  const paths: Record<YouTubeChannelRefType, string> = {
+    id: `channel/${value}`,
+    handle: `@${value}`,
+    custom: `c/${value}`,
+    user: `user/${value}`,
+  };
+  return { ok: true, kind: 'channel', refType, value, canonicalUrl: `https://www.youtube.com/${paths[refType]}` };
+}
+
+function playlistResult(playlistId: string): ParsedYouTubePlaylist | YouTubeParseError {
+  if (!PLAYLIST_ID_PATTERN.test(playlistId)) return fail('INVALID_PLAYLIST_ID');
+  return { ok: true, kind: 'playlist', playlistId, canonicalUrl: `https://www.youtube.com/playlist?list=${playlistId}` };
+}
+
+// t=90, t=90s, t=1h2m3s, start=90 → 초
+function parseStartSeconds(searchParams: URLSearchParams, hash: string): number | undefined {
+  const raw = searchParams.get('t') ?? searchParams.get('start') ?? new URLSearchParams(hash.replace(/^#/, '')).get('t');
+  if (!raw) return undefined;
+  if (/^\d+$/.test(raw)) return Number(raw);
+
+  const match = raw.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !match[0]) return undefined;
+  const [, h = '0', m = '0', s = '0'] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s);
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+// URL이 아닌 ID/핸들 단독 입력 처리
+function parseBareInput(input: string): YouTubeParseResult | null {
+  if (VIDEO_ID_PATTERN.test(input)) return videoResult(input);
+  if (CHANNEL_ID_PATTERN.test(input)) return channelResult('id', input);
+  if (input.startsWith('@')) return channelResult('handle', input);
+  if (PLAYLIST_ID_PATTERN.test(input)) return playlistResult(input);
+  return null;
+}
+
+function toUrl(input: string): URL | null {
+  // 스킴 없이 붙여넣은 주소도 허용합니다. (youtube.com/watch?v=…, youtu.be/…)
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`;
+  try {
+    return new URL(withScheme);
+  } catch {
+    return null;
+  }
+}
+
+function parseYouTubeUrl(url: URL): YouTubeParseResult {
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+  const params = url.searchParams;
+  const startSeconds = parseStartSeconds(params, url.hash);
+
+  if (SHORT_HOSTS.has(host)) {
+    if (!segments[0]) return fail('INVALID_VIDEO_ID');
+    return videoResult(segments[0], { playlistId: params.get('list'), startSeconds });
+  }
+
+  if (NOCOOKIE_HOSTS.has(host)) {
+    if (segments[0] !== 'embed' || !segments[1]) return fail('UNSUPPORTED_PATH');
+    return videoResult(segments[1], { startSeconds });
+  }
+
+  if (!YOUTUBE_HOSTS.has(host)) return fail('UNSUPPORTED_HOST');
+
+  const [first, second] = segments;
+
+  switch (first) {
+    case undefined:
+      return fail('UNSUPPORTED_PATH');
+    case 'watch': {
+      const videoId = params.get('v');
+      if (videoId) return videoResult(videoId, { playlistId: params.get('list'), startSeconds });
+      const listId = params.get('list');
+      return listId ? playlistResult(listId) : fail('INVALID_VIDEO_ID');
+    }
+    case 'shorts':
+      return second ? videoResult(second, { isShorts: true, startSeconds }) : fail('INVALID_VIDEO_ID');
+    case 'live':
+      return second ? videoResult(second, { isLive: true, startSeconds }) : fail('INVALID_VIDEO_ID');
+    case 'embed':
+    case 'v':
+    case 'e':
+      // /embed/videoseries?list=… 는 재생목록 임베드
+      if (second === 'videoseries' && params.get('list')) return playlistResult(params.get('list')!);
+      return second ? videoResult(second, { playlistId: params.get('list'), startSeconds }) : fail('INVALID_VIDEO_ID');
+    case 'playlist': {
+      const listId = params.get('list');
+      return listId ? playlistResult(listId) : fail('INVALID_PLAYLIST_ID');
+    }
+    case 'channel':
+      return second ? channelResult('id', second) : fail('INVALID_CHANNEL');
+    case 'c':
+      return second ? channelResult('custom', second) : fail('INVALID_CHANNEL');
+    case 'user':
+      return second ? channelResult('user', second) : fail('INVALID_CHANNEL');
+  }
+
+  if (first.startsWith('@')) return channelResult('handle', first);
+  if (!RESERVED_PATHS.has(first.toLowerCase())) return channelResult('custom', first);
+  return fail('UNSUPPORTED_PATH');
+}
+
+/**
+ * 붙여넣은 입력을 영상 / 채널 / 재생목록으로 분류합니다.
+ * @param input - YouTube URL, video_id, 채널 ID(UC…), @handle 또는 재생목록 ID
+ * @returns 분류 결과 (ok: false이면 reason과 안내 메시지 포함)
+ */
+export function parseYouTubeInput(input: string): YouTubeParseResult {
+  const trimmed = input.trim();
+  if (!trimmed) return fail('EMPTY');
+
+  const bare = parseBareInput(trimmed);
+  if (bare) return bare;
+
+  const url = toUrl(trimmed);
+  if (!url || !url.hostname.includes('.')) return fail('INVALID_URL');
+  return parseYouTubeUrl(url);
+}
+
+function expectKind<K extends YouTubeInputKind>(
+  result: YouTubeParseResult,
+  kind: K
+): Extract<ParsedYouTubeInput, { kind: K }> | YouTubeParseError {
+  if (!result.ok) return result as YouTubeParseError;
+  if (result.kind !== kind) {
+    return fail('WRONG_KIND', `${KIND_LABELS[kind]} 주소가 아닌 ${KIND_LABELS[result.kind]} 주소입니다.`);
+  }
+  return result as Extract<ParsedYouTubeInput, { kind: K }>;
+}
+
+/**
+ * 영상 입력만 허용해 파싱합니다. (채널/재생목록이면 WRONG_KIND)
+ * @param input - 영상 URL 또는 video_id
+ */
+export function parseYouTubeVideo(input: string): ParsedYouTubeVideo | YouTubeParseError {
+  return expectKind(parseYouTubeInput(input), 'video');
+}
+
+/**
+ * 채널 입력만 허용해 파싱합니다. (영상/재생목록이면 WRONG_KIND)
+ * @param input - 채널 URL, 채널 ID(UC…) 또는 @handle
+ */
+export function parseYouTubeChannel(input: string): ParsedYouTubeChannel | YouTubeParseError {
+  return expectKind(parseYouTubeInput(input), 'channel');
+}
@@ -4,6 +4,13 @@ import { Metadata } from 'next'
 
 export const metadata: Metadata = {
   title: 'Trendix - YouTube Trend Intelligence',
+  // 피드 리더 자동 탐지용 급등 영상 피드
+  alternates: {
+    types: {
+      'application/atom+xml': '/feeds/trending.xml',
+      'application/rss+xml': '/feeds/trending.xml?format=rss',
+    },
+  },
 }
 
 export default function Home() {
@@ -1,23 +1,25 @@
 import { categoryList } from "@/app/actions/categoryList";
 import UserMain from "@/app/components/User/Main";
 import { HotTrendType } from "@/types/hotTrend";
+import { serverApiRequest } from "@/app/lib/api/server";
+import { isTrendRegion, trendRegionToBackendQuery } from "@/app/lib/trends/region";
+import { getPreferredTrendRegion } from "@/app/utils/trend-region";
 
 // 동적 라우트로 명시적 설정 (no-store fetch 사용으로 인한 빌드 에러 방지)
 export const dynamic = 'force-dynamic';
 
-export default async function UserMainPage() {
+export default async function UserMainPage({ searchParams }: { searchParams: Promise<{ region?: string }> }) {
+
+    // URL의 region (공유 링크) 우선, 없으면 헤더에서 마지막으로 선택한 지역
+    const { region: urlRegion } = await searchParams;
+    const region = isTrendRegion(urlRegion) ? urlRegion : await getPreferredTrendRegion();
 
     try {
-        const res = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/trends/categories/hot?limit=4&platform=youtube`, {
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            cache: 'no-store',
-            method: 'GET',
+        const data = await serverApiRequest<{ items: HotTrendType[] }>('/trends/categories/hot', {
+            query: { limit: 4, platform: 'youtube', ...trendRegionToBackendQuery(region) },
         });
-        const data = await res.json();
 
-        const hotTrend = await Promise.all(data.items.filter((category: HotTrendType) => category.category !== "uncategorized").map((category: HotTrendType) => categoryList(category.category, 4)));
+        const hotTrend = await Promise.all(data.items.filter((category: HotTrendType) => category.category !== "uncategorized").map((category: HotTrendType) => categoryList(category.category, 4, region)));
 
         const flattenedList: Video[] = [];
         const maxLength = Math.max(...hotTrend.map(trend => trend.items?.length || 0));
@@ -1,18 +1,12 @@
 import { InterestType } from "@/types/interestType";
+import { apiRequest } from "@/app/lib/api/client";
 
 
 export async function interestList() {
 
-    const res = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/ingestion/category_Tags`, {
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        cache: 'no-store',
-        method: 'GET',
-    });
-    const data = await res.json();
+    const data = await apiRequest<{ items: InterestType[] }>('/ingestion/category_Tags');
 
     const interestList: InterestType[] = data.items.filter((item: InterestType) => item.category !== 'uncategorized');
 
     return interestList;
-}
\ No newline at end of file
+}
@@ -0,0 +1,11 @@
+import { cookies } from 'next/headers';
+import type { TrendRegion } from '@/app/lib/api/types';
+import { DEFAULT_TREND_REGION, isTrendRegion, TREND_REGION_COOKIE } from '@/app/lib/trends/region';
+
+/**
+ * 헤더에서 마지막으로 선택한 트렌드 조회 지역을 쿠키에서 읽습니다. (서버 컴포넌트 전용)
+ */
+export async function getPreferredTrendRegion(): Promise<TrendRegion> {
+  const value = (await cookies()).get(TREND_REGION_COOKIE)?.value;
+  return isTrendRegion(value) ? value : DEFAULT_TREND_REGION;
+}
@@ -4,34 +4,12 @@ import { useState, useEffect } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { Icon } from '@iconify/react/dist/iconify.js'
-
-// 임시 타입 정의
-interface VideoDetail {
-    id: string
-    title: string
-    description: string
-    channelName: string
-    channelId: string
-    channelThumbnail: string
-    thumbnailUrl: string
-    viewCount: number
-    likeCount: number
-    commentCount: number
-    publishedAt: string
-    duration: string
-    categoryId: string
-    categoryName: string
-    tags: string[]
-    isShort: boolean
-    trendingRank?: number
-    trendingReason?: string
-    // 시계열 데이터
-    viewHistory: { time: string; count: number }[]
-    likeHistory: { time: string; count: number }[]
-}
-
-
-
+import { apiRequest, isAbortError } from '@/app/lib/api/client'
+import { videoDetailDecoder } from '@/app/lib/api/decoders'
+import { DerivedViewHistoryItem, VideoDetail, ViewHistoryAnomaly, ViewHistoryAnomalyReason } from '@/app/lib/api/types'
+import { fetchVideoViewHistory } from '@/app/lib/api/videos'
+import { isInvalidResponseError, ApiErrorNotice } from '@/app/components/Common/ApiErrorNotice'
+import { VIEW_HISTORY_ANOMALY_LABELS } from '@/app/lib/trends/view-anomalies'
 
 function formatNumber(num: number): string {
     if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M'
@@ -50,21 +28,51 @@ function formatDate(dateString: string): string {
     })
 }
 
-// 간단한 차트 컴포넌트 (라이브러리 없이)
-function SimpleChart({ data, label, color }: { data: { time: string; count: number }[], label: string, color: string }) {
-    const maxCount = Math.max(...data.map(d => d.count))
+function formatPercent(ratio: number): string {
+    return `${(ratio * 100).toFixed(Math.abs(ratio) < 0.1 ? 1 : 0)}%`
+}
+
+// 구간별 누적값과 endpoint가 계산한 증가량(delta), 증가량 이동평균(average), 이상 구간 사유(anomaly)
+type ChartPoint = { time: string; count: number; delta: number | null; average: number | null; anomaly?: string }
+
+function anomalyLabel(anomaly: ViewHistoryAnomaly | undefined, reasons: ViewHistoryAnomalyReason[]): string | undefined {
+    const labels = anomaly?.reasons.filter((reason) => reasons.includes(reason)).map((reason) => VIEW_HISTORY_ANOMALY_LABELS[reason])
+    return labels?.length ? labels.join(' · ') : undefined
+}
+
+// 간단한 차트 컴포넌트 (라이브러리 없이): 막대는 구간 증가량, 점선은 증가량 이동평균, 주황색 막대는 이상 구간
+function SimpleChart({ data, label, color, summary }: { data: ChartPoint[], label: string, color: string, summary?: string }) {
+    if (!data.length) {
+        return (
+            <div className='bg-white rounded-xl p-4 shadow-sm'>
+                <h4 className='font-semibold text-gray-700 mb-4'>{label} 추이</h4>
+                <div className='flex items-center justify-center h-32 text-sm text-gray-400'>데이터 없음</div>
+            </div>
+        )
+    }
+
+    const maxDelta = Math.max(...data.map(d => Math.max(d.delta ?? 0, d.average ?? 0)), 1)
+    const latest = data[data.length - 1]
+    const anomalyCount = data.filter((item) => item.anomaly).length
 
     return (
         <div className='bg-white rounded-xl p-4 shadow-sm'>
             <h4 className='font-semibold text-gray-700 mb-4'>{label} 추이</h4>
             <div className='flex items-end gap-2 h-32'>
                 {data.map((item, i) => (
-                    <div key={i} className='flex-1 flex flex-col items-center gap-1'>
+                    <div key={i} className='relative h-full flex-1 flex flex-col justify-end items-center gap-1'>
+                        {item.anomaly && <Icon icon='mdi:alert-circle' className='text-orange-500 text-xs shrink-0' />}
                         <div
-                            className={`w-full rounded-t ${color} transition-all duration-300`}
-                            style={{ height: `${(item.count / maxCount) * 100}%`, minHeight: '4px' }}
-                            title={`${formatNumber(item.count)}`}
+                            className={`w-full rounded-t ${item.anomaly ? 'bg-orange-500' : color} transition-all duration-300`}
+                            style={{ height: `${(Math.max(item.delta ?? 0, 0) / maxDelta) * 100}%`, minHeight: '4px' }}
+                            title={[`+${formatNumber(item.delta ?? 0)} (총 ${formatNumber(item.count)})`, item.anomaly].filter(Boolean).join('\n')}
                         />
+                        {item.average !== null && (
+                            <div
+                                className='absolute left-0 right-0 border-t-2 border-dashed border-gray-500/70 pointer-events-none'
+                                style={{ bottom: `${(Math.max(item.average, 0) / maxDelta) * 100}%` }}
+                            />
+                        )}
                         <span className='text-[10px] text-gray-400 -rotate-45 origin-top-left whitespace-nowrap'>
                             {item.time}
                         </span>
@@ -72,12 +80,13 @@ function SimpleChart({ data, label, color }: { data: { time: string; count: numb
                 ))}
             </div>
             <div className='flex justify-between mt-6 text-xs text-gray-500'>
-                <span>시작: {formatNumber(data[0].count)}</span>
-                <span className='font-semibold text-green-600'>
-                    +{formatNumber(data[data.length - 1].count - data[0].count)} ({Math.round(((data[data.length - 1].count - data[0].count) / data[0].count) * 100)}%)
-                </span>
-                <span>현재: {formatNumber(data[data.length - 1].count)}</span>
+                <span>최근 증가: +{formatNumber(latest.delta ?? 0)}</span>
+                {summary && <span className='font-semibold text-green-600'>{summary}</span>}
+                <span>현재: {formatNumber(latest.count)}</span>
             </div>
+            {anomalyCount > 0 && (
+                <div className='mt-2 text-xs text-orange-600'>이상 구간 {anomalyCount}개 (막대에 마우스를 올리면 사유 표시)</div>
+            )}
         </div>
     )
 }
@@ -89,49 +98,74 @@ interface VideoDetailClientProps {
 export default function VideoDetailClient({ videoId }: VideoDetailClientProps) {
     const [video, setVideo] = useState<VideoDetail | null>(null)
     const [loading, setLoading] = useState(true)
-    const [error, setError] = useState<string | null>(null)
+    const [error, setError] = useState<unknown>(null)
+    const [history, setHistory] = useState<DerivedViewHistoryItem[]>([])
+    const [anomalies, setAnomalies] = useState<ViewHistoryAnomaly[]>([])
 
     useEffect(() => {
+        const controller = new AbortController()
+
         const fetchVideoDetail = async () => {
             setLoading(true)
             setError(null)
             setVideo(null)
 
             try {
-                const apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL
-                if (!apiBaseUrl) {
-                    throw new Error('NEXT_PUBLIC_API_BASE_URL 환경 변수가 설정되어 있지 않습니다.')
-                }
-
-                const response = await fetch(
-                    `${apiBaseUrl}/analysis/videos/${videoId}?platform=youtube&history_limit=9`,
-                    {
-                        method: 'GET',
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                    }
-                )
-
-                if (!response.ok) {
-                    const payload = await response.json().catch(() => null)
-                    const detail = typeof payload?.detail === 'string' ? payload.detail : `요청에 실패했습니다. (status: ${response.status})`
-                    throw new Error(detail)
-                }
-
-                const data: VideoDetail = await response.json()
+                const data = await apiRequest(`/analysis/videos/${encodeURIComponent(videoId)}`, {
+                    query: { platform: 'youtube', history_limit: 9 },
+                    signal: controller.signal,
+                    decoder: videoDetailDecoder,
+                })
                 setVideo(data)
             } catch (err) {
-                const message = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.'
-                setError(message)
+                if (isAbortError(err)) return
+                setError(err)
             } finally {
-                setLoading(false)
+                if (!controller.signal.aborted) setLoading(false)
             }
         }
 
         fetchVideoDetail()
+        return () => controller.abort()
     }, [videoId])
 
+    // 차트용 구간별 추이 (증가량, 성장률 등 파생 지표는 endpoint가 계산)
+    useEffect(() => {
+        const controller = new AbortController()
+        setHistory([])
+        setAnomalies([])
+
+        fetchVideoViewHistory(videoId, { platform: 'youtube', limit: 9 }, controller.signal)
+            .then((data) => {
+                setHistory(data.history)
+                setAnomalies(data.anomalies ?? [])
+            })
+            .catch((err) => {
+                if (isAbortError(err)) return
+                console.error('Failed to fetch view history:', err)
+            })
+
+        return () => controller.abort()
+    }, [videoId])
+
+    const latestBucket = history[history.length - 1]
+    // 이상 구간 (수집 공백은 두 차트 모두 표시)
+    const anomalyByDate = new Map(anomalies.map((anomaly) => [anomaly.snapshot_date, anomaly]))
+    const viewSeries: ChartPoint[] = history.map((item) => ({
+        time: item.snapshot_date.slice(5),
+        count: item.view_count,
+        delta: item.view_delta,
+        average: item.view_delta_avg,
+        anomaly: anomalyLabel(anomalyByDate.get(item.snapshot_date), ['view_spike', 'crawl_gap']),
+    }))
+    const likeSeries: ChartPoint[] = history.map((item) => ({
+        time: item.snapshot_date.slice(5),
+        count: item.like_count,
+        delta: item.like_delta,
+        average: item.like_delta_avg,
+        anomaly: anomalyLabel(anomalyByDate.get(item.snapshot_date), ['like_ratio_drop', 'crawl_gap']),
+    }))
+
     if (loading) {
         return (
             <div className='min-h-screen flex items-center justify-center'>
@@ -142,8 +176,12 @@ export default function VideoDetailClient({ videoId }: VideoDetailClientProps) {
 
     if (!video) {
         return (
-            <div className='min-h-screen flex items-center justify-center'>
-                <p className='text-gray-500'>{error ?? '영상을 찾을 수 없습니다.'}</p>
+            <div className='min-h-screen flex items-center justify-center px-4'>
+                {isInvalidResponseError(error) ? (
+                    <ApiErrorNotice error={error} className='max-w-lg' />
+                ) : (
+                    <p className='text-gray-500'>{error instanceof Error ? error.message : '영상을 찾을 수 없습니다.'}</p>
+                )}
             </div>
         )
     }
@@ -220,8 +258,18 @@ export default function VideoDetailClient({ videoId }: VideoDetailClientProps) {
 
                         {/* Charts */}
                         <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
-                            <SimpleChart data={video.viewHistory} label='조회수' color='bg-blue-500' />
-                            <SimpleChart data={video.likeHistory} label='좋아요' color='bg-pink-500' />
+                            <SimpleChart
+                                data={viewSeries}
+                                label='조회수'
+                                color='bg-blue-500'
+                                summary={latestBucket?.view_growth_rate != null ? `성장률 ${latestBucket.view_growth_rate >= 0 ? '+' : ''}${formatPercent(latestBucket.view_growth_rate)}` : undefined}
+                            />
+                            <SimpleChart
+                                data={likeSeries}
+                                label='좋아요'
+                                color='bg-pink-500'
+                                summary={latestBucket?.like_view_ratio != null ? `조회수 대비 ${formatPercent(latestBucket.like_view_ratio)}` : undefined}
+                            />
                         </div>
 
                         {/* Description */}
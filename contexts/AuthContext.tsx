@@ -1,6 +1,7 @@
 "use client";
 
 import { Interest, UserInfo } from "@/types/userInfo";
+import { apiFetch } from "@/app/lib/api/client";
 import {
   createContext,
   useContext,
@@ -62,9 +63,11 @@ export const AuthProvider = ({ children, initialUser }: { children: ReactNode; i
 
 
   const logout = () => {
-    fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/logout`, {
-      method: "GET",
+    apiFetch("/logout", {
       credentials: "include",
+      retries: 0,
+    }).catch((error) => {
+      console.error("로그아웃 요청 실패:", error);
     }).finally(() => {
       setIsLoggedIn(false);
       window.location.href = "/";
@@ -0,0 +1,87 @@
+"use client";
+
+import { TrendRegion } from "@/app/lib/api/types";
+import { fetchTrendRegionPreference, saveTrendRegionPreference } from "@/app/lib/api/preferences";
+import { isAbortError } from "@/app/lib/api/client";
+import { DEFAULT_TREND_REGION, isTrendRegion, TREND_REGION_COOKIE } from "@/app/lib/trends/region";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+
+interface TrendRegionContextType {
+  // 현재 조회 지역 (URL의 region 파라미터 우선, 없으면 사용자가 마지막으로 선택한 지역)
+  region: TrendRegion;
+  // 지역을 바꾸고 URL, 쿠키, 계정 환경설정(로그인 시)에 반영합니다.
+  setRegion: (region: TrendRegion) => void;
+}
+
+const TrendRegionContext = createContext<TrendRegionContextType>({
+  region: DEFAULT_TREND_REGION,
+  setRegion: () => { },
+});
+
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+function writeRegionCookie(region: TrendRegion) {
+  document.cookie = `${TREND_REGION_COOKIE}=${region}; path=/; max-age=${COOKIE_MAX_AGE_SECONDS}; samesite=lax`;
+}
+
+export const TrendRegionProvider = ({ children, initialRegion }: { children: ReactNode; initialRegion: TrendRegion }) => {
+  const { isLoggedIn, userId } = useAuth();
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const router = useRouter();
+  const [preferredRegion, setPreferredRegion] = useState<TrendRegion>(initialRegion);
+
+  // 공유 링크는 링크의 지역을 그대로 보여주고, 사용자 설정은 바꾸지 않습니다.
+  const urlRegion = searchParams.get("region");
+  const region = isTrendRegion(urlRegion) ? urlRegion : preferredRegion;
+
+  // 로그인한 경우 다른 기기에서 저장한 계정 설정을 우선합니다.
+  useEffect(() => {
+    if (!isLoggedIn || !userId) return;
+    const controller = new AbortController();
+
+    fetchTrendRegionPreference(userId, controller.signal)
+      .then((saved) => {
+        if (!saved) return;
+        setPreferredRegion(saved);
+        writeRegionCookie(saved);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("트렌드 지역 설정 조회 실패:", error);
+      });
+
+    return () => controller.abort();
+  }, [isLoggedIn, userId]);
+
+  const setRegion = useCallback((next: TrendRegion) => {
+    setPreferredRegion(next);
+    writeRegionCookie(next);
+    if (isLoggedIn && userId) {
+      saveTrendRegionPreference(userId, next).catch((error) => {
+        console.error("트렌드 지역 설정 저장 실패:", error);
+      });
+    }
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("region", next);
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  }, [isLoggedIn, userId, pathname, router, searchParams]);
+
+  return (
+    <TrendRegionContext.Provider value={{ region, setRegion }}>
+      {children}
+    </TrendRegionContext.Provider>
+  );
+};
+
+export const useTrendRegion = () => useContext(TrendRegionContext);
@@ -0,0 +1,214 @@
+// app/lib/db 통합 테스트 (로컬 PostgreSQL 필요)
+// - TEST_DATABASE_URL의 DB에 public.video를 만들고 픽스처 행(video_id가 it-로 시작)을 넣은 뒤 쿼리 함수를 실행합니다.
+// - 테스트 전용 DB를 사용하세요. 픽스처 행은 테스트 전후로 지웁니다.
+// - TEST_DATABASE_URL이 없으면 건너뜁니다. 실행 방법은 docs/DATABASE.md를 참고하세요.
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  closeDbPool,
+  dbQuery,
+  getDbPool,
+  queryCategoryVideoBuckets,
+  queryChannelVideoBuckets,
+  queryVideoHistory,
+  queryVideosHistory,
+  queryVideosSincePublish,
+} from '@/app/lib/db';
+import type { BucketRange } from '@/app/lib/db';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+// 풀은 첫 쿼리에서 만들어지므로 그 전에 환경 변수를 맞춥니다.
+// crawled_at이 timestamp(시간대 없음)이므로 세션 시간대를 UTC로 고정해 구간 경계를 일정하게 합니다.
+process.env.DATABASE_URL = TEST_DATABASE_URL;
+process.env.PGOPTIONS = '-c TimeZone=UTC';
+process.env.DB_STATEMENT_TIMEOUT_MS = '500';
+
+const DAY_UTC: BucketRange = { granularity: 'day', timeZone: 'UTC', from: null, to: null };
+
+// [video_id, channel_id, category_id, platform, view_count, like_count, comment_count, published_at, crawled_at]
+const FIXTURE_ROWS: [string, string, string, string, number, number, number, string | null, string | null][] = [
+  ['it-a', 'it-ch-1', '10', 'youtube', 1000, 50, 5, '2026-01-01 00:00', '2026-01-02 06:00'],
+  ['it-a', 'it-ch-1', '10', 'youtube', 1500, 70, 6, '2026-01-01 00:00', '2026-01-02 18:00'],
+  ['it-a', 'it-ch-1', '10', 'youtube', 4000, 160, 12, '2026-01-01 00:00', '2026-01-03 06:00'],
+  ['it-a', 'it-ch-1', '10', 'youtube', 9000, 300, 20, '2026-01-01 00:00', '2026-01-04 06:00'],
+  // 수집 시각이 없는 행과 다른 플랫폼 행은 집계에서 빠져야 합니다.
+  ['it-a', 'it-ch-1', '10', 'youtube', 99999, 0, 0, '2026-01-01 00:00', null],
+  ['it-a', 'it-ch-1', '10', 'tiktok', 99999, 0, 0, '2026-01-01 00:00', '2026-01-03 06:00'],
+  ['it-b', 'it-ch-1', '20', 'youtube', 500, 10, 1, '2026-01-02 00:00', '2026-01-02 12:00'],
+  ['it-b', 'it-ch-1', '20', 'youtube', 800, 20, 2, '2026-01-02 00:00', '2026-01-03 12:00'],
+  ['it-c', 'it-ch-2', '10', 'youtube', 300, 3, 0, null, '2026-01-03 12:00'],
+];
+
+async function deleteFixtureRows() {
+  await dbQuery(`DELETE FROM public.video WHERE video_id LIKE 'it-%'`);
+}
+
+function byKey(rows: { video_id: string; bucket_start: Date; view_count: number }[]) {
+  return rows
+    .map((row) => ({ key: `${row.video_id}@${row.bucket_start.toISOString()}`, view_count: row.view_count }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+describe.skipIf(!TEST_DATABASE_URL)('app/lib/db', () => {
+  beforeAll(async () => {
+    await dbQuery(`
+      CREATE TABLE IF NOT EXISTS public.video (
+        video_id varchar(100) NOT NULL,
+        channel_id varchar(100),
+        category_id varchar(50),
+        platform varchar(50) NOT NULL,
+        view_count int8,
+        like_count int8,
+        comment_count int8,
+        published_at timestamp,
+        crawled_at timestamp
+      )
+    `);
+    await deleteFixtureRows();
+    for (const row of FIXTURE_ROWS) {
+      await dbQuery(
+        `
+        INSERT INTO public.video
+          (video_id, channel_id, category_id, platform, view_count, like_count, comment_count, published_at, crawled_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        `,
+        row
+      );
+    }
+  });
+
+  afterAll(async () => {
+    await deleteFixtureRows();
+    await closeDbPool();
+  });
+
+  describe('queryVideoHistory', () => {
+    it('returns the max counts per bucket, oldest first', async () => {
+      const rows = await queryVideoHistory('it-a', 'youtube', DAY_UTC, { limit: 10, latest: false });
+
+      expect(rows).toEqual([
+        { bucket_start: new Date('2026-01-02T00:00:00Z'), view_count: 1500, like_count: 70, comment_count: 6 },
+        { bucket_start: new Date('2026-01-03T00:00:00Z'), view_count: 4000, like_count: 160, comment_count: 12 },
+        { bucket_start: new Date('2026-01-04T00:00:00Z'), view_count: 9000, like_count: 300, comment_count: 20 },
+      ]);
+    });
+
+    it('takes the latest buckets when latest is set', async () => {
+      const rows = await queryVideoHistory('it-a', 'youtube', DAY_UTC, { limit: 2, latest: true });
+
+      expect(rows.map((row) => row.bucket_start.toISOString())).toEqual([
+        '2026-01-03T00:00:00.000Z',
+        '2026-01-04T00:00:00.000Z',
+      ]);
+    });
+
+    it('limits crawled_at to the range (from inclusive, to exclusive)', async () => {
+      const rows = await queryVideoHistory(
+        'it-a',
+        'youtube',
+        { ...DAY_UTC, from: new Date('2026-01-03T00:00:00Z'), to: new Date('2026-01-04T06:00:00Z') },
+        { limit: 10, latest: false }
+      );
+
+      expect(rows.map((row) => row.view_count)).toEqual([4000]);
+    });
+
+    it('truncates buckets in the requested time zone', async () => {
+      const rows = await queryVideoHistory('it-a', 'youtube', { ...DAY_UTC, timeZone: 'Asia/Seoul' }, { limit: 10, latest: false });
+
+      // 2026-01-02 18:00 UTC는 서울 기준 2026-01-03 03:00입니다.
+      expect(rows.map((row) => [row.bucket_start.toISOString(), row.view_count])).toEqual([
+        ['2026-01-01T15:00:00.000Z', 1000],
+        ['2026-01-02T15:00:00.000Z', 4000],
+        ['2026-01-03T15:00:00.000Z', 9000],
+      ]);
+    });
+
+    it('returns an empty list for an unknown video', async () => {
+      await expect(queryVideoHistory('it-missing', 'youtube', DAY_UTC, { limit: 10, latest: false })).resolves.toEqual([]);
+    });
+  });
+
+  describe('queryVideosHistory', () => {
+    it('returns per-video buckets with published_at', async () => {
+      const rows = await queryVideosHistory(['it-a', 'it-b'], 'youtube', DAY_UTC);
+
+      expect(byKey(rows)).toEqual([
+        { key: 'it-a@2026-01-02T00:00:00.000Z', view_count: 1500 },
+        { key: 'it-a@2026-01-03T00:00:00.000Z', view_count: 4000 },
+        { key: 'it-a@2026-01-04T00:00:00.000Z', view_count: 9000 },
+        { key: 'it-b@2026-01-02T00:00:00.000Z', view_count: 500 },
+        { key: 'it-b@2026-01-03T00:00:00.000Z', view_count: 800 },
+      ]);
+      expect(rows.find((row) => row.video_id === 'it-b')?.published_at).toEqual(new Date('2026-01-02T00:00:00Z'));
+      expect(typeof rows[0].like_count).toBe('number');
+    });
+  });
+
+  describe('queryVideosSincePublish', () => {
+    it('groups snapshots by hours since publish and skips videos without published_at', async () => {
+      const rows = await queryVideosSincePublish(['it-a', 'it-b', 'it-c'], 'youtube', 24, 72);
+      const summary = rows
+        .map((row) => [row.video_id, row.hours_since_publish, row.view_count])
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0])) || Number(a[1]) - Number(b[1]));
+
+      // it-a의 78시간 스냅샷은 상한(72시간) 밖입니다.
+      expect(summary).toEqual([
+        ['it-a', 24, 1500],
+        ['it-a', 48, 4000],
+        ['it-b', 0, 500],
+        ['it-b', 24, 800],
+      ]);
+      expect(rows.find((row) => row.video_id === 'it-a')?.published_at).toEqual(new Date('2026-01-01T00:00:00Z'));
+    });
+  });
+
+  describe('queryChannelVideoBuckets', () => {
+    it('returns buckets for every video of the channel', async () => {
+      const rows = await queryChannelVideoBuckets('it-ch-1', 'youtube', DAY_UTC);
+
+      expect(new Set(rows.map((row) => row.video_id))).toEqual(new Set(['it-a', 'it-b']));
+      expect(rows).toHaveLength(5);
+    });
+
+    it('does not mix other channels', async () => {
+      const rows = await queryChannelVideoBuckets('it-ch-2', 'youtube', DAY_UTC);
+
+      expect(byKey(rows)).toEqual([{ key: 'it-c@2026-01-03T00:00:00.000Z', view_count: 300 }]);
+      expect(rows[0].published_at).toBeNull();
+    });
+  });
+
+  describe('queryCategoryVideoBuckets', () => {
+    it('returns buckets for every video of the category', async () => {
+      const rows = await queryCategoryVideoBuckets('10', 'youtube', DAY_UTC);
+      const fixtureRows = rows.filter((row) => row.video_id.startsWith('it-'));
+
+      expect(new Set(fixtureRows.map((row) => row.video_id))).toEqual(new Set(['it-a', 'it-c']));
+      expect(fixtureRows).toHaveLength(4);
+    });
+  });
+
+  describe('pool', () => {
+    it('cancels statements that run longer than DB_STATEMENT_TIMEOUT_MS', async () => {
+      // 57014: query_canceled
+      await expect(dbQuery('SELECT pg_sleep(2)')).rejects.toMatchObject({ code: '57014' });
+      // 취소된 뒤에도 풀은 계속 사용할 수 있어야 합니다.
+      await expect(dbQuery<{ ok: number }>('SELECT 1 AS ok')).resolves.toEqual([{ ok: 1 }]);
+    });
+
+    it('closes the shared pool and creates a new one on the next use', async () => {
+      const pool = getDbPool();
+      await closeDbPool();
+
+      expect(pool.ended).toBe(true);
+      // 이미 닫혀 있으면 아무것도 하지 않습니다.
+      await expect(closeDbPool()).resolves.toBeUndefined();
+
+      const next = getDbPool();
+      expect(next).not.toBe(pool);
+      await expect(dbQuery<{ ok: number }>('SELECT 1 AS ok')).resolves.toEqual([{ ok: 1 }]);
+    });
+  });
+});